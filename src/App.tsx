@@ -4,6 +4,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import RecipePage from "./pages/RecipePage";
+import EditRecipePage from "./pages/EditRecipePage";
+import NewRecipePage from "./pages/NewRecipePage";
+import DuplicatesPage from "./pages/DuplicatesPage";
+import ImportsPage from "./pages/ImportsPage";
+import ImportSourcesPage from "./pages/ImportSourcesPage";
+import MealPlanPage from "./pages/MealPlanPage";
+import ShoppingListsPage from "./pages/ShoppingListsPage";
+import ShoppingListPage from "./pages/ShoppingListPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,6 +25,15 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/recipes/new" element={<NewRecipePage />} />
+          <Route path="/recipes/:id" element={<RecipePage />} />
+          <Route path="/recipes/:id/edit" element={<EditRecipePage />} />
+          <Route path="/duplicates" element={<DuplicatesPage />} />
+          <Route path="/imports" element={<ImportsPage />} />
+          <Route path="/imports/sources" element={<ImportSourcesPage />} />
+          <Route path="/plan" element={<MealPlanPage />} />
+          <Route path="/shopping" element={<ShoppingListsPage />} />
+          <Route path="/shopping/:id" element={<ShoppingListPage />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,70 @@
+import { useCollections } from "@/hooks/useCollections";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FolderHeart } from "lucide-react";
+
+interface AddToCollectionMenuProps {
+  recipeId: string;
+}
+
+// Ticks the manual collections a recipe is in; smart collections pick recipes up by themselves
+export const AddToCollectionMenu = ({ recipeId }: AddToCollectionMenuProps) => {
+  const { collections, addRecipe, removeRecipe } = useCollections();
+  const { toast } = useToast();
+  const manualCollections = collections.filter(collection => collection.kind === "manual");
+
+  const toggle = async (collectionId: string, included: boolean) => {
+    try {
+      if (included) {
+        await removeRecipe(collectionId, recipeId);
+      } else {
+        await addRecipe(collectionId, recipeId);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update collection. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" title="Add to collection">
+          <FolderHeart className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Collections</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {manualCollections.length === 0 ? (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">Create a collection from the recipe list sidebar.</p>
+        ) : (
+          manualCollections.map(collection => {
+            const included = collection.recipeIds.includes(recipeId);
+            return (
+              <DropdownMenuCheckboxItem
+                key={collection.id}
+                checked={included}
+                onCheckedChange={() => toggle(collection.id, included)}
+                onSelect={event => event.preventDefault()}
+              >
+                {collection.name}
+              </DropdownMenuCheckboxItem>
+            );
+          })
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
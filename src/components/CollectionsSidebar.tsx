@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Collection, CollectionKind } from "@/hooks/useCollections";
+import { NameDialog } from "@/components/NameDialog";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { BookOpen, FolderHeart, MoreHorizontal, Pencil, Plus, Sparkles, Trash2 } from "lucide-react";
+
+interface CollectionsSidebarProps {
+  collections: Collection[];
+  // The collection on screen, or null for all recipes
+  activeId: string | null;
+  // Whether the list on screen is filtered, so there is a search to save
+  canSaveSearch: boolean;
+  onSelect: (collection: Collection | null) => void;
+  onCreate: (name: string, kind: CollectionKind) => Promise<void>;
+  onRename: (collection: Collection, name: string) => Promise<void>;
+  onDelete: (collection: Collection) => Promise<void>;
+}
+
+type DialogState = { kind: CollectionKind } | { renaming: Collection };
+
+const DIALOG_TEXT: Record<CollectionKind, { title: string; description: string; placeholder: string }> = {
+  smart: {
+    title: "Save search",
+    description: "The current search and filters become a smart collection that keeps up as recipes change.",
+    placeholder: "Weeknight under 30 min",
+  },
+  manual: {
+    title: "New collection",
+    description: "A hand-picked list. Add recipes from their pages and arrange them in any order.",
+    placeholder: "Holiday dinner",
+  },
+};
+
+export const CollectionsSidebar = ({ collections, activeId, canSaveSearch, onSelect, onCreate, onRename, onDelete }: CollectionsSidebarProps) => {
+  const [dialog, setDialog] = useState<DialogState | null>(null);
+
+  const smartCollections = collections.filter(collection => collection.kind === "smart");
+  const manualCollections = collections.filter(collection => collection.kind === "manual");
+
+  const renderItems = (items: Collection[], emptyText: string) =>
+    items.length === 0 ? (
+      <p className="px-2 py-1 text-xs text-muted-foreground">{emptyText}</p>
+    ) : (
+      items.map(collection => (
+        <SidebarMenuItem key={collection.id}>
+          <SidebarMenuButton isActive={collection.id === activeId} onClick={() => onSelect(collection)} tooltip={collection.name}>
+            {collection.kind === "smart" ? <Sparkles /> : <FolderHeart />}
+            <span>{collection.name}</span>
+          </SidebarMenuButton>
+          {collection.kind === "manual" && <SidebarMenuBadge>{collection.recipeIds.length}</SidebarMenuBadge>}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <SidebarMenuAction showOnHover aria-label={`${collection.name} options`}>
+                <MoreHorizontal />
+              </SidebarMenuAction>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent side="right" align="start">
+              <DropdownMenuItem onClick={() => setDialog({ renaming: collection })}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onDelete(collection)} className="text-destructive">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </SidebarMenuItem>
+      ))
+    );
+
+  const dialogText = dialog
+    ? "renaming" in dialog
+      ? { title: "Rename collection", description: dialog.renaming.name, placeholder: undefined }
+      : DIALOG_TEXT[dialog.kind]
+    : DIALOG_TEXT.manual;
+
+  const handleSave = async (name: string) => {
+    if (!dialog) return;
+    if ("renaming" in dialog) {
+      await onRename(dialog.renaming, name);
+    } else {
+      await onCreate(name, dialog.kind);
+    }
+  };
+
+  // The dialog sits outside the sidebar, which is a sheet that closes on mobile
+  return (
+    <>
+      <Sidebar>
+        <SidebarHeader>
+          <SidebarMenu>
+            <SidebarMenuItem>
+              <SidebarMenuButton isActive={activeId === null} onClick={() => onSelect(null)}>
+                <BookOpen />
+                <span>All recipes</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </SidebarMenu>
+        </SidebarHeader>
+
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Smart collections</SidebarGroupLabel>
+            <SidebarGroupAction
+              onClick={() => setDialog({ kind: "smart" })}
+              disabled={!canSaveSearch}
+              title={canSaveSearch ? "Save current search" : "Search or filter recipes to save a smart collection"}
+            >
+              <Plus />
+              <span className="sr-only">Save current search</span>
+            </SidebarGroupAction>
+            <SidebarGroupContent>
+              <SidebarMenu>{renderItems(smartCollections, "Filter the recipes, then save the search here.")}</SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Collections</SidebarGroupLabel>
+            <SidebarGroupAction onClick={() => setDialog({ kind: "manual" })} title="New collection">
+              <Plus />
+              <span className="sr-only">New collection</span>
+            </SidebarGroupAction>
+            <SidebarGroupContent>
+              <SidebarMenu>{renderItems(manualCollections, "No collections yet.")}</SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+
+      <NameDialog
+        title={dialogText.title}
+        description={dialogText.description}
+        placeholder={dialogText.placeholder}
+        initialName={dialog && "renaming" in dialog ? dialog.renaming.name : ""}
+        open={dialog !== null}
+        onOpenChange={open => !open && setDialog(null)}
+        onSave={handleSave}
+      />
+    </>
+  );
+};
@@ -0,0 +1,207 @@
+import { TouchEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Ingredient } from "@/types/recipe";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { StepText } from "@/components/StepText";
+import { detectDurations, formatTimer } from "@/lib/cookMode";
+import { ingredientsForStep } from "@/lib/stepIngredients";
+import { formatIngredientAmount } from "@/lib/ingredients";
+import { timeLeftMs, useCookTimers } from "@/hooks/useCookTimers";
+import { useWakeLock } from "@/hooks/useWakeLock";
+import { BellRing, ChevronLeft, ChevronRight, Pause, Play, Timer, X } from "lucide-react";
+
+interface CookModeProps {
+  title: string;
+  instructions: string[];
+  // Section of each step, shown above it
+  instructionGroups?: string[];
+  // Already scaled and converted, as shown on the recipe
+  ingredients: Ingredient[];
+  onClose: () => void;
+}
+
+// Horizontal travel that counts as a swipe rather than a tap
+const SWIPE_PX = 50;
+
+export const CookMode = ({ title, instructions, instructionGroups, ingredients, onClose }: CookModeProps) => {
+  const [step, setStep] = useState(0);
+  const { timers, now, start, pause, resume, dismiss } = useCookTimers();
+  const touchStart = useRef<{ x: number; y: number } | null>(null);
+
+  useWakeLock(true);
+
+  const instruction = instructions[step] ?? "";
+  const durations = useMemo(() => detectDurations(instruction), [instruction]);
+  const stepIngredients = useMemo(() => ingredientsForStep(ingredients, step), [ingredients, step]);
+
+  const goTo = useCallback(
+    (index: number) => setStep(Math.min(Math.max(index, 0), instructions.length - 1)),
+    [instructions.length]
+  );
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "ArrowRight") goTo(step + 1);
+      else if (event.key === "ArrowLeft") goTo(step - 1);
+      else if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [step, goTo, onClose]);
+
+  // The page underneath should not scroll while cooking
+  useEffect(() => {
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = overflow;
+    };
+  }, []);
+
+  const handleTouchStart = (event: TouchEvent) => {
+    const touch = event.touches[0];
+    touchStart.current = { x: touch.clientX, y: touch.clientY };
+  };
+
+  const handleTouchEnd = (event: TouchEvent) => {
+    const from = touchStart.current;
+    touchStart.current = null;
+    if (!from) return;
+    const touch = event.changedTouches[0];
+    const deltaX = touch.clientX - from.x;
+    const deltaY = touch.clientY - from.y;
+    if (Math.abs(deltaX) < SWIPE_PX || Math.abs(deltaX) < Math.abs(deltaY)) return;
+    goTo(deltaX < 0 ? step + 1 : step - 1);
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Cooking ${title}`}
+      className="fixed inset-0 z-50 flex flex-col bg-background"
+      onTouchStart={handleTouchStart}
+      onTouchEnd={handleTouchEnd}
+    >
+      <div className="flex items-center justify-between gap-3 border-b px-4 py-3">
+        <div className="min-w-0">
+          <div className="truncate font-semibold">{title}</div>
+          <div className="text-sm text-muted-foreground">
+            Step {step + 1} of {instructions.length}
+          </div>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label="Leave cook mode">
+          <X className="w-5 h-5" />
+        </Button>
+      </div>
+      <Progress value={((step + 1) / instructions.length) * 100} className="h-1 rounded-none" />
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="container mx-auto max-w-3xl px-4 py-8 space-y-8">
+          <div className="space-y-2">
+            {instructionGroups?.[step] && (
+              <div className="text-sm font-medium uppercase tracking-wide text-muted-foreground">{instructionGroups[step]}</div>
+            )}
+            <p className="text-2xl md:text-4xl leading-relaxed">
+              <StepText text={instruction} ingredients={stepIngredients} />
+            </p>
+          </div>
+
+          {durations.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {durations.map((duration, index) => (
+                <Button
+                  key={index}
+                  variant="outline"
+                  size="lg"
+                  className="gap-2"
+                  onClick={() => start(`Step ${step + 1} · ${duration.text}`, duration.seconds, step)}
+                >
+                  <Timer className="w-5 h-5" />
+                  Start {duration.text} timer
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {stepIngredients.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-sm font-medium uppercase tracking-wide text-muted-foreground">For this step</h2>
+              <ul className="space-y-1 text-lg">
+                {stepIngredients.map(ingredient => (
+                  <li key={ingredient.id} className="flex justify-between gap-4 border-b py-1">
+                    <span>
+                      {ingredient.name}
+                      {ingredient.preparation && <span className="text-muted-foreground">, {ingredient.preparation}</span>}
+                    </span>
+                    <span className="text-muted-foreground shrink-0">
+                      {formatIngredientAmount(ingredient)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {timers.length > 0 && (
+        <div className="border-t px-4 py-2">
+          <ul className="container mx-auto max-w-3xl flex flex-wrap gap-2">
+            {timers.map(timer => (
+              <li
+                key={timer.id}
+                className={`flex items-center gap-2 rounded-md border px-3 py-1 ${timer.finished ? "animate-pulse border-destructive bg-destructive text-destructive-foreground" : ""}`}
+              >
+                {timer.finished ? <BellRing className="w-4 h-4" /> : <Timer className="w-4 h-4" />}
+                <button type="button" onClick={() => goTo(timer.step)} className="text-sm" title="Go to step">
+                  {timer.label}
+                </button>
+                <span className="font-mono text-lg tabular-nums">
+                  {timer.finished ? "Done" : formatTimer(timeLeftMs(timer, now) / 1000)}
+                </span>
+                {!timer.finished && (
+                  timer.endsAt === null ? (
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => resume(timer.id)} aria-label="Resume timer">
+                      <Play className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => pause(timer.id)} aria-label="Pause timer">
+                      <Pause className="w-4 h-4" />
+                    </Button>
+                  )
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => dismiss(timer.id)}
+                  aria-label={timer.finished ? "Dismiss timer" : "Cancel timer"}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-3 border-t px-4 py-3">
+        <Button variant="outline" size="lg" onClick={() => goTo(step - 1)} disabled={step === 0} className="gap-2">
+          <ChevronLeft className="w-5 h-5" />
+          Previous
+        </Button>
+        {step < instructions.length - 1 ? (
+          <Button size="lg" onClick={() => goTo(step + 1)} className="gap-2">
+            Next
+            <ChevronRight className="w-5 h-5" />
+          </Button>
+        ) : (
+          <Button size="lg" onClick={onClose}>
+            Done
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
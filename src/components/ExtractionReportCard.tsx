@@ -0,0 +1,99 @@
+import { ExtractionField, ExtractionReport, ExtractionTier } from "@/lib/extractionReport";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CheckCircle2, RefreshCw } from "lucide-react";
+
+interface ExtractionReportCardProps {
+  report: ExtractionReport;
+  // Extract again, skipping the server's cached result
+  onReextract?: () => void;
+  isExtracting?: boolean;
+}
+
+const TIER_LABELS: Record<ExtractionTier, string> = {
+  "json-ld": "Structured data (JSON-LD)",
+  microdata: "Structured data (microdata)",
+  ai: "AI extraction",
+  heuristic: "Keyword heuristics",
+};
+
+const FIELD_LABELS: Record<ExtractionField, string> = {
+  overall: "Overall",
+  ingredients: "Ingredients",
+  quantities: "Quantities",
+  instructions: "Instructions",
+  title: "Title",
+  servings: "Servings",
+  time: "Time",
+  image: "Image",
+};
+
+// Below this overall confidence the import is flagged for a careful review
+const REVIEW_THRESHOLD = 0.8;
+
+const FIELD_ORDER: ExtractionField[] = ["ingredients", "quantities", "instructions", "title", "servings", "time", "image"];
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export const ExtractionReportCard = ({ report, onReextract, isExtracting = false }: ExtractionReportCardProps) => {
+  const overall = report.confidence.overall ?? 0;
+  const needsReview = overall < REVIEW_THRESHOLD || report.warnings.length > 0;
+  const stages = Object.entries(report.timings).filter(([stage]) => stage !== "total");
+  const fromCache = report.cache === "hit" || report.cache === "revalidated";
+
+  return (
+    <Alert variant={overall < 0.5 ? "destructive" : "default"}>
+      {needsReview ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle2 className="h-4 w-4" />}
+      <AlertTitle className="flex flex-wrap items-center gap-2">
+        {needsReview ? "Check this import" : "Import looks reliable"}
+        <Badge variant="secondary">{TIER_LABELS[report.tier]}</Badge>
+        {report.model && <Badge variant="outline">{report.model}</Badge>}
+      </AlertTitle>
+      <AlertDescription className="space-y-3 mt-2">
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1.5">
+          {FIELD_ORDER.filter(field => report.confidence[field] !== undefined).map(field => (
+            <div key={field} className="space-y-0.5">
+              <div className="flex justify-between text-xs">
+                <span>{FIELD_LABELS[field]}</span>
+                <span className="text-muted-foreground">{Math.round((report.confidence[field] ?? 0) * 100)}%</span>
+              </div>
+              <Progress value={(report.confidence[field] ?? 0) * 100} className="h-1" />
+            </div>
+          ))}
+        </div>
+
+        {report.warnings.length > 0 && (
+          <ul className="list-disc pl-4 text-sm space-y-0.5">
+            {report.warnings.map(warning => (
+              <li key={warning}>{warning}</li>
+            ))}
+          </ul>
+        )}
+
+        {fromCache && (
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span>
+              Saved result from {report.cachedAt ? new Date(report.cachedAt).toLocaleDateString() : "an earlier import"}
+              {report.cache === "revalidated" && "; the page has not changed since"}
+            </span>
+            {onReextract && (
+              <Button type="button" variant="ghost" size="sm" className="h-7 gap-1" onClick={onReextract} disabled={isExtracting}>
+                <RefreshCw className="w-3 h-3" />
+                Extract again
+              </Button>
+            )}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Ingredients split by {report.ingredientParser === "ai" ? "AI" : "the built-in parser"}
+          {" · "}
+          {formatSeconds(report.timings.total ?? 0)} total
+          {stages.length > 0 && ` (${stages.map(([stage, ms]) => `${stage} ${formatSeconds(ms)}`).join(", ")})`}
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { ImportJob, ImportJobRow } from "@/hooks/useImportJob";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, Loader2, X } from "lucide-react";
+
+interface ImportProgressPanelProps {
+  job: ImportJob;
+  rows: ImportJobRow[];
+  onDismiss: () => void;
+}
+
+const STATUS_STYLES: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  pending: { label: "Waiting", variant: "outline" },
+  processing: { label: "Importing", variant: "secondary" },
+  imported: { label: "Imported", variant: "default" },
+  skipped: { label: "Skipped", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+};
+
+const RowStatus = ({ row }: { row: ImportJobRow }) => {
+  const style = STATUS_STYLES[row.status] ?? STATUS_STYLES.pending;
+  // A pending row that has been tried before is waiting for a retry
+  const label = row.status === "pending" && row.attempts > 0 ? `Retrying (${row.attempts})` : style.label;
+  return <Badge variant={style.variant} className="shrink-0">{label}</Badge>;
+};
+
+export const ImportProgressPanel = ({ job, rows, onDismiss }: ImportProgressPanelProps) => {
+  const [showRows, setShowRows] = useState(false);
+  const done = job.imported_rows + job.skipped_rows + job.failed_rows;
+  const percent = job.total_rows > 0 ? (done / job.total_rows) * 100 : 0;
+  const isFinished = job.status === "completed";
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-semibold flex items-center gap-2">
+            {!isFinished && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isFinished ? "Import finished" : "Importing recipes"}
+          </h3>
+          {isFinished && (
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onDismiss} aria-label="Dismiss">
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={percent} />
+        <p className="text-sm text-muted-foreground">
+          {done} of {job.total_rows} URLs processed · {job.imported_rows} imported · {job.skipped_rows} skipped
+          {job.failed_rows > 0 && <span className="text-destructive"> · {job.failed_rows} failed</span>}
+        </p>
+
+        <Collapsible open={showRows} onOpenChange={setShowRows}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="gap-1 px-2">
+              <ChevronDown className={`w-4 h-4 transition-transform ${showRows ? "rotate-180" : ""}`} />
+              {showRows ? "Hide details" : "Show details"}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <ul className="mt-2 max-h-72 overflow-y-auto divide-y text-sm">
+              {rows.map(row => (
+                <li key={row.id} className="py-2 flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    {row.recipe_id ? (
+                      <Link to={`/recipes/${row.recipe_id}`} className="block truncate hover:text-primary">
+                        {row.url}
+                      </Link>
+                    ) : (
+                      <span className="block truncate">{row.url}</span>
+                    )}
+                    {row.error && (
+                      <span className={`block text-xs ${row.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}>
+                        {row.error}
+                      </span>
+                    )}
+                  </div>
+                  <RowStatus row={row} />
+                </li>
+              ))}
+            </ul>
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  );
+};
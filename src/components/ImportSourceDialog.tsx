@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { ImportSource, ImportSourceInput } from "@/hooks/useImportSources";
+import { columnIndex, parseSpreadsheetId } from "@/lib/sheetSources";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface ImportSourceDialogProps {
+  // The source being edited, or null to add a new one
+  source: ImportSource | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (source: ImportSourceInput) => Promise<void>;
+}
+
+type OptionalColumn = "title_column" | "tags_column" | "notes_column" | "submitter_column";
+
+const OPTIONAL_COLUMNS: { key: OptionalColumn; label: string }[] = [
+  { key: "title_column", label: "Title override" },
+  { key: "tags_column", label: "Tags" },
+  { key: "notes_column", label: "Notes" },
+  { key: "submitter_column", label: "Submitter" },
+];
+
+interface FormState {
+  name: string;
+  spreadsheetId: string;
+  sheetName: string;
+  hasHeaderRow: boolean;
+  urlColumn: string;
+  columns: Record<OptionalColumn, string>;
+  defaultTags: string;
+  enabled: boolean;
+}
+
+const toFormState = (source: ImportSource | null): FormState => ({
+  name: source?.name ?? "",
+  spreadsheetId: source?.spreadsheet_id ?? "",
+  sheetName: source?.sheet_name ?? "Sheet1",
+  hasHeaderRow: source?.has_header_row ?? true,
+  urlColumn: source?.url_column ?? "A",
+  columns: {
+    title_column: source?.title_column ?? "",
+    tags_column: source?.tags_column ?? "",
+    notes_column: source?.notes_column ?? "",
+    submitter_column: source?.submitter_column ?? "",
+  },
+  defaultTags: source?.default_tags.join(", ") ?? "",
+  enabled: source?.enabled ?? true,
+});
+
+export const ImportSourceDialog = ({ source, open, onOpenChange, onSave }: ImportSourceDialogProps) => {
+  const [form, setForm] = useState<FormState>(() => toFormState(source));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setForm(toFormState(source));
+  }, [open, source]);
+
+  const update = (changes: Partial<FormState>) => setForm(prev => ({ ...prev, ...changes }));
+  const updateColumn = (key: OptionalColumn, value: string) =>
+    setForm(prev => ({ ...prev, columns: { ...prev.columns, [key]: value } }));
+
+  // Column fields take letters; an empty optional column is simply not read
+  const isValidColumn = (value: string, optional: boolean) =>
+    (optional && !value.trim()) || columnIndex(value) !== null;
+  const columnsValid = isValidColumn(form.urlColumn, false) &&
+    OPTIONAL_COLUMNS.every(({ key }) => isValidColumn(form.columns[key], true));
+  const canSave = form.name.trim() !== "" && form.spreadsheetId.trim() !== "" && form.sheetName.trim() !== "" && columnsValid;
+
+  const handleSave = async () => {
+    const optionalColumn = (value: string) => value.trim().toUpperCase() || null;
+    setIsSaving(true);
+    try {
+      await onSave({
+        name: form.name.trim(),
+        spreadsheet_id: parseSpreadsheetId(form.spreadsheetId),
+        sheet_name: form.sheetName.trim(),
+        has_header_row: form.hasHeaderRow,
+        url_column: form.urlColumn.trim().toUpperCase(),
+        title_column: optionalColumn(form.columns.title_column),
+        tags_column: optionalColumn(form.columns.tags_column),
+        notes_column: optionalColumn(form.columns.notes_column),
+        submitter_column: optionalColumn(form.columns.submitter_column),
+        default_tags: form.defaultTags.split(",").map(tag => tag.trim()).filter(tag => tag.length > 0),
+        enabled: form.enabled,
+      });
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{source ? "Edit source" : "Add source"}</DialogTitle>
+          <DialogDescription>A Google Sheet with one recipe link per row.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sourceName">Name</Label>
+            <Input id="sourceName" value={form.name} onChange={event => update({ name: event.target.value })} placeholder="Recipe bot" />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="spreadsheetId">Spreadsheet link or ID</Label>
+            <Input
+              id="spreadsheetId"
+              value={form.spreadsheetId}
+              onChange={event => update({ spreadsheetId: event.target.value })}
+              placeholder="https://docs.google.com/spreadsheets/d/..."
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sheetName">Tab</Label>
+              <Input id="sheetName" value={form.sheetName} onChange={event => update({ sheetName: event.target.value })} />
+            </div>
+            <div className="flex items-end gap-2 pb-2">
+              <Switch id="hasHeaderRow" checked={form.hasHeaderRow} onCheckedChange={checked => update({ hasHeaderRow: checked })} />
+              <Label htmlFor="hasHeaderRow">First row is a header</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-5 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="urlColumn" className="text-xs text-muted-foreground">URL</Label>
+                <Input
+                  id="urlColumn"
+                  value={form.urlColumn}
+                  onChange={event => update({ urlColumn: event.target.value })}
+                  className={isValidColumn(form.urlColumn, false) ? "" : "border-destructive"}
+                />
+              </div>
+              {OPTIONAL_COLUMNS.map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={key} className="text-xs text-muted-foreground">{label}</Label>
+                  <Input
+                    id={key}
+                    value={form.columns[key]}
+                    onChange={event => updateColumn(key, event.target.value)}
+                    placeholder="—"
+                    className={isValidColumn(form.columns[key], true) ? "" : "border-destructive"}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Column letters, e.g. A. Leave optional columns empty to skip them.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="defaultTags">Default tags</Label>
+            <Input
+              id="defaultTags"
+              value={form.defaultTags}
+              onChange={event => update({ defaultTags: event.target.value })}
+              placeholder="from-bot, to-try"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="sourceEnabled" checked={form.enabled} onCheckedChange={checked => update({ enabled: checked })} />
+            <Label htmlFor="sourceEnabled">Include in "Refresh from Bot"</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,12 @@
+interface LoadingScreenProps {
+  message: string;
+}
+
+export const LoadingScreen = ({ message }: LoadingScreenProps) => (
+  <div className="min-h-screen bg-background flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+      <p className="text-lg">{message}</p>
+    </div>
+  </div>
+);
@@ -0,0 +1,66 @@
+import { DragEvent } from "react";
+import { DayContentProps } from "react-day-picker";
+import { Recipe } from "@/types/recipe";
+import { dateKey, MealPlanEntry, MealSlot, sumNutrition } from "@/lib/mealPlan";
+import { Calendar } from "@/components/ui/calendar";
+
+interface MealPlanMonthProps {
+  // The page moves between months, so the calendar's own caption is hidden
+  month: Date;
+  entriesByDay: Map<string, MealPlanEntry[]>;
+  recipesById: Map<string, Recipe>;
+  // Recipes dropped on a day in the month view go to dinner
+  onDrop: (event: DragEvent, date: string, slot: MealSlot) => void;
+  onSelectDay: (day: Date) => void;
+}
+
+export const MealPlanMonth = ({ month, entriesByDay, recipesById, onDrop, onSelectDay }: MealPlanMonthProps) => {
+  const DayContent = ({ date }: DayContentProps) => {
+    const key = dateKey(date);
+    const dayEntries = entriesByDay.get(key) ?? [];
+    const { total, unknownMeals } = sumNutrition(dayEntries, recipesById);
+
+    return (
+      <div
+        onDragOver={event => event.preventDefault()}
+        onDrop={event => {
+          event.preventDefault();
+          onDrop(event, key, "dinner");
+        }}
+        className="flex h-full w-full flex-col items-start gap-0.5 overflow-hidden p-1 text-left"
+      >
+        <span className="text-sm">{date.getDate()}</span>
+        {dayEntries.slice(0, 3).map(entry => (
+          <span key={entry.id} className="w-full truncate text-[0.7rem] text-muted-foreground">
+            {recipesById.get(entry.recipeId)?.title}
+          </span>
+        ))}
+        {dayEntries.length > 3 && <span className="text-[0.7rem] text-muted-foreground">+{dayEntries.length - 3} more</span>}
+        {dayEntries.length > 0 && (
+          <span className="mt-auto text-[0.7rem] font-medium">{total.calories} kcal{unknownMeals > 0 ? "+" : ""}</span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Calendar
+      mode="single"
+      month={month}
+      onSelect={day => day && onSelectDay(day)}
+      components={{ DayContent }}
+      className="p-0"
+      classNames={{
+        caption: "hidden",
+        months: "w-full",
+        month: "w-full space-y-4",
+        head_row: "flex gap-1",
+        head_cell: "text-muted-foreground w-full font-normal text-[0.8rem]",
+        row: "flex w-full mt-1 gap-1",
+        cell: "h-24 w-full p-0 relative",
+        day: "h-full w-full rounded-md border p-0 font-normal hover:bg-accent focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        day_today: "border-primary",
+      }}
+    />
+  );
+};
@@ -0,0 +1,44 @@
+import { NutritionTotal } from "@/lib/mealPlan";
+import { NUTRIENT_INFO } from "@/lib/nutrition";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Flame } from "lucide-react";
+
+interface MealPlanNutritionProps {
+  label: string;
+  nutrition: NutritionTotal;
+  // Days in the period, for the daily average
+  days: number;
+}
+
+const SHOWN = NUTRIENT_INFO.filter(({ key }) => ["calories", "protein", "carbs", "fat", "fiber", "sodium"].includes(key));
+
+export const MealPlanNutrition = ({ label, nutrition, days }: MealPlanNutritionProps) => (
+  <Card>
+    <CardHeader className="pb-3">
+      <h3 className="font-semibold flex items-center gap-2">
+        <Flame className="w-4 h-4" />
+        Nutrition, {label}
+      </h3>
+    </CardHeader>
+    <CardContent className="space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+        {SHOWN.map(({ key, label: nutrient, unit }) => (
+          <div key={key} className="rounded-md bg-muted/50 p-3">
+            <div className="text-xs text-muted-foreground">{nutrient}</div>
+            <div className="font-semibold">
+              {Math.round(nutrition.total[key]).toLocaleString()} {unit}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {Math.round(nutrition.total[key] / days).toLocaleString()} {unit} a day
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Totals for every planned serving.
+        {nutrition.unknownMeals > 0 &&
+          ` ${nutrition.unknownMeals} meal${nutrition.unknownMeals > 1 ? "s have" : " has"} no nutrition worked out yet and ${nutrition.unknownMeals > 1 ? "are" : "is"} not counted.`}
+      </p>
+    </CardContent>
+  </Card>
+);
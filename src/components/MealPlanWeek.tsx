@@ -0,0 +1,131 @@
+import { DragEvent, useState } from "react";
+import { format, isToday } from "date-fns";
+import { Recipe } from "@/types/recipe";
+import { dateKey, ENTRY_DRAG_TYPE, entryNutrition, entryServings, MEAL_SLOTS, MealPlanEntry, MealSlot, sumNutrition } from "@/lib/mealPlan";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Users, X } from "lucide-react";
+
+interface MealPlanWeekProps {
+  days: Date[];
+  entriesByDay: Map<string, MealPlanEntry[]>;
+  recipesById: Map<string, Recipe>;
+  onDrop: (event: DragEvent, date: string, slot: MealSlot) => void;
+  onServingsChange: (entry: MealPlanEntry, servings: number | null) => void;
+  onRemove: (entry: MealPlanEntry) => void;
+  onViewRecipe: (recipe: Recipe) => void;
+}
+
+const PlannedMeal = ({ entry, recipe, onServingsChange, onRemove, onViewRecipe }: {
+  entry: MealPlanEntry;
+  recipe: Recipe;
+  onServingsChange: (servings: number | null) => void;
+  onRemove: () => void;
+  onViewRecipe: () => void;
+}) => {
+  const calories = entryNutrition(entry, recipe)?.calories;
+
+  return (
+    <div
+      draggable
+      onDragStart={event => {
+        event.dataTransfer.setData(ENTRY_DRAG_TYPE, entry.id);
+        event.dataTransfer.effectAllowed = "move";
+      }}
+      className="rounded-md border bg-background p-2 text-sm space-y-1 cursor-grab active:cursor-grabbing"
+    >
+      <div className="flex items-start justify-between gap-1">
+        <button type="button" onClick={onViewRecipe} className="text-left font-medium leading-tight hover:text-primary line-clamp-2">
+          {recipe.title}
+        </button>
+        <Button variant="ghost" size="icon" className="h-5 w-5 shrink-0" onClick={onRemove} aria-label={`Remove ${recipe.title}`}>
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+      <div className="flex items-center justify-between gap-1 text-xs text-muted-foreground">
+        <label className="flex items-center gap-1" title="Servings for this meal">
+          <Users className="w-3 h-3" />
+          <Input
+            type="number"
+            min={1}
+            value={entryServings(entry, recipe)}
+            onChange={event => {
+              const value = Number(event.target.value);
+              // Clearing the field or typing the recipe's own count drops the override
+              onServingsChange(value > 0 && value !== recipe.servings ? Math.round(value) : null);
+            }}
+            className={`h-6 w-12 px-1 text-xs ${entry.servings !== null ? "border-primary" : ""}`}
+          />
+        </label>
+        {typeof calories === "number" && <span>{Math.round(calories)} kcal</span>}
+      </div>
+    </div>
+  );
+};
+
+export const MealPlanWeek = ({ days, entriesByDay, recipesById, onDrop, onServingsChange, onRemove, onViewRecipe }: MealPlanWeekProps) => {
+  // The slot being dragged over, as "date|slot"
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  return (
+    <div className="grid gap-3 md:grid-cols-7">
+      {days.map(day => {
+        const key = dateKey(day);
+        const dayEntries = entriesByDay.get(key) ?? [];
+        const { total, unknownMeals } = sumNutrition(dayEntries, recipesById);
+
+        return (
+          <Card key={key} className={isToday(day) ? "border-primary" : ""}>
+            <CardHeader className="p-3 pb-2">
+              <div className="font-semibold">{format(day, "EEE d")}</div>
+              <div className="text-xs text-muted-foreground">
+                {dayEntries.length > 0 ? `${total.calories} kcal${unknownMeals > 0 ? "+" : ""}` : "Nothing planned"}
+              </div>
+            </CardHeader>
+            <CardContent className="p-3 pt-0 space-y-3">
+              {MEAL_SLOTS.map(({ value: slot, label }) => {
+                const target = `${key}|${slot}`;
+                const slotEntries = dayEntries.filter(entry => entry.slot === slot);
+                return (
+                  <div
+                    key={slot}
+                    onDragOver={event => {
+                      event.preventDefault();
+                      setDropTarget(target);
+                    }}
+                    onDragLeave={() => setDropTarget(current => (current === target ? null : current))}
+                    onDrop={event => {
+                      event.preventDefault();
+                      setDropTarget(null);
+                      onDrop(event, key, slot);
+                    }}
+                    className={`rounded-md border border-dashed p-1.5 space-y-1.5 min-h-12 transition-colors ${
+                      dropTarget === target ? "border-primary bg-primary/5" : "border-border"
+                    }`}
+                  >
+                    <div className="text-[0.7rem] uppercase tracking-wide text-muted-foreground">{label}</div>
+                    {slotEntries.map(entry => {
+                      const recipe = recipesById.get(entry.recipeId);
+                      if (!recipe) return null;
+                      return (
+                        <PlannedMeal
+                          key={entry.id}
+                          entry={entry}
+                          recipe={recipe}
+                          onServingsChange={servings => onServingsChange(entry, servings)}
+                          onRemove={() => onRemove(entry)}
+                          onViewRecipe={() => onViewRecipe(recipe)}
+                        />
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
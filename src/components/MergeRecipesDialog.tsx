@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Recipe } from "@/types/recipe";
+import { mergeRecipeFields } from "@/lib/duplicates";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Star } from "lucide-react";
+
+interface MergeRecipesDialogProps {
+  recipes: [Recipe, Recipe];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onMerge: (primary: Recipe, duplicate: Recipe) => Promise<void>;
+}
+
+export const MergeRecipesDialog = ({ recipes, open, onOpenChange, onMerge }: MergeRecipesDialogProps) => {
+  // Keep the recipe with more comments by default; it is usually the one people have used
+  const [primaryId, setPrimaryId] = useState(
+    recipes[1].comments.length > recipes[0].comments.length ? recipes[1].id : recipes[0].id
+  );
+  const [isMerging, setIsMerging] = useState(false);
+
+  const primary = recipes.find(recipe => recipe.id === primaryId) ?? recipes[0];
+  const duplicate = recipes.find(recipe => recipe.id !== primary.id) ?? recipes[1];
+  const merged = mergeRecipeFields(primary, duplicate);
+
+  const handleMerge = async () => {
+    setIsMerging(true);
+    try {
+      await onMerge(primary, duplicate);
+      onOpenChange(false);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Merge recipes</DialogTitle>
+          <DialogDescription>
+            Choose the recipe to keep. Its ingredients and steps stay; the other recipe's comments, tags and rating are
+            added to it, and the other recipe is deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={primary.id} onValueChange={setPrimaryId} className="space-y-2">
+          {recipes.map(recipe => (
+            <Label
+              key={recipe.id}
+              htmlFor={`keep-${recipe.id}`}
+              className="flex items-start gap-3 rounded-md border p-3 cursor-pointer font-normal"
+            >
+              <RadioGroupItem value={recipe.id} id={`keep-${recipe.id}`} className="mt-0.5" />
+              <div className="space-y-1 min-w-0">
+                <div className="font-medium truncate">{recipe.title || "Untitled recipe"}</div>
+                <div className="text-xs text-muted-foreground">
+                  {recipe.ingredients.length} ingredients · {recipe.instructions.length} steps · {recipe.comments.length} comments
+                  {" · "}added {recipe.createdAt.toLocaleDateString()}
+                </div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div className="space-y-2 text-sm">
+          <h4 className="font-medium">After merging</h4>
+          <div className="flex items-center gap-1 text-muted-foreground">
+            <Star className="w-4 h-4 fill-recipe-gold text-recipe-gold" />
+            {merged.rating || "Not rated"} · {merged.comments.length} comments
+          </div>
+          {merged.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {merged.tags.map(tag => (
+                <Badge key={tag} variant={primary.tags.includes(tag) ? "secondary" : "outline"}>
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isMerging}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={isMerging}>
+            {isMerging ? "Merging..." : `Keep "${primary.title || "Untitled recipe"}"`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface NameDialogProps {
+  title: string;
+  description: string;
+  initialName: string;
+  placeholder?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (name: string) => Promise<void>;
+}
+
+// Asks for the name of something new, such as a collection or meal plan, or a new name for it
+export const NameDialog = ({ title, description, initialName, placeholder, open, onOpenChange, onSave }: NameDialogProps) => {
+  const [name, setName] = useState(initialName);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(name.trim());
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-2"
+          onSubmit={event => {
+            event.preventDefault();
+            if (name.trim()) handleSave();
+          }}
+        >
+          <Label htmlFor="itemName">Name</Label>
+          <Input id="itemName" value={name} onChange={event => setName(event.target.value)} placeholder={placeholder} autoFocus />
+        </form>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,119 @@
+import { RecipeNutrition, NutritionFacts, IngredientNutrition, NUTRIENT_INFO } from "@/lib/nutrition";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { Flame } from "lucide-react";
+
+interface NutritionPanelProps {
+  nutrition: RecipeNutrition;
+}
+
+const NutritionTable = ({ facts, showDailyValue }: { facts: NutritionFacts; showDailyValue: boolean }) => (
+  <table className="w-full text-sm">
+    <tbody>
+      {NUTRIENT_INFO.map(({ key, label, unit, dailyValue }) => (
+        <tr key={key} className="border-b last:border-0">
+          <td className={`py-1.5 ${key === "saturatedFat" || key === "fiber" || key === "sugar" ? "pl-4 text-muted-foreground" : "font-medium"}`}>
+            {label}
+          </td>
+          <td className="py-1.5 text-right">
+            {facts[key]} {unit}
+          </td>
+          {showDailyValue && (
+            <td className="py-1.5 pl-3 w-14 text-right text-muted-foreground">
+              {Math.round((facts[key] / dailyValue) * 100)}%
+            </td>
+          )}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// How an ingredient's figures were obtained, for recipes calculated with source tracking
+const describeSource = (ingredient: IngredientNutrition): string | null => {
+  const confidence = ingredient.confidence !== undefined ? ` · ${Math.round(ingredient.confidence * 100)}% confidence` : "";
+  switch (ingredient.source) {
+    case "database":
+      return `Matched to ${ingredient.matchedFood}${confidence}`;
+    case "ai":
+      return `AI estimate${confidence}`;
+    case "unmatched":
+      return "Not recognised, not counted";
+    default:
+      return null;
+  }
+};
+
+export const NutritionPanel = ({ nutrition }: NutritionPanelProps) => {
+  const totalCalories = nutrition.total.calories || 0;
+  const contributions = [...nutrition.ingredients].sort((a, b) => b.nutrition.calories - a.nutrition.calories);
+  const tracked = nutrition.ingredients.filter(ingredient => ingredient.source);
+  const matched = tracked.filter(ingredient => ingredient.source === "database").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Flame className="w-5 h-5" />
+          Nutrition
+        </h2>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs defaultValue="serving">
+          <TabsList className="print:hidden">
+            <TabsTrigger value="serving">Per serving</TabsTrigger>
+            <TabsTrigger value="recipe">Whole recipe ({nutrition.servings})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="serving">
+            <NutritionTable facts={nutrition.perServing} showDailyValue />
+            <p className="text-xs text-muted-foreground mt-2">% of daily value based on a 2,000 kcal diet.</p>
+          </TabsContent>
+          <TabsContent value="recipe">
+            <NutritionTable facts={nutrition.total} showDailyValue={false} />
+          </TabsContent>
+        </Tabs>
+
+        {contributions.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <h3 className="font-medium">What drives the calories</h3>
+              {tracked.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {matched} of {tracked.length} ingredients matched in the nutrient table
+                </p>
+              )}
+              {contributions.map((ingredient, index) => {
+                const share = totalCalories > 0 ? (ingredient.nutrition.calories / totalCalories) * 100 : 0;
+                const source = describeSource(ingredient);
+                return (
+                  <div key={`${ingredient.name}-${index}`} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span>
+                        {ingredient.name}
+                        {ingredient.grams !== null && (
+                          <span className="text-muted-foreground"> · {ingredient.grams} g</span>
+                        )}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {ingredient.nutrition.calories} kcal · P {ingredient.nutrition.protein} g · F {ingredient.nutrition.fat} g · C {ingredient.nutrition.carbs} g
+                      </span>
+                    </div>
+                    {source && (
+                      <p className={`text-xs ${ingredient.source === "unmatched" ? "text-destructive" : "text-muted-foreground"}`}>
+                        {source}
+                      </p>
+                    )}
+                    <Progress value={share} className="h-1.5" />
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { parsePantryItems, pantryKey } from "@/lib/pantry";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Refrigerator, X } from "lucide-react";
+
+interface PantryPanelProps {
+  items: string[];
+  onChange: (items: string[]) => void;
+  onClose: () => void;
+}
+
+export const PantryPanel = ({ items, onChange, onClose }: PantryPanelProps) => {
+  const [draft, setDraft] = useState("");
+
+  // Several items can be typed at once, separated by commas
+  const addItems = () => {
+    const known = new Set(items.map(pantryKey));
+    const added = parsePantryItems(draft).filter(item => !known.has(pantryKey(item)));
+    if (added.length > 0) onChange([...items, ...added]);
+    setDraft("");
+  };
+
+  const removeItem = (item: string) => onChange(items.filter(existing => existing !== item));
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-semibold flex items-center gap-2">
+            <Refrigerator className="w-4 h-4" />
+            Cook with what I have
+          </h3>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} aria-label="Close pantry">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <form
+          className="flex gap-2"
+          onSubmit={event => {
+            event.preventDefault();
+            addItems();
+          }}
+        >
+          <Input
+            value={draft}
+            onChange={event => setDraft(event.target.value)}
+            placeholder="chickpeas, lemons, tahini..."
+          />
+          <Button type="submit" variant="outline" disabled={!draft.trim()}>
+            Add
+          </Button>
+        </form>
+
+        {items.length > 0 ? (
+          <div className="flex flex-wrap items-center gap-2">
+            {items.map(item => (
+              <Badge key={item} variant="secondary" className="gap-1 pr-1">
+                {item}
+                <button type="button" onClick={() => removeItem(item)} aria-label={`Remove ${item}`} className="rounded-sm hover:bg-muted">
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+            <Button variant="ghost" size="sm" onClick={() => onChange([])} className="text-muted-foreground">
+              Clear
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            List what is in your kitchen and recipes are ordered by how much of them you can make. Salt, pepper, oil and water are assumed.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,3 +1,4 @@
+import { ReactNode } from "react";
 import { Recipe } from "@/types/recipe";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -7,9 +8,30 @@ import { Star, Clock, Users, ExternalLink, Youtube, Flame } from "lucide-react";
 interface RecipeCardProps {
   recipe: Recipe;
   onView: (recipe: Recipe) => void;
+  // Search match text with the hits wrapped in <mark></mark>, shown instead of the description
+  snippet?: string;
+  // Set when ranking by pantry: the recipe's ingredients that are not on hand
+  missingIngredients?: string[];
+  // Extra footer buttons, such as reordering within a collection
+  actions?: ReactNode;
 }
 
-export const RecipeCard = ({ recipe, onView }: RecipeCardProps) => {
+// Render the marked hits as highlights and everything else as plain text
+const SearchSnippet = ({ snippet }: { snippet: string }) => (
+  <p className="text-muted-foreground text-sm mb-3 line-clamp-3">
+    {snippet.split(/<mark>(.*?)<\/mark>/g).map((part, index) =>
+      index % 2 === 1 ? (
+        <mark key={index} className="bg-recipe-gold/30 text-foreground rounded-sm px-0.5">
+          {part}
+        </mark>
+      ) : (
+        part
+      )
+    )}
+  </p>
+);
+
+export const RecipeCard = ({ recipe, onView, snippet, missingIngredients, actions }: RecipeCardProps) => {
   return (
     <Card className="group overflow-hidden transition-all duration-300 hover:shadow-[var(--shadow-recipe)] cursor-pointer">
       <div onClick={() => onView(recipe)}>
@@ -33,9 +55,13 @@ export const RecipeCard = ({ recipe, onView }: RecipeCardProps) => {
           <h3 className="font-semibold text-lg mb-2 line-clamp-2 group-hover:text-primary transition-colors">
             {recipe.title}
           </h3>
-          <p className="text-muted-foreground text-sm mb-3 line-clamp-2">
-            {recipe.description}
-          </p>
+          {snippet?.includes("<mark>") ? (
+            <SearchSnippet snippet={snippet} />
+          ) : (
+            <p className="text-muted-foreground text-sm mb-3 line-clamp-2">
+              {recipe.description}
+            </p>
+          )}
           
           <div className="flex items-center gap-4 text-sm text-muted-foreground mb-3">
             <div className="flex items-center gap-1">
@@ -58,6 +84,14 @@ export const RecipeCard = ({ recipe, onView }: RecipeCardProps) => {
             )}
           </div>
           
+          {missingIngredients && (
+            <p className={`text-sm mb-3 line-clamp-2 ${missingIngredients.length === 0 ? "text-primary" : "text-muted-foreground"}`}>
+              {missingIngredients.length === 0
+                ? "You have everything"
+                : `Missing ${missingIngredients.length}: ${missingIngredients.join(", ")}`}
+            </p>
+          )}
+
           <div className="flex flex-wrap gap-1">
             {recipe.tags.slice(0, 3).map((tag) => (
               <Badge key={tag} variant="secondary" className="text-xs">
@@ -88,6 +122,7 @@ export const RecipeCard = ({ recipe, onView }: RecipeCardProps) => {
             </a>
           </Button>
         )}
+        {actions}
       </CardFooter>
     </Card>
   );
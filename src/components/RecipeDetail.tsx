@@ -1,11 +1,24 @@
-import { Recipe, Comment } from "@/types/recipe";
+import { Recipe, Comment, Ingredient } from "@/types/recipe";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
-import { Star, Clock, Users, ExternalLink, Youtube, ArrowLeft, Edit, MessageSquare, Plus, Flame } from "lucide-react";
-import { useState } from "react";
+import { Star, Clock, Users, ExternalLink, Youtube, ArrowLeft, Edit, MessageSquare, Plus, Minus, Flame, Printer, Download, RotateCcw, ChefHat } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { NutritionPanel } from "@/components/NutritionPanel";
+import { AddToCollectionMenu } from "@/components/AddToCollectionMenu";
+import { CookMode } from "@/components/CookMode";
+import { StepText } from "@/components/StepText";
+import { RecipeSectionBlock } from "@/components/RecipeSectionBlock";
+import { scaleIngredients } from "@/lib/scaling";
+import { MeasurementPreference, convertIngredients, convertTemperatures } from "@/lib/conversion";
+import { useMeasurementSystem } from "@/hooks/useMeasurementSystem";
+import { downloadRecipe } from "@/lib/recipeExport";
+import { formatIngredientAmount } from "@/lib/ingredients";
+import { ingredientsForStep } from "@/lib/stepIngredients";
+import { NumberedStep, ingredientSections, instructionSections } from "@/lib/sections";
 
 interface RecipeDetailProps {
   recipe: Recipe;
@@ -17,6 +30,59 @@ interface RecipeDetailProps {
 export const RecipeDetail = ({ recipe, onBack, onEdit, onAddComment }: RecipeDetailProps) => {
   const [newComment, setNewComment] = useState("");
   const [showCommentForm, setShowCommentForm] = useState(false);
+  const [servings, setServings] = useState(recipe.servings || 1);
+  const [isCooking, setIsCooking] = useState(false);
+
+  // Start again from the recipe's own servings when another recipe is shown or an edit changes
+  // them; refreshes that leave them alone (a new comment) keep the chosen number
+  useEffect(() => {
+    setServings(recipe.servings || 1);
+  }, [recipe.id, recipe.servings]);
+
+  const [measurementSystem, setMeasurementSystem] = useMeasurementSystem();
+
+  // Scaled and converted for display only; the stored recipe is never changed
+  const scaledIngredients = useMemo(
+    () => convertIngredients(scaleIngredients(recipe.ingredients, recipe.servings || 1, servings), measurementSystem),
+    [recipe.ingredients, recipe.servings, servings, measurementSystem]
+  );
+  const displayedInstructions = useMemo(
+    () => recipe.instructions.map(instruction => convertTemperatures(instruction, measurementSystem)),
+    [recipe.instructions, measurementSystem]
+  );
+
+  const renderIngredient = (ingredient: Ingredient) => (
+    <li key={ingredient.id} className="flex justify-between items-center">
+      <span>
+        {ingredient.name}
+        {ingredient.preparation && (
+          <span className="text-muted-foreground">, {ingredient.preparation}</span>
+        )}
+      </span>
+      <span className="text-muted-foreground">
+        {formatIngredientAmount(ingredient)}
+      </span>
+    </li>
+  );
+
+  const renderStep = ({ text, index }: NumberedStep) => {
+    const stepIngredients = ingredientsForStep(scaledIngredients, index);
+    return (
+      <li key={index} className="flex gap-3">
+        <span className="flex-shrink-0 w-6 h-6 bg-primary text-primary-foreground text-sm font-medium rounded-full flex items-center justify-center">
+          {index + 1}
+        </span>
+        <div className="space-y-1">
+          <StepText text={text} ingredients={stepIngredients} />
+          {stepIngredients.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {stepIngredients.map(ingredient => [formatIngredientAmount(ingredient), ingredient.name].filter(Boolean).join(" ")).join(" · ")}
+            </p>
+          )}
+        </div>
+      </li>
+    );
+  };
 
   const handleAddComment = () => {
     if (newComment.trim()) {
@@ -29,15 +95,24 @@ export const RecipeDetail = ({ recipe, onBack, onEdit, onAddComment }: RecipeDet
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="flex items-center justify-between">
+      <div className="flex items-center justify-between print:hidden">
         <Button variant="ghost" onClick={onBack} className="gap-2">
           <ArrowLeft className="w-4 h-4" />
           Back to Recipes
         </Button>
-        <Button onClick={() => onEdit(recipe)} className="gap-2">
-          <Edit className="w-4 h-4" />
-          Edit Recipe
-        </Button>
+        <div className="flex gap-2">
+          <AddToCollectionMenu recipeId={recipe.id} />
+          <Button variant="outline" size="icon" onClick={() => window.print()} title="Print recipe">
+            <Printer className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => downloadRecipe({ ...recipe, instructions: displayedInstructions }, scaledIngredients, servings)} title="Export as text">
+            <Download className="w-4 h-4" />
+          </Button>
+          <Button onClick={() => onEdit(recipe)} className="gap-2">
+            <Edit className="w-4 h-4" />
+            Edit Recipe
+          </Button>
+        </div>
       </div>
 
       <div className="grid lg:grid-cols-2 gap-8">
@@ -79,7 +154,7 @@ export const RecipeDetail = ({ recipe, onBack, onEdit, onAddComment }: RecipeDet
                 <div>
                   <div className="flex items-center justify-center gap-1 mb-1">
                     <Users className="w-4 h-4" />
-                    <span className="font-semibold">{recipe.servings}</span>
+                    <span className="font-semibold">{servings}</span>
                   </div>
                   <div className="text-sm text-muted-foreground">Servings</div>
                 </div>
@@ -89,13 +164,16 @@ export const RecipeDetail = ({ recipe, onBack, onEdit, onAddComment }: RecipeDet
                       <Flame className="w-4 h-4" />
                       <span className="font-semibold">{recipe.calories} kcal</span>
                     </div>
-                    <div className="text-sm text-muted-foreground">Calories</div>
+                    <div className="text-sm text-muted-foreground">Per Serving</div>
                   </div>
                 )}
               </div>
             </CardContent>
           </Card>
 
+          {/* Nutrition */}
+          {recipe.nutrition && <NutritionPanel nutrition={recipe.nutrition} />}
+
           {/* External Links */}
           {recipe.websiteUrl && (
             <Card>
@@ -143,43 +221,94 @@ export const RecipeDetail = ({ recipe, onBack, onEdit, onAddComment }: RecipeDet
           {/* Ingredients */}
           <Card>
             <CardHeader>
-              <h2 className="text-xl font-semibold">Ingredients</h2>
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold">Ingredients</h2>
+                <div className="flex items-center gap-1 print:hidden">
+                  {servings !== recipe.servings && (
+                    <Button variant="ghost" size="icon" onClick={() => setServings(recipe.servings || 1)} title="Reset servings">
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setServings(prev => Math.max(1, prev - 1))}
+                    disabled={servings <= 1}
+                    aria-label="Fewer servings"
+                  >
+                    <Minus className="w-4 h-4" />
+                  </Button>
+                  <span className="w-20 text-center text-sm">
+                    {servings} serving{servings !== 1 ? 's' : ''}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setServings(prev => prev + 1)}
+                    aria-label="More servings"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
             </CardHeader>
             <CardContent>
-              <ul className="space-y-2">
-                {recipe.ingredients.map((ingredient) => (
-                  <li key={ingredient.id} className="flex justify-between items-center">
-                    <span>{ingredient.name}</span>
-                    <span className="text-muted-foreground">
-                      {ingredient.amount} {ingredient.unit}
-                    </span>
-                  </li>
-                ))}
-              </ul>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={measurementSystem}
+                onValueChange={(value) => value && setMeasurementSystem(value as MeasurementPreference)}
+                className="justify-start mb-4 print:hidden"
+              >
+                <ToggleGroupItem value="original">As written</ToggleGroupItem>
+                <ToggleGroupItem value="metric">Metric</ToggleGroupItem>
+                <ToggleGroupItem value="imperial">US</ToggleGroupItem>
+              </ToggleGroup>
+              <div className="space-y-4">
+                {ingredientSections(scaledIngredients).map(section =>
+                  section.name ? (
+                    <RecipeSectionBlock key={section.name} title={<h3 className="font-medium">{section.name}</h3>}>
+                      <ul className="space-y-2">{section.items.map(renderIngredient)}</ul>
+                    </RecipeSectionBlock>
+                  ) : (
+                    <ul key="" className="space-y-2">{section.items.map(renderIngredient)}</ul>
+                  )
+                )}
+              </div>
             </CardContent>
           </Card>
 
           {/* Instructions */}
           <Card>
             <CardHeader>
-              <h2 className="text-xl font-semibold">Instructions</h2>
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold">Instructions</h2>
+                {displayedInstructions.length > 0 && (
+                  <Button variant="outline" size="sm" onClick={() => setIsCooking(true)} className="gap-2 print:hidden">
+                    <ChefHat className="w-4 h-4" />
+                    Cook mode
+                  </Button>
+                )}
+              </div>
             </CardHeader>
             <CardContent>
-              <ol className="space-y-3">
-                {recipe.instructions.map((instruction, index) => (
-                  <li key={index} className="flex gap-3">
-                    <span className="flex-shrink-0 w-6 h-6 bg-primary text-primary-foreground text-sm font-medium rounded-full flex items-center justify-center">
-                      {index + 1}
-                    </span>
-                    <span>{instruction}</span>
-                  </li>
-                ))}
-              </ol>
+              <div className="space-y-4">
+                {instructionSections(displayedInstructions, recipe.instructionGroups).map(section =>
+                  section.name ? (
+                    <RecipeSectionBlock key={section.items[0].index} title={<h3 className="font-medium">{section.name}</h3>}>
+                      <ol className="space-y-3">{section.items.map(renderStep)}</ol>
+                    </RecipeSectionBlock>
+                  ) : (
+                    <ol key={section.items[0].index} className="space-y-3">{section.items.map(renderStep)}</ol>
+                  )
+                )}
+              </div>
             </CardContent>
           </Card>
 
           {/* Comments Section */}
-          <Card>
+          <Card className="print:hidden">
             <CardHeader>
               <div className="flex items-center justify-between">
                 <h2 className="text-xl font-semibold flex items-center gap-2">
@@ -249,6 +378,16 @@ export const RecipeDetail = ({ recipe, onBack, onEdit, onAddComment }: RecipeDet
           </Card>
         </div>
       </div>
+
+      {isCooking && (
+        <CookMode
+          title={recipe.title}
+          instructions={displayedInstructions}
+          instructionGroups={recipe.instructionGroups}
+          ingredients={scaledIngredients}
+          onClose={() => setIsCooking(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,4 +1,6 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { flushSync } from "react-dom";
+import { Link } from "react-router-dom";
 import { Recipe, Ingredient } from "@/types/recipe";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,9 +9,72 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Plus, X, ArrowLeft, Save, Trash2, Globe, Flame } from "lucide-react";
+import { Plus, X, ArrowLeft, Save, Trash2, Globe, Flame, Wand2 } from "lucide-react";
 import { RecipeExtractorService } from "@/services/recipeExtractor";
 import { useToast } from "@/hooks/use-toast";
+import { ingredientFromText, withStructuredQuantity } from "@/lib/ingredients";
+import { formatIngredientLine } from "@/lib/recipeExport";
+import { RecipeMetadata } from "@/lib/recipeMetadata";
+import { ExtractionReport } from "@/lib/extractionReport";
+import { ExtractionReportCard } from "@/components/ExtractionReportCard";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { findRecipesByUrl } from "@/hooks/useRecipes";
+import { detectStepIngredients, insertStepLinks, linkIngredientsToSteps, moveStepLinks, removeStepLinks, setStepAmount, toggleStepLink } from "@/lib/stepIngredients";
+import { NumberedStep, ingredientSections, instructionSections, sectionInsertIndex } from "@/lib/sections";
+import { StepIngredientLinks } from "@/components/StepIngredientLinks";
+import { RecipeSectionBlock } from "@/components/RecipeSectionBlock";
+import { SectionNameInput, SectionPicker } from "@/components/SectionControls";
+
+// Long keyword lists are mostly SEO filler; only the first few become tags
+const MAX_KEYWORD_TAGS = 8;
+
+// Fill the form from a page's published recipe details, returning what changed.
+// Text the user already typed is kept; servings, time and tags follow the source.
+const applyMetadata = (recipe: Recipe, metadata: RecipeMetadata): { recipe: Recipe; fields: string[] } => {
+  const updated = { ...recipe };
+  const fields: string[] = [];
+
+  if (metadata.title && !recipe.title.trim()) {
+    updated.title = metadata.title;
+    fields.push("title");
+  }
+  if (metadata.description && !recipe.description.trim()) {
+    updated.description = metadata.description;
+    fields.push("description");
+  }
+  if (metadata.image && !recipe.image) {
+    updated.image = metadata.image;
+    fields.push("image");
+  }
+  if (metadata.servings) {
+    updated.servings = metadata.servings;
+    fields.push("servings");
+  }
+  const time = metadata.totalTime ?? metadata.cookTime;
+  if (time) {
+    updated.cookTime = time;
+    fields.push("cook time");
+  }
+  if (metadata.nutrition?.calories && !recipe.calories) {
+    updated.calories = Math.round(metadata.nutrition.calories);
+    fields.push("calories");
+  }
+
+  const known = new Set(recipe.tags.map(tag => tag.toLowerCase()));
+  const newTags = [...metadata.categories, ...metadata.cuisines, ...metadata.keywords.slice(0, MAX_KEYWORD_TAGS)]
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (known.has(key)) return false;
+      known.add(key);
+      return true;
+    });
+  if (newTags.length > 0) {
+    updated.tags = [...recipe.tags, ...newTags];
+    fields.push(`${newTags.length} tags`);
+  }
+
+  return { recipe: updated, fields };
+};
 
 interface RecipeFormProps {
   recipe: Recipe;
@@ -19,23 +84,60 @@ interface RecipeFormProps {
   isNewRecipe?: boolean;
 }
 
+// What the saved nutrition breakdown was calculated from; steps, sections and notes do not count
+const nutritionInputs = ({ ingredients, servings, calories }: Pick<Recipe, "ingredients" | "servings" | "calories">) =>
+  JSON.stringify([
+    ingredients.map(({ name, amount, unit, packageSize }) => [name, amount, unit, packageSize]),
+    servings,
+    calories,
+  ]);
+
 export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = false }: RecipeFormProps) => {
   const { toast } = useToast();
   const [formData, setFormData] = useState<Recipe>({
     ...recipe,
     ingredients: [...recipe.ingredients],
     instructions: [...recipe.instructions],
+    // One entry per step, so steps and their sections move together
+    instructionGroups: recipe.instructions.map((_, index) => recipe.instructionGroups?.[index] ?? ""),
     tags: [...recipe.tags]
   });
   const [newTag, setNewTag] = useState("");
   const [newIngredient, setNewIngredient] = useState({ name: "", amount: "", unit: "" });
+  const [newIngredientGroup, setNewIngredientGroup] = useState("");
   const [newInstruction, setNewInstruction] = useState("");
+  const [newInstructionGroup, setNewInstructionGroup] = useState("");
   const [isExtracting, setIsExtracting] = useState(false);
   const [isCalculating, setIsCalculating] = useState(false);
+  const [extractionReport, setExtractionReport] = useState<ExtractionReport | null>(null);
+  const [sameUrlRecipes, setSameUrlRecipes] = useState<Pick<Recipe, "id" | "title">[]>([]);
+  const nutritionBasis = useRef(nutritionInputs(recipe));
+
+  // Warn when the URL (in any of its forms) is already saved as another recipe
+  useEffect(() => {
+    const url = formData.websiteUrl?.trim();
+    if (!url) {
+      setSameUrlRecipes([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      findRecipesByUrl(url, recipe.id)
+        .then(matches => !cancelled && setSameUrlRecipes(matches))
+        .catch(error => console.error('Error checking for duplicate URL:', error));
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData.websiteUrl, recipe.id]);
 
   const handleSave = () => {
     const updatedRecipe = {
       ...formData,
+      // A breakdown for other ingredients, servings or calories would contradict the recipe
+      nutrition: nutritionInputs(formData) === nutritionBasis.current ? formData.nutrition : undefined,
       updatedAt: new Date()
     };
     onSave(updatedRecipe);
@@ -59,16 +161,30 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
   };
 
   const addIngredient = () => {
+    const id = `ingredient-${Date.now()}`;
+    // A whole line typed into the name field ("2 cups flour, sifted") is parsed into its parts
+    const typedLine = !newIngredient.amount && !newIngredient.unit ? ingredientFromText(id, newIngredient.name) : null;
+    const group = newIngredientGroup.trim() || undefined;
+    if (typedLine?.quantity) {
+      setFormData(prev => ({
+        ...prev,
+        ingredients: linkIngredientsToSteps([...prev.ingredients, { ...typedLine, group }], prev.instructions, true)
+      }));
+      setNewIngredient({ name: "", amount: "", unit: "" });
+      return;
+    }
+
     if (newIngredient.name && newIngredient.amount) {
-      const ingredient: Ingredient = {
-        id: `ingredient-${Date.now()}`,
+      const ingredient: Ingredient = withStructuredQuantity({
+        id,
         name: newIngredient.name,
         amount: newIngredient.amount,
-        unit: newIngredient.unit
-      };
+        unit: newIngredient.unit,
+        group
+      });
       setFormData(prev => ({
         ...prev,
-        ingredients: [...prev.ingredients, ingredient]
+        ingredients: linkIngredientsToSteps([...prev.ingredients, ingredient], prev.instructions, true)
       }));
       setNewIngredient({ name: "", amount: "", unit: "" });
     }
@@ -81,21 +197,51 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
     }));
   };
 
-  const updateIngredient = (ingredientId: string, field: keyof Ingredient, value: string) => {
+  // The stored line follows the edit, so it never disagrees with the fields it was parsed into
+  const updateIngredient = (ingredientId: string, field: 'name' | 'amount' | 'unit', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      ingredients: prev.ingredients.map(ing => {
+        if (ing.id !== ingredientId) return ing;
+        const updated = withStructuredQuantity({ ...ing, [field]: value });
+        return { ...updated, originalText: formatIngredientLine(updated) };
+      })
+    }));
+  };
+
+  const setIngredientGroup = (ingredientId: string, group: string) => {
     setFormData(prev => ({
       ...prev,
-      ingredients: prev.ingredients.map(ing => 
-        ing.id === ingredientId ? { ...ing, [field]: value } : ing
+      ingredients: prev.ingredients.map(ing =>
+        ing.id === ingredientId ? { ...ing, group: group || undefined } : ing
+      )
+    }));
+  };
+
+  const renameIngredientSection = (from: string, to: string) => {
+    setFormData(prev => ({
+      ...prev,
+      ingredients: prev.ingredients.map(ing =>
+        ing.group?.trim() === from ? { ...ing, group: to || undefined } : ing
       )
     }));
   };
 
   const addInstruction = () => {
-    if (newInstruction.trim()) {
-      setFormData(prev => ({
-        ...prev,
-        instructions: [...prev.instructions, newInstruction.trim()]
-      }));
+    const step = newInstruction.trim();
+    const group = newInstructionGroup.trim();
+    if (step) {
+      setFormData(prev => {
+        const groups = prev.instructionGroups ?? [];
+        // A step joins the end of its section; ingredients it names are linked to it straight away
+        const index = sectionInsertIndex(groups, prev.instructions.length, group);
+        return {
+          ...prev,
+          instructions: [...prev.instructions.slice(0, index), step, ...prev.instructions.slice(index)],
+          instructionGroups: [...groups.slice(0, index), group, ...groups.slice(index)],
+          ingredients: insertStepLinks(prev.ingredients, index, detectStepIngredients(step, prev.ingredients))
+        };
+      });
       setNewInstruction("");
     }
   };
@@ -103,7 +249,54 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
   const removeInstruction = (index: number) => {
     setFormData(prev => ({
       ...prev,
-      instructions: prev.instructions.filter((_, i) => i !== index)
+      instructions: prev.instructions.filter((_, i) => i !== index),
+      instructionGroups: prev.instructionGroups?.filter((_, i) => i !== index),
+      ingredients: removeStepLinks(prev.ingredients, index)
+    }));
+  };
+
+  // Move a step to the end of another section, taking its ingredient links along
+  const moveInstructionToSection = (index: number, group: string) => {
+    setFormData(prev => {
+      const step = prev.instructions[index];
+      const instructions = prev.instructions.filter((_, i) => i !== index);
+      const groups = (prev.instructionGroups ?? []).filter((_, i) => i !== index);
+      const target = sectionInsertIndex(groups, instructions.length, group);
+      return {
+        ...prev,
+        instructions: [...instructions.slice(0, target), step, ...instructions.slice(target)],
+        instructionGroups: [...groups.slice(0, target), group, ...groups.slice(target)],
+        ingredients: moveStepLinks(prev.ingredients, index, target)
+      };
+    });
+  };
+
+  const renameInstructionSection = (from: string, to: string) => {
+    setFormData(prev => ({
+      ...prev,
+      instructionGroups: prev.instructionGroups?.map(group => (group.trim() === from ? to : group))
+    }));
+  };
+
+  const toggleIngredientLink = (ingredientId: string, index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      ingredients: toggleStepLink(prev.ingredients, ingredientId, index)
+    }));
+  };
+
+  const updateStepAmount = (ingredientId: string, index: number, amount: string) => {
+    setFormData(prev => ({
+      ...prev,
+      ingredients: setStepAmount(prev.ingredients, ingredientId, index, amount)
+    }));
+  };
+
+  // Replace all step links, including ones set by hand, with what the step text names
+  const relinkIngredients = () => {
+    setFormData(prev => ({
+      ...prev,
+      ingredients: linkIngredientsToSteps(prev.ingredients, prev.instructions)
     }));
   };
 
@@ -129,16 +322,18 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
     setIsCalculating(true);
     
     try {
-      const result = await RecipeExtractorService.calculateCalories(formData.ingredients);
+      const result = await RecipeExtractorService.calculateCalories(formData.ingredients, formData.servings);
       
-      if (result.success && result.calories) {
+      if (result.success && typeof result.calories === 'number') {
+        nutritionBasis.current = nutritionInputs({ ...formData, calories: result.calories });
         setFormData(prev => ({
           ...prev,
-          calories: result.calories
+          calories: result.calories,
+          nutrition: result.nutrition
         }));
         toast({
-          title: "Calories calculated!",
-          description: `Estimated calories per 100g: ${result.calories}`,
+          title: "Nutrition calculated!",
+          description: `Estimated calories per serving: ${result.calories}`,
         });
       } else {
         throw new Error(result.error || 'Failed to calculate calories');
@@ -154,7 +349,7 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
     }
   };
 
-  const extractFromWebsite = async () => {
+  const extractFromWebsite = async (force = false) => {
     if (!formData.websiteUrl) {
       toast({
         title: "No URL provided",
@@ -165,19 +360,23 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
     }
 
     setIsExtracting(true);
+    setExtractionReport(null);
     // Clear existing ingredients and instructions before extraction
     setFormData(prev => ({
       ...prev,
       ingredients: [],
-      instructions: []
+      instructions: [],
+      instructionGroups: []
     }));
     
     try {
-      const result = await RecipeExtractorService.extractFromUrl(formData.websiteUrl);
+      const result = await RecipeExtractorService.extractFromUrl(formData.websiteUrl, { force });
       
       console.log('Extraction result:', result);
       
       if (result.success) {
+        setExtractionReport(result.report ?? null);
+
         // Update recipe with extracted data
         let updatedFields: string[] = [];
 
@@ -191,7 +390,8 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
           console.log('Setting instructions:', result.instructions);
           setFormData(prev => ({
             ...prev,
-            instructions: [...result.instructions!]
+            instructions: [...result.instructions!],
+            instructionGroups: result.instructions!.map((_, index) => result.instructionGroups?.[index] ?? "")
           }));
           updatedFields.push(`${result.instructions.length} instructions`);
         }
@@ -202,23 +402,40 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
             id: `ingredient-${Date.now()}-${Math.random()}`,
             name: ing.name,
             amount: ing.amount,
-            unit: ing.unit
-          }));
-          const fallback = (result.ingredients || []).map((ingredient: string) => ({
-            id: `ingredient-${Date.now()}-${Math.random()}`,
-            name: ingredient,
-            amount: '',
-            unit: ''
+            unit: ing.unit,
+            packageSize: ing.packageSize,
+            quantity: ing.quantity,
+            canonicalUnit: ing.canonicalUnit,
+            preparation: ing.preparation,
+            originalText: ing.originalText,
+            group: ing.group
           }));
+          const fallback = (result.ingredients || []).map((ingredient: string) =>
+            ingredientFromText(`ingredient-${Date.now()}-${Math.random()}`, ingredient)
+          );
           const newIngredients = structured.length > 0 ? structured : fallback;
 
           setFormData(prev => ({
             ...prev,
-            ingredients: newIngredients
+            ingredients: linkIngredientsToSteps(newIngredients, prev.instructions)
           }));
           updatedFields.push(`${newIngredients.length} ingredients`);
         }
 
+        // Title, image, servings, times and tags from the page's schema.org data
+        if (result.metadata) {
+          const metadata = result.metadata;
+          // Which fields change depends on the form as it is now, with the steps and ingredients
+          // above already in it; flushing runs the updater before the summary below is built
+          let metadataFields: string[] = [];
+          flushSync(() => setFormData(prev => {
+            const applied = applyMetadata(prev, metadata);
+            metadataFields = applied.fields;
+            return applied.recipe;
+          }));
+          updatedFields = [...updatedFields, ...metadataFields];
+        }
+
         console.log('Updated fields:', updatedFields);
 
         if (updatedFields.length > 0) {
@@ -252,6 +469,84 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
     }
   };
 
+  const ingredientGroups = ingredientSections(formData.ingredients);
+  const ingredientSectionNames = ingredientGroups.map(section => section.name).filter(Boolean);
+  const stepGroups = instructionSections(formData.instructions, formData.instructionGroups);
+  const stepSectionNames = Array.from(new Set(stepGroups.map(section => section.name).filter(Boolean)));
+
+  const renderIngredientRow = (ingredient: Ingredient) => (
+    <div key={ingredient.id} className="flex gap-2 items-center">
+      <Input
+        value={ingredient.name}
+        onChange={(e) => updateIngredient(ingredient.id, 'name', e.target.value)}
+        placeholder="Ingredient name"
+        className="flex-1"
+      />
+      <Input
+        value={ingredient.amount}
+        onChange={(e) => updateIngredient(ingredient.id, 'amount', e.target.value)}
+        placeholder="Amount"
+        className="w-20"
+      />
+      <Input
+        value={ingredient.unit}
+        onChange={(e) => updateIngredient(ingredient.id, 'unit', e.target.value)}
+        placeholder="Unit"
+        className="w-16"
+      />
+      {ingredientSectionNames.length > 0 && (
+        <SectionPicker
+          sections={ingredientSectionNames}
+          value={ingredient.group?.trim() ?? ""}
+          onChange={(group) => setIngredientGroup(ingredient.id, group)}
+        />
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => removeIngredient(ingredient.id)}
+      >
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+
+  const renderInstructionRow = ({ text, index }: NumberedStep) => (
+    <div key={index} className="flex gap-3 items-start">
+      <span className="flex-shrink-0 w-6 h-6 bg-primary text-primary-foreground text-sm font-medium rounded-full flex items-center justify-center mt-1">
+        {index + 1}
+      </span>
+      <div className="flex-1 space-y-1">
+        <Textarea
+          value={text}
+          onChange={(e) => updateInstruction(index, e.target.value)}
+          rows={2}
+        />
+        <StepIngredientLinks
+          ingredients={formData.ingredients}
+          stepIndex={index}
+          onToggle={(ingredientId) => toggleIngredientLink(ingredientId, index)}
+          onAmountChange={(ingredientId, amount) => updateStepAmount(ingredientId, index, amount)}
+        />
+      </div>
+      {stepSectionNames.length > 0 && (
+        <SectionPicker
+          sections={stepSectionNames}
+          value={formData.instructionGroups?.[index]?.trim() ?? ""}
+          onChange={(group) => moveInstructionToSection(index, group)}
+        />
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => removeInstruction(index)}
+        className="mt-1"
+      >
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -341,14 +636,18 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
               </div>
               
               <div>
-                <Label htmlFor="calories">Calories</Label>
+                <Label htmlFor="calories">Calories per serving</Label>
                 <div className="flex gap-2">
                   <Input
                     id="calories"
                     type="number"
                     min="0"
-                    value={formData.calories ?? 0}
-                    onChange={(e) => setFormData(prev => ({ ...prev, calories: Math.max(0, parseInt(e.target.value) || 0) }))}
+                    value={formData.calories ?? ""}
+                    onChange={(e) => {
+                      const calories = parseInt(e.target.value);
+                      setFormData(prev => ({ ...prev, calories: Number.isNaN(calories) ? undefined : Math.max(0, calories) }));
+                    }}
+                    placeholder="Unknown"
                     className="flex-1"
                   />
                   <Button
@@ -385,7 +684,7 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
                   <Button 
                     type="button"
                     variant="outline" 
-                    onClick={extractFromWebsite}
+                    onClick={() => extractFromWebsite()}
                     disabled={isExtracting || !formData.websiteUrl}
                     className="gap-2"
                   >
@@ -395,6 +694,31 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
                 </div>
               </div>
 
+              {sameUrlRecipes.length > 0 && (
+                <Alert>
+                  <AlertDescription>
+                    This page is already saved as{" "}
+                    {sameUrlRecipes.map((match, index) => (
+                      <span key={match.id}>
+                        {index > 0 && ", "}
+                        <Link to={`/recipes/${match.id}`} className="font-medium underline">
+                          {match.title || "an untitled recipe"}
+                        </Link>
+                      </span>
+                    ))}
+                    .
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {extractionReport && (
+                <ExtractionReportCard
+                  report={extractionReport}
+                  onReextract={() => extractFromWebsite(true)}
+                  isExtracting={isExtracting}
+                />
+              )}
+
               <div>
                 <Label htmlFor="image">Image URL</Label>
                 <Input
@@ -450,46 +774,39 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
               <CardTitle>Ingredients</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="space-y-2">
-                {formData.ingredients.map((ingredient) => (
-                  <div key={ingredient.id} className="flex gap-2 items-center">
-                    <Input
-                      value={ingredient.name}
-                      onChange={(e) => updateIngredient(ingredient.id, 'name', e.target.value)}
-                      placeholder="Ingredient name"
-                      className="flex-1"
-                    />
-                    <Input
-                      value={ingredient.amount}
-                      onChange={(e) => updateIngredient(ingredient.id, 'amount', e.target.value)}
-                      placeholder="Amount"
-                      className="w-20"
-                    />
-                    <Input
-                      value={ingredient.unit}
-                      onChange={(e) => updateIngredient(ingredient.id, 'unit', e.target.value)}
-                      placeholder="Unit"
-                      className="w-16"
-                    />
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeIngredient(ingredient.id)}
+              <div className="space-y-4">
+                {ingredientGroups.map(section =>
+                  section.name ? (
+                    <RecipeSectionBlock
+                      key={section.name}
+                      title={<SectionNameInput name={section.name} onRename={(name) => renameIngredientSection(section.name, name)} />}
                     >
-                      <X className="w-4 h-4" />
-                    </Button>
-                  </div>
-                ))}
+                      <div className="space-y-2">{section.items.map(renderIngredientRow)}</div>
+                    </RecipeSectionBlock>
+                  ) : (
+                    <div key="" className="space-y-2">{section.items.map(renderIngredientRow)}</div>
+                  )
+                )}
               </div>
 
               <Separator />
 
+              <Input
+                value={newIngredientGroup}
+                onChange={(e) => setNewIngredientGroup(e.target.value)}
+                placeholder="Section, e.g. For the dough (optional)"
+                list="ingredient-sections"
+              />
+              <datalist id="ingredient-sections">
+                {ingredientSectionNames.map(name => <option key={name} value={name} />)}
+              </datalist>
               <div className="flex gap-2">
                 <Input
                   value={newIngredient.name}
                   onChange={(e) => setNewIngredient(prev => ({ ...prev, name: e.target.value }))}
-                  placeholder="Ingredient name"
+                  placeholder="Ingredient, or a full line like 2 cups flour"
                   className="flex-1"
+                  onKeyDown={(e) => e.key === 'Enter' && addIngredient()}
                 />
                 <Input
                   value={newIngredient.amount}
@@ -513,35 +830,49 @@ export const RecipeForm = ({ recipe, onSave, onCancel, onDelete, isNewRecipe = f
           {/* Instructions */}
           <Card>
             <CardHeader>
-              <CardTitle>Instructions</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle>Instructions</CardTitle>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={relinkIngredients}
+                  disabled={formData.ingredients.length === 0 || formData.instructions.length === 0}
+                  className="gap-2"
+                  title="Link each step to the ingredients it names, replacing links set by hand"
+                >
+                  <Wand2 className="w-4 h-4" />
+                  Detect ingredients
+                </Button>
+              </div>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="space-y-3">
-                {formData.instructions.map((instruction, index) => (
-                  <div key={index} className="flex gap-3 items-start">
-                    <span className="flex-shrink-0 w-6 h-6 bg-primary text-primary-foreground text-sm font-medium rounded-full flex items-center justify-center mt-1">
-                      {index + 1}
-                    </span>
-                    <Textarea
-                      value={instruction}
-                      onChange={(e) => updateInstruction(index, e.target.value)}
-                      rows={2}
-                      className="flex-1"
-                    />
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeInstruction(index)}
-                      className="mt-1"
+              <div className="space-y-4">
+                {stepGroups.map(section =>
+                  section.name ? (
+                    <RecipeSectionBlock
+                      key={section.items[0].index}
+                      title={<SectionNameInput name={section.name} onRename={(name) => renameInstructionSection(section.name, name)} />}
                     >
-                      <X className="w-4 h-4" />
-                    </Button>
-                  </div>
-                ))}
+                      <div className="space-y-3">{section.items.map(renderInstructionRow)}</div>
+                    </RecipeSectionBlock>
+                  ) : (
+                    <div key={section.items[0].index} className="space-y-3">{section.items.map(renderInstructionRow)}</div>
+                  )
+                )}
               </div>
 
               <Separator />
 
+              <Input
+                value={newInstructionGroup}
+                onChange={(e) => setNewInstructionGroup(e.target.value)}
+                placeholder="Section, e.g. Make the filling (optional)"
+                list="instruction-sections"
+              />
+              <datalist id="instruction-sections">
+                {stepSectionNames.map(name => <option key={name} value={name} />)}
+              </datalist>
+
               <div className="flex gap-2">
                 <Textarea
                   value={newInstruction}
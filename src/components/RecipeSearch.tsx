@@ -1,46 +1,102 @@
 import { useState } from "react";
+import { activeFilterCount, NumberRange, RangeField, RecipeFilters, TagMode } from "@/lib/recipeFilters";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Search, X } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Search, SlidersHorizontal, X } from "lucide-react";
 
 interface RecipeSearchProps {
+  filters: RecipeFilters;
   onSearch: (query: string) => void;
-  onTagFilter: (tags: string[]) => void;
+  onFiltersChange: (filters: RecipeFilters) => void;
+  onClearFilters: () => void;
   availableTags: string[];
-  selectedTags: string[];
 }
 
-export const RecipeSearch = ({ onSearch, onTagFilter, availableTags, selectedTags }: RecipeSearchProps) => {
-  const [searchQuery, setSearchQuery] = useState("");
+const RANGE_INPUTS: { field: RangeField; label: string; unit: string; step: number }[] = [
+  { field: "cookTime", label: "Cook time", unit: "min", step: 5 },
+  { field: "calories", label: "Calories", unit: "kcal", step: 50 },
+  { field: "rating", label: "Rating", unit: "stars", step: 1 },
+  { field: "servings", label: "Servings", unit: "people", step: 1 },
+];
 
-  const handleSearch = (query: string) => {
-    setSearchQuery(query);
-    onSearch(query);
-  };
+const parseBound = (value: string) => (value.trim() === "" || Number.isNaN(Number(value)) ? undefined : Number(value));
+
+const RangeInputs = ({ label, unit, step, range, onChange }: {
+  label: string;
+  unit: string;
+  step: number;
+  range: NumberRange;
+  onChange: (range: NumberRange) => void;
+}) => (
+  <div className="space-y-1">
+    <Label className="text-sm">{label}</Label>
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        min={0}
+        step={step}
+        placeholder="Min"
+        value={range.min ?? ""}
+        onChange={event => onChange({ ...range, min: parseBound(event.target.value) })}
+        aria-label={`${label} minimum`}
+      />
+      <span className="text-muted-foreground">–</span>
+      <Input
+        type="number"
+        min={0}
+        step={step}
+        placeholder="Max"
+        value={range.max ?? ""}
+        onChange={event => onChange({ ...range, max: parseBound(event.target.value) })}
+        aria-label={`${label} maximum`}
+      />
+      <span className="text-xs text-muted-foreground w-12 shrink-0">{unit}</span>
+    </div>
+  </div>
+);
 
+export const RecipeSearch = ({ filters, onSearch, onFiltersChange, onClearFilters, availableTags }: RecipeSearchProps) => {
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [excludeDraft, setExcludeDraft] = useState("");
+  const filterCount = activeFilterCount(filters);
+
+  const update = (changes: Partial<RecipeFilters>) => onFiltersChange({ ...filters, ...changes });
+
+  // Clicking a tag cycles it through include, exclude and off
   const toggleTag = (tag: string) => {
-    const newTags = selectedTags.includes(tag)
-      ? selectedTags.filter(t => t !== tag)
-      : [...selectedTags, tag];
-    onTagFilter(newTags);
+    if (filters.tags.includes(tag)) {
+      update({ tags: filters.tags.filter(t => t !== tag), excludedTags: [...filters.excludedTags, tag] });
+    } else if (filters.excludedTags.includes(tag)) {
+      update({ excludedTags: filters.excludedTags.filter(t => t !== tag) });
+    } else {
+      update({ tags: [...filters.tags, tag] });
+    }
   };
 
-  const clearAllFilters = () => {
-    setSearchQuery("");
-    onSearch("");
-    onTagFilter([]);
+  const addExcludedIngredients = () => {
+    const added = excludeDraft
+      .split(",")
+      .map(item => item.trim())
+      .filter(item => item && !filters.excludedIngredients.includes(item));
+    if (added.length > 0) update({ excludedIngredients: [...filters.excludedIngredients, ...added] });
+    setExcludeDraft("");
   };
 
+  const hasFilters = filterCount > 0 || filters.query !== "";
+
   return (
     <div className="space-y-6">
       {/* Search Bar */}
       <div className="relative">
         <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
         <Input
-          placeholder="Search recipes..."
-          value={searchQuery}
-          onChange={(e) => handleSearch(e.target.value)}
+          placeholder="Search recipes, ingredients, instructions and comments..."
+          value={filters.query}
+          onChange={(e) => onSearch(e.target.value)}
           className="pl-10 h-12"
         />
       </div>
@@ -48,12 +104,25 @@ export const RecipeSearch = ({ onSearch, onTagFilter, availableTags, selectedTag
       {/* Tag Filters */}
       <div className="space-y-3">
         <div className="flex items-center justify-between">
-          <h3 className="font-medium">Filter by tags</h3>
-          {(selectedTags.length > 0 || searchQuery) && (
-            <Button 
-              variant="ghost" 
+          <div className="flex items-center gap-3">
+            <h3 className="font-medium">Filter by tags</h3>
+            {filters.tags.length > 1 && (
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={filters.tagMode}
+                onValueChange={value => value && update({ tagMode: value as TagMode })}
+              >
+                <ToggleGroupItem value="all" className="h-7 text-xs">Match all</ToggleGroupItem>
+                <ToggleGroupItem value="any" className="h-7 text-xs">Match any</ToggleGroupItem>
+              </ToggleGroup>
+            )}
+          </div>
+          {hasFilters && (
+            <Button
+              variant="ghost"
               size="sm"
-              onClick={clearAllFilters}
+              onClick={onClearFilters}
               className="text-muted-foreground hover:text-foreground"
             >
               <X className="w-4 h-4 mr-1" />
@@ -61,33 +130,104 @@ export const RecipeSearch = ({ onSearch, onTagFilter, availableTags, selectedTag
             </Button>
           )}
         </div>
-        
+
         <div className="flex flex-wrap gap-2">
-          {availableTags.map((tag) => (
-            <Badge
-              key={tag}
-              variant={selectedTags.includes(tag) ? "default" : "outline"}
-              className="cursor-pointer transition-colors hover:bg-primary hover:text-primary-foreground"
-              onClick={() => toggleTag(tag)}
-            >
-              {tag}
-            </Badge>
-          ))}
+          {availableTags.map((tag) => {
+            const excluded = filters.excludedTags.includes(tag);
+            return (
+              <Badge
+                key={tag}
+                variant={filters.tags.includes(tag) ? "default" : excluded ? "destructive" : "outline"}
+                className={`cursor-pointer transition-colors hover:bg-primary hover:text-primary-foreground ${excluded ? "line-through" : ""}`}
+                onClick={() => toggleTag(tag)}
+                title={excluded ? "Excluded; click to clear" : filters.tags.includes(tag) ? "Click to exclude" : "Click to include"}
+              >
+                {tag}
+              </Badge>
+            );
+          })}
         </div>
       </div>
 
+      {/* Advanced Filters */}
+      <Collapsible open={showAdvanced} onOpenChange={setShowAdvanced}>
+        <CollapsibleTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2">
+            <SlidersHorizontal className="w-4 h-4" />
+            More filters
+            {filterCount - filters.tags.length - filters.excludedTags.length > 0 && (
+              <Badge variant="secondary" className="ml-1">
+                {filterCount - filters.tags.length - filters.excludedTags.length}
+              </Badge>
+            )}
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-4 space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            {RANGE_INPUTS.map(({ field, label, unit, step }) => (
+              <RangeInputs
+                key={field}
+                label={label}
+                unit={unit}
+                step={step}
+                range={filters.ranges[field]}
+                onChange={range => update({ ranges: { ...filters.ranges, [field]: range } })}
+              />
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="excludeIngredient" className="text-sm">Exclude ingredients</Label>
+            <form
+              className="flex gap-2"
+              onSubmit={event => {
+                event.preventDefault();
+                addExcludedIngredients();
+              }}
+            >
+              <Input
+                id="excludeIngredient"
+                value={excludeDraft}
+                onChange={event => setExcludeDraft(event.target.value)}
+                placeholder="nuts, pork, cilantro..."
+              />
+              <Button type="submit" variant="outline" disabled={!excludeDraft.trim()}>
+                Exclude
+              </Button>
+            </form>
+            {filters.excludedIngredients.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {filters.excludedIngredients.map(ingredient => (
+                  <Badge key={ingredient} variant="destructive" className="gap-1 pr-1">
+                    No {ingredient}
+                    <button
+                      type="button"
+                      onClick={() => update({ excludedIngredients: filters.excludedIngredients.filter(item => item !== ingredient) })}
+                      aria-label={`Stop excluding ${ingredient}`}
+                      className="rounded-sm hover:bg-destructive-foreground/20"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+
       {/* Active Filters Summary */}
-      {(selectedTags.length > 0 || searchQuery) && (
+      {hasFilters && (
         <div className="text-sm text-muted-foreground">
-          {searchQuery && (
-            <span>Searching for "{searchQuery}"</span>
+          {filters.query && (
+            <span>Searching for "{filters.query}"</span>
           )}
-          {searchQuery && selectedTags.length > 0 && <span> • </span>}
-          {selectedTags.length > 0 && (
-            <span>Filtered by {selectedTags.length} tag{selectedTags.length > 1 ? 's' : ''}</span>
+          {filters.query && filterCount > 0 && <span> • </span>}
+          {filterCount > 0 && (
+            <span>{filterCount} filter{filterCount > 1 ? 's' : ''} applied</span>
           )}
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
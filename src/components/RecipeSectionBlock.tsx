@@ -0,0 +1,31 @@
+import { ReactNode, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown } from "lucide-react";
+
+interface RecipeSectionBlockProps {
+  // The section name, or an input to edit it
+  title: ReactNode;
+  children: ReactNode;
+}
+
+// A named part of a recipe ("For the dough") that folds away. Folded sections still print.
+export const RecipeSectionBlock = ({ title, children }: RecipeSectionBlockProps) => {
+  const [open, setOpen] = useState(true);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="space-y-2">
+      <div className="flex items-center gap-1">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0 print:hidden" aria-label={open ? "Collapse section" : "Expand section"}>
+            <ChevronDown className={`w-4 h-4 transition-transform ${open ? "" : "-rotate-90"}`} />
+          </Button>
+        </CollapsibleTrigger>
+        {title}
+      </div>
+      <CollapsibleContent forceMount className="data-[state=closed]:hidden print:!block">
+        {children}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
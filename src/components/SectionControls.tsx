@@ -0,0 +1,71 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FolderInput } from "lucide-react";
+
+interface SectionNameInputProps {
+  name: string;
+  onRename: (name: string) => void;
+}
+
+// Renames a section once editing is done, so clearing the field to retype does not dissolve it.
+// Leaving it empty moves the section's items out of any section.
+export const SectionNameInput = ({ name, onRename }: SectionNameInputProps) => {
+  const [draft, setDraft] = useState(name);
+
+  useEffect(() => {
+    setDraft(name);
+  }, [name]);
+
+  const commit = () => {
+    if (draft.trim() !== name) onRename(draft.trim());
+  };
+
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === "Enter" && commit()}
+      placeholder="Section name"
+      aria-label="Section name"
+      className="h-8 font-medium"
+    />
+  );
+};
+
+interface SectionPickerProps {
+  sections: string[];
+  value: string;
+  onChange: (section: string) => void;
+}
+
+// Moves one ingredient or step into another section, or out of all of them
+export const SectionPicker = ({ sections, value, onChange }: SectionPickerProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="ghost" size="sm" title="Move to section">
+        <FolderInput className="w-4 h-4" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end" className="w-48">
+      <DropdownMenuLabel>Section</DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      <DropdownMenuRadioGroup value={value} onValueChange={onChange}>
+        <DropdownMenuRadioItem value="">No section</DropdownMenuRadioItem>
+        {sections.map(section => (
+          <DropdownMenuRadioItem key={section} value={section}>{section}</DropdownMenuRadioItem>
+        ))}
+      </DropdownMenuRadioGroup>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
@@ -0,0 +1,68 @@
+import { Ingredient } from "@/types/recipe";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Link2 } from "lucide-react";
+import { usesInStep } from "@/lib/stepIngredients";
+
+interface StepIngredientLinksProps {
+  ingredients: Ingredient[];
+  stepIndex: number;
+  onToggle: (ingredientId: string) => void;
+  onAmountChange: (ingredientId: string, amount: string) => void;
+}
+
+// The ingredients one step uses, with a menu to link or unlink them and how much of each
+// the step takes; an empty amount means the step uses all of it
+export const StepIngredientLinks = ({ ingredients, stepIndex, onToggle, onAmountChange }: StepIngredientLinksProps) => {
+  const linked = ingredients.filter(ingredient => usesInStep(ingredient, stepIndex));
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-xs text-muted-foreground" disabled={ingredients.length === 0}>
+            <Link2 className="w-3 h-3" />
+            {linked.length === 0 ? "Link ingredients" : "Uses"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Used in step {stepIndex + 1}</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {ingredients.map(ingredient => (
+            <DropdownMenuCheckboxItem
+              key={ingredient.id}
+              checked={usesInStep(ingredient, stepIndex)}
+              onCheckedChange={() => onToggle(ingredient.id)}
+              onSelect={event => event.preventDefault()}
+            >
+              {ingredient.name || "Unnamed ingredient"}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {linked.map(ingredient => (
+        <Badge key={ingredient.id} variant="secondary" className="gap-1 font-normal">
+          <Input
+            value={ingredient.steps?.find(use => use.step === stepIndex)?.amount ?? ""}
+            onChange={(e) => onAmountChange(ingredient.id, e.target.value)}
+            placeholder={ingredient.amount ? "all" : "amount"}
+            aria-label={`Amount of ${ingredient.name || "ingredient"} used in step ${stepIndex + 1}`}
+            title={ingredient.amount ? `Of ${[ingredient.amount, ingredient.unit].filter(Boolean).join(" ")}; leave empty for all of it` : undefined}
+            className="h-5 w-14 px-1 text-xs"
+          />
+          {ingredient.unit && <span className="text-muted-foreground">{ingredient.unit}</span>}
+          {ingredient.name}
+        </Badge>
+      ))}
+    </div>
+  );
+};
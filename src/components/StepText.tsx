@@ -0,0 +1,28 @@
+import { Ingredient } from "@/types/recipe";
+import { stepSegments } from "@/lib/stepIngredients";
+import { formatIngredientAmount } from "@/lib/ingredients";
+
+interface StepTextProps {
+  text: string;
+  // The ingredients linked to this step; only they are highlighted
+  ingredients: Ingredient[];
+}
+
+// An instruction with the ingredients it names highlighted, their amount on hover
+export const StepText = ({ text, ingredients }: StepTextProps) => (
+  <span dir="auto">
+    {stepSegments(text, ingredients).map((segment, index) =>
+      segment.ingredient ? (
+        <mark
+          key={index}
+          className="rounded-sm bg-primary/10 px-0.5 font-medium text-foreground"
+          title={formatIngredientAmount(segment.ingredient) || undefined}
+        >
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={index}>{segment.text}</span>
+      )
+    )}
+  </span>
+);
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { ParsedUrlList, parseUrlList } from "@/lib/urlList";
+import { ImportPreviewRow, RecipeImportService } from "@/services/recipeImporter";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface UrlListImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onQueued: (jobId: string) => void;
+}
+
+type InputMode = "paste" | "file";
+
+interface Preview {
+  parsed: ParsedUrlList;
+  rows: ImportPreviewRow[];
+}
+
+export const UrlListImportDialog = ({ open, onOpenChange, onQueued }: UrlListImportDialogProps) => {
+  const [mode, setMode] = useState<InputMode>("paste");
+  const [text, setText] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setText("");
+    setFile(null);
+    setPreview(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  // Parse locally, then ask the server which URLs are already saved or ignored.
+  // Nothing is written until the import is confirmed.
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const parsed = mode === "file" && file ? parseUrlList(await file.text(), file.name) : parseUrlList(text);
+      if (parsed.entries.length === 0) {
+        setPreview({ parsed, rows: [] });
+        return;
+      }
+
+      const result = await RecipeImportService.previewEntries(parsed.entries);
+      if (!result.success) throw new Error(result.error);
+      setPreview({ parsed, rows: result.preview ?? [] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to preview import",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const newUrls = new Set(preview?.rows.filter(row => row.status === "new").map(row => row.url));
+  const newEntries = preview?.parsed.entries.filter(entry => newUrls.has(entry.url)) ?? [];
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const source = mode === "file" ? "file" : "paste";
+      const sourceRef = mode === "file" && file ? { fileName: file.name } : {};
+      const result = await RecipeImportService.importEntries(newEntries, source, sourceRef);
+      if (!result.success) throw new Error(result.error);
+
+      if (result.jobId) onQueued(result.jobId);
+      handleOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start import",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const canPreview = mode === "file" ? file !== null : text.trim() !== "";
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import a list of URLs</DialogTitle>
+          <DialogDescription>
+            One URL per line, or a CSV/TSV file. Add a header row with url, title and tags columns to set those too.
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview === null ? (
+          <Tabs value={mode} onValueChange={value => setMode(value as InputMode)}>
+            <TabsList>
+              <TabsTrigger value="paste">Paste</TabsTrigger>
+              <TabsTrigger value="file">Upload file</TabsTrigger>
+            </TabsList>
+            <TabsContent value="paste">
+              <Textarea
+                value={text}
+                onChange={event => setText(event.target.value)}
+                placeholder={"https://example.com/best-hummus\nhttps://www.youtube.com/watch?v=..."}
+                rows={10}
+                className="font-mono text-sm"
+              />
+            </TabsContent>
+            <TabsContent value="file" className="space-y-2">
+              <Label htmlFor="urlListFile">CSV, TSV or text file</Label>
+              <Input
+                id="urlListFile"
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+                onChange={event => setFile(event.target.files?.[0] ?? null)}
+              />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+            <p className="text-sm text-muted-foreground">
+              {newEntries.length} new · {preview.rows.length - newEntries.length} already handled
+              {preview.parsed.issues.length > 0 && ` · ${preview.parsed.issues.length} lines left out`}
+            </p>
+
+            {preview.rows.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>URL</TableHead>
+                    <TableHead>Title and tags</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.parsed.entries.map(entry => {
+                    const row = preview.rows.find(candidate => candidate.url === entry.url);
+                    return (
+                      <TableRow key={entry.url}>
+                        <TableCell className="max-w-xs truncate">{entry.url}</TableCell>
+                        <TableCell>
+                          {entry.details?.title && <span className="block">{entry.details.title}</span>}
+                          {entry.details?.tags && (
+                            <div className="flex flex-wrap gap-1">
+                              {entry.details.tags.map(tag => (
+                                <Badge key={tag} variant="secondary">{tag}</Badge>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {row?.status === "new" ? (
+                            <Badge>New</Badge>
+                          ) : row?.recipeId ? (
+                            <Link to={`/recipes/${row.recipeId}`} className="text-sm text-muted-foreground hover:text-primary">
+                              {row.reason}
+                            </Link>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">{row?.reason}</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            {preview.parsed.issues.length > 0 && (
+              <ul className="text-sm space-y-1">
+                {preview.parsed.issues.map(issue => (
+                  <li key={issue.line} className="text-muted-foreground">
+                    Line {issue.line}: <span className="font-mono">{issue.value || "(empty)"}</span> — {issue.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {preview === null ? (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handlePreview} disabled={!canPreview || isPreviewing}>
+                {isPreviewing ? "Checking..." : "Preview"}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setPreview(null)}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={newEntries.length === 0 || isImporting}>
+                {isImporting ? "Starting..." : `Import ${newEntries.length} URLs`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
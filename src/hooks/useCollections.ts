@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CollectionKind = 'smart' | 'manual';
+
+export interface Collection {
+  id: string;
+  name: string;
+  kind: CollectionKind;
+  // Smart collections: the saved filter query string, applied to the recipes on every visit
+  searchParams: string;
+  // Manual collections: the hand-picked recipes in their chosen order
+  recipeIds: string[];
+}
+
+type CollectionRow = Tables<'collections'> & {
+  collection_recipes: Pick<Tables<'collection_recipes'>, 'recipe_id' | 'position'>[];
+};
+
+const toCollection = (row: CollectionRow): Collection => ({
+  id: row.id,
+  name: row.name,
+  kind: row.kind === 'smart' ? 'smart' : 'manual',
+  searchParams: row.search_params,
+  recipeIds: [...row.collection_recipes]
+    .sort((a, b) => a.position - b.position)
+    .map(entry => entry.recipe_id),
+});
+
+// Write each recipe's index in the list as its position
+const savePositions = async (collectionId: string, recipeIds: string[]) => {
+  if (recipeIds.length === 0) return;
+  const { error } = await supabase
+    .from('collection_recipes')
+    .upsert(recipeIds.map((recipe_id, position) => ({ collection_id: collectionId, recipe_id, position })));
+
+  if (error) throw error;
+};
+
+export const useCollections = () => {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchCollections = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('collections')
+        .select('*, collection_recipes(recipe_id, position)')
+        .order('created_at');
+
+      if (error) throw error;
+      setCollections((data || []).map(toCollection));
+    } catch (error) {
+      console.error('Error fetching collections:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createCollection = async (name: string, kind: CollectionKind, searchParams = ''): Promise<string> => {
+    const { data, error } = await supabase
+      .from('collections')
+      .insert({ name, kind, search_params: kind === 'smart' ? searchParams : '' })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    await fetchCollections();
+    return data.id;
+  };
+
+  const updateCollection = async (id: string, changes: { name?: string; searchParams?: string }) => {
+    const { error } = await supabase
+      .from('collections')
+      .update({ name: changes.name, search_params: changes.searchParams })
+      .eq('id', id);
+
+    if (error) throw error;
+    await fetchCollections();
+  };
+
+  const deleteCollection = async (id: string) => {
+    const { error } = await supabase
+      .from('collections')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    await fetchCollections();
+  };
+
+  // New recipes go to the end of the list. Positions can have gaps once recipes are removed,
+  // so the end is after the highest position rather than at the recipe count.
+  const addRecipe = async (collectionId: string, recipeId: string) => {
+    const { data: last, error: lastError } = await supabase
+      .from('collection_recipes')
+      .select('position')
+      .eq('collection_id', collectionId)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lastError) throw lastError;
+
+    const { error } = await supabase
+      .from('collection_recipes')
+      .insert({ collection_id: collectionId, recipe_id: recipeId, position: last ? last.position + 1 : 0 });
+
+    if (error) throw error;
+    await fetchCollections();
+  };
+
+  const removeRecipe = async (collectionId: string, recipeId: string) => {
+    const { error } = await supabase
+      .from('collection_recipes')
+      .delete()
+      .eq('collection_id', collectionId)
+      .eq('recipe_id', recipeId);
+
+    if (error) throw error;
+    await fetchCollections();
+  };
+
+  // Shown in the new order straight away, then saved
+  const reorderRecipes = async (collectionId: string, recipeIds: string[]) => {
+    setCollections(prev => prev.map(c => (c.id === collectionId ? { ...c, recipeIds } : c)));
+    try {
+      await savePositions(collectionId, recipeIds);
+    } finally {
+      await fetchCollections();
+    }
+  };
+
+  useEffect(() => {
+    fetchCollections();
+  }, [fetchCollections]);
+
+  return {
+    collections,
+    loading,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+    addRecipe,
+    removeRecipe,
+    reorderRecipes,
+    refetch: fetchCollections
+  };
+};
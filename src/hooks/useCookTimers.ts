@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface CookTimer {
+  id: string;
+  label: string;
+  // Index of the step the timer was started from
+  step: number;
+  durationMs: number;
+  // When a running timer goes off; null while paused
+  endsAt: number | null;
+  // Time left when paused
+  remainingMs: number;
+  finished: boolean;
+}
+
+const TICK_MS = 250;
+// A finished timer keeps ringing until it is dismissed
+const ALARM_REPEAT_MS = 2000;
+
+// Three short beeps
+const playAlarm = (audio: AudioContext) => {
+  [0, 0.3, 0.6].forEach(offset => {
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.3, audio.currentTime + offset);
+    gain.gain.exponentialRampToValueAtTime(0.001, audio.currentTime + offset + 0.2);
+    oscillator.connect(gain).connect(audio.destination);
+    oscillator.start(audio.currentTime + offset);
+    oscillator.stop(audio.currentTime + offset + 0.2);
+  });
+  navigator.vibrate?.([200, 100, 200, 100, 200]);
+};
+
+export const timeLeftMs = (timer: CookTimer, now: number) =>
+  timer.endsAt === null ? timer.remainingMs : Math.max(0, timer.endsAt - now);
+
+// Any number of countdowns running side by side, ringing when they reach zero
+export const useCookTimers = () => {
+  const [timers, setTimers] = useState<CookTimer[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  // Browsers only allow sound from an AudioContext created in response to a tap
+  const audio = useRef<AudioContext | null>(null);
+
+  const running = timers.some(timer => timer.endsAt !== null && !timer.finished);
+  const ringing = timers.some(timer => timer.finished);
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      setTimers(prev => prev.some(timer => !timer.finished && timer.endsAt !== null && timer.endsAt <= current)
+        ? prev.map(timer => (!timer.finished && timer.endsAt !== null && timer.endsAt <= current ? { ...timer, finished: true } : timer))
+        : prev);
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  useEffect(() => {
+    if (!ringing || !audio.current) return;
+    const context = audio.current;
+    playAlarm(context);
+    const interval = setInterval(() => playAlarm(context), ALARM_REPEAT_MS);
+    return () => clearInterval(interval);
+  }, [ringing]);
+
+  const start = useCallback((label: string, seconds: number, step: number) => {
+    if (!audio.current && typeof AudioContext !== 'undefined') audio.current = new AudioContext();
+    audio.current?.resume();
+
+    const durationMs = seconds * 1000;
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setTimers(prev => [...prev, {
+      id: crypto.randomUUID(),
+      label,
+      step,
+      durationMs,
+      endsAt: startedAt + durationMs,
+      remainingMs: durationMs,
+      finished: false,
+    }]);
+  }, []);
+
+  const pause = useCallback((id: string) => {
+    setTimers(prev => prev.map(timer => (timer.id === id && timer.endsAt !== null
+      ? { ...timer, endsAt: null, remainingMs: Math.max(0, timer.endsAt - Date.now()) }
+      : timer)));
+  }, []);
+
+  const resume = useCallback((id: string) => {
+    setNow(Date.now());
+    setTimers(prev => prev.map(timer => (timer.id === id && timer.endsAt === null
+      ? { ...timer, endsAt: Date.now() + timer.remainingMs }
+      : timer)));
+  }, []);
+
+  // Stops a timer, or silences one that has gone off
+  const dismiss = useCallback((id: string) => {
+    setTimers(prev => prev.filter(timer => timer.id !== id));
+  }, []);
+
+  useEffect(() => () => {
+    audio.current?.close();
+  }, []);
+
+  return { timers, now, start, pause, resume, dismiss };
+};
@@ -0,0 +1,27 @@
+import { useCallback, useState } from 'react';
+
+const STORAGE_KEY = 'dismissed-duplicates';
+
+const readDismissed = (): Set<string> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return new Set(Array.isArray(stored) ? stored.filter(key => typeof key === 'string') : []);
+  } catch {
+    return new Set();
+  }
+};
+
+// Recipe pairs the user has marked as "not a duplicate", remembered across visits
+export const useDismissedDuplicates = () => {
+  const [dismissed, setDismissed] = useState<Set<string>>(readDismissed);
+
+  const dismiss = useCallback((key: string) => {
+    setDismissed(prev => {
+      const next = new Set(prev).add(key);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify([...next]));
+      return next;
+    });
+  }, []);
+
+  return [dismissed, dismiss] as const;
+};
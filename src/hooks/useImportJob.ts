@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { RecipeImportService } from '@/services/recipeImporter';
+
+export type ImportJob = Tables<'import_jobs'>;
+export type ImportJobRow = Tables<'import_job_rows'>;
+
+// A running job with no progress for this long has lost its worker and is restarted
+const STALL_MS = 3 * 60 * 1000;
+const STALL_CHECK_INTERVAL_MS = 30 * 1000;
+
+// The most recent import job that has not finished, so a reload picks its progress back up
+export const fetchActiveImportJob = async (): Promise<ImportJob | null> => {
+  const { data, error } = await supabase
+    .from('import_jobs')
+    .select('*')
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+const upsertRow = (rows: ImportJobRow[], row: ImportJobRow) =>
+  [...rows.filter(existing => existing.id !== row.id), row].sort((a, b) => a.position - b.position);
+
+// Live state of an import job and its rows, kept current over Realtime
+export const useImportJob = (jobId: string | null) => {
+  const [job, setJob] = useState<ImportJob | null>(null);
+  const [rows, setRows] = useState<ImportJobRow[]>([]);
+  const lastResumedAt = useRef(0);
+
+  useEffect(() => {
+    setJob(null);
+    setRows([]);
+    if (!jobId) return;
+
+    let cancelled = false;
+
+    const load = async () => {
+      const [{ data: jobData, error: jobError }, { data: rowsData, error: rowsError }] = await Promise.all([
+        supabase.from('import_jobs').select('*').eq('id', jobId).maybeSingle(),
+        supabase.from('import_job_rows').select('*').eq('job_id', jobId).order('position')
+      ]);
+
+      if (jobError || rowsError) {
+        console.error('Error loading import job:', jobError || rowsError);
+        return;
+      }
+      if (!cancelled) {
+        setJob(jobData);
+        setRows(rowsData || []);
+      }
+    };
+
+    // Subscribe before loading so no update falls between the two
+    const channel = supabase
+      .channel(`import-job-${jobId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'import_jobs', filter: `id=eq.${jobId}` },
+        payload => setJob(payload.new as ImportJob)
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'import_job_rows', filter: `job_id=eq.${jobId}` },
+        payload => {
+          if (payload.eventType !== 'DELETE') setRows(prev => upsertRow(prev, payload.new as ImportJobRow));
+        }
+      )
+      .subscribe();
+
+    load();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [jobId]);
+
+  // Restart the worker if the job stops moving
+  useEffect(() => {
+    if (!job || job.status === 'completed') return;
+
+    const timer = setInterval(() => {
+      const lastActivity = Math.max(
+        new Date(job.updated_at).getTime(),
+        ...rows.map(row => new Date(row.updated_at).getTime())
+      );
+      if (Date.now() - lastActivity > STALL_MS && Date.now() - lastResumedAt.current > STALL_MS) {
+        lastResumedAt.current = Date.now();
+        console.log('Import job stalled, restarting its worker');
+        RecipeImportService.resumeJob(job.id);
+      }
+    }, STALL_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [job, rows]);
+
+  return { job, rows };
+};
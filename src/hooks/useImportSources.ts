@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+
+export type ImportSource = Tables<'import_sources'>;
+export type ImportSourceInput = Omit<TablesInsert<'import_sources'>, 'id' | 'created_at' | 'updated_at' | 'last_imported_at'>;
+
+// The spreadsheets "Refresh from Bot" imports from
+export const useImportSources = () => {
+  const [sources, setSources] = useState<ImportSource[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSources = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('import_sources')
+        .select('*')
+        .order('created_at');
+
+      if (error) throw error;
+      setSources(data || []);
+    } catch (error) {
+      console.error('Error fetching import sources:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const saveSource = async (source: ImportSourceInput, id?: string) => {
+    const { error } = id
+      ? await supabase.from('import_sources').update(source).eq('id', id)
+      : await supabase.from('import_sources').insert(source);
+
+    if (error) throw error;
+    await fetchSources();
+  };
+
+  const removeSource = async (id: string) => {
+    const { error } = await supabase
+      .from('import_sources')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    await fetchSources();
+  };
+
+  useEffect(() => {
+    fetchSources();
+  }, [fetchSources]);
+
+  return {
+    sources,
+    loading,
+    saveSource,
+    removeSource,
+    refetch: fetchSources
+  };
+};
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ImportedUrl = Tables<'imported_recipe_urls'> & {
+  recipes: Pick<Tables<'recipes'>, 'id' | 'title'> | null;
+};
+
+export const IMPORT_STATUSES = ['failed', 'pending', 'success', 'ignored'] as const;
+export type ImportStatus = typeof IMPORT_STATUSES[number];
+
+// Every URL the bulk importers have seen, newest first, with the recipe it became
+export const useImportedUrls = () => {
+  const [urls, setUrls] = useState<ImportedUrl[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchUrls = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('imported_recipe_urls')
+        .select('*, recipes(id, title)')
+        .order('imported_at', { ascending: false });
+
+      if (error) throw error;
+      setUrls((data || []) as ImportedUrl[]);
+    } catch (error) {
+      console.error('Error fetching imported URLs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Leave a failed URL out of later imports
+  const ignoreUrl = async (id: string) => {
+    const { error } = await supabase
+      .from('imported_recipe_urls')
+      .update({ status: 'ignored' })
+      .eq('id', id);
+
+    if (error) throw error;
+    await fetchUrls();
+  };
+
+  // Correct a mistyped URL before retrying it
+  const updateUrl = async (id: string, url: string) => {
+    const { error } = await supabase
+      .from('imported_recipe_urls')
+      .update({ url, status: 'pending', error_message: null })
+      .eq('id', id);
+
+    // url is unique: the corrected address may already have its own entry
+    if (error?.code === '23505') throw new Error('That URL is already in the import history');
+    if (error) throw error;
+    await fetchUrls();
+  };
+
+  useEffect(() => {
+    fetchUrls();
+  }, [fetchUrls]);
+
+  return {
+    urls,
+    loading,
+    ignoreUrl,
+    updateUrl,
+    refetch: fetchUrls
+  };
+};
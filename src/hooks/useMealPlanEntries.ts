@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { MealPlanEntry, MealSlot } from '@/lib/mealPlan';
+
+const toEntry = (row: Tables<'meal_plan_entries'>): MealPlanEntry => ({
+  id: row.id,
+  planId: row.plan_id,
+  recipeId: row.recipe_id,
+  date: row.planned_on,
+  slot: row.meal_slot as MealSlot,
+  servings: row.servings,
+  position: row.position,
+});
+
+// A plan's meals between two day keys (yyyy-MM-dd), inclusive
+export const useMealPlanEntries = (planId: string | null, from: string, to: string) => {
+  const [entries, setEntries] = useState<MealPlanEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchEntries = useCallback(async () => {
+    if (!planId) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('meal_plan_entries')
+        .select('*')
+        .eq('plan_id', planId)
+        .gte('planned_on', from)
+        .lte('planned_on', to)
+        .order('planned_on')
+        .order('position');
+
+      if (error) throw error;
+      setEntries((data || []).map(toEntry));
+    } catch (error) {
+      console.error('Error fetching meal plan entries:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [planId, from, to]);
+
+  // New and moved meals go after the others in the same slot. Positions keep their gaps when
+  // meals leave a slot, so counting the slot's meals could land on a position already taken.
+  const nextPosition = (date: string, slot: MealSlot, movingId?: string) =>
+    entries
+      .filter(entry => entry.date === date && entry.slot === slot && entry.id !== movingId)
+      .reduce((next, entry) => Math.max(next, entry.position + 1), 0);
+
+  const addEntry = async (recipeId: string, date: string, slot: MealSlot) => {
+    if (!planId) return;
+    const { error } = await supabase
+      .from('meal_plan_entries')
+      .insert({ plan_id: planId, recipe_id: recipeId, planned_on: date, meal_slot: slot, position: nextPosition(date, slot) });
+
+    if (error) throw error;
+    await fetchEntries();
+  };
+
+  const moveEntry = async (id: string, date: string, slot: MealSlot) => {
+    const { error } = await supabase
+      .from('meal_plan_entries')
+      .update({ planned_on: date, meal_slot: slot, position: nextPosition(date, slot, id) })
+      .eq('id', id);
+
+    if (error) throw error;
+    await fetchEntries();
+  };
+
+  // null goes back to the recipe's own servings
+  const updateServings = async (id: string, servings: number | null) => {
+    setEntries(prev => prev.map(entry => (entry.id === id ? { ...entry, servings } : entry)));
+    const { error } = await supabase
+      .from('meal_plan_entries')
+      .update({ servings })
+      .eq('id', id);
+
+    if (error) {
+      await fetchEntries();
+      throw error;
+    }
+  };
+
+  const removeEntry = async (id: string) => {
+    const { error } = await supabase
+      .from('meal_plan_entries')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    await fetchEntries();
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return {
+    entries,
+    loading,
+    addEntry,
+    moveEntry,
+    updateServings,
+    removeEntry,
+    refetch: fetchEntries
+  };
+};
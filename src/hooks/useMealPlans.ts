@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type MealPlan = Tables<'meal_plans'>;
+
+export const useMealPlans = () => {
+  const [plans, setPlans] = useState<MealPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('meal_plans')
+        .select('*')
+        .order('created_at');
+
+      if (error) throw error;
+      setPlans(data || []);
+    } catch (error) {
+      console.error('Error fetching meal plans:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const createPlan = async (name: string): Promise<string> => {
+    const { data, error } = await supabase
+      .from('meal_plans')
+      .insert({ name })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    await fetchPlans();
+    return data.id;
+  };
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  return {
+    plans,
+    loading,
+    createPlan,
+    refetch: fetchPlans
+  };
+};
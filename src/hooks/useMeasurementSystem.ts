@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { MeasurementPreference } from '@/lib/conversion';
+
+const STORAGE_KEY = 'measurement-system';
+const PREFERENCES: MeasurementPreference[] = ['original', 'metric', 'imperial'];
+
+const readPreference = (): MeasurementPreference => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return PREFERENCES.includes(stored as MeasurementPreference) ? (stored as MeasurementPreference) : 'original';
+};
+
+// The user's preferred measurement system, remembered across visits and tabs
+export const useMeasurementSystem = () => {
+  const [preference, setPreferenceState] = useState<MeasurementPreference>(readPreference);
+
+  const setPreference = useCallback((next: MeasurementPreference) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setPreferenceState(next);
+  }, []);
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setPreferenceState(readPreference());
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
+
+  return [preference, setPreference] as const;
+};
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'pantry-items';
+
+const readPantry = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(item => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+// Ingredients the user has on hand, remembered across visits and tabs
+export const usePantry = () => {
+  const [items, setItemsState] = useState<string[]>(readPantry);
+
+  const setItems = useCallback((next: string[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    setItemsState(next);
+  }, []);
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setItemsState(readPantry());
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
+
+  return [items, setItems] as const;
+};
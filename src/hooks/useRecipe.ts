@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Recipe } from '@/types/recipe';
+import { formatRecipe, persistRecipe, removeRecipe, insertComment } from '@/hooks/useRecipes';
+
+// Load a single recipe by id, for the detail and edit routes
+export const useRecipe = (recipeId: string | undefined) => {
+  const [recipe, setRecipe] = useState<Recipe | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRecipe = useCallback(async () => {
+    if (!recipeId) {
+      setRecipe(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const { data: recipeData, error: recipeError } = await supabase
+        .from('recipes')
+        .select('*')
+        .eq('id', recipeId)
+        .maybeSingle();
+
+      if (recipeError) throw recipeError;
+
+      if (!recipeData) {
+        setRecipe(null);
+        return;
+      }
+
+      const { data: ingredientsData, error: ingredientsError } = await supabase
+        .from('ingredients')
+        .select('*')
+        .eq('recipe_id', recipeId);
+
+      if (ingredientsError) throw ingredientsError;
+
+      const { data: commentsData, error: commentsError } = await supabase
+        .from('comments')
+        .select('*')
+        .eq('recipe_id', recipeId)
+        .order('created_at', { ascending: false });
+
+      if (commentsError) throw commentsError;
+
+      setRecipe(formatRecipe(recipeData, ingredientsData || [], commentsData || []));
+    } catch (error) {
+      console.error('Error fetching recipe:', error);
+      setRecipe(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [recipeId]);
+
+  const saveRecipe = async (updatedRecipe: Recipe) => {
+    try {
+      const savedId = await persistRecipe(updatedRecipe);
+      await fetchRecipe();
+      return savedId;
+    } catch (error) {
+      console.error('Error saving recipe:', error);
+      throw error;
+    }
+  };
+
+  const deleteRecipe = async (id: string) => {
+    try {
+      await removeRecipe(id);
+    } catch (error) {
+      console.error('Error deleting recipe:', error);
+      throw error;
+    }
+  };
+
+  const addComment = async (id: string, commentText: string) => {
+    try {
+      await insertComment(id, commentText);
+      await fetchRecipe(); // Refresh to get the new comment
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      throw error;
+    }
+  };
+
+  // Only opening a recipe shows a loading state; refreshes after a save or comment update it
+  // in place, so the page keeps its chosen servings, units and cook mode
+  useEffect(() => {
+    setLoading(true);
+    fetchRecipe();
+  }, [fetchRecipe]);
+
+  return {
+    recipe,
+    loading,
+    saveRecipe,
+    deleteRecipe,
+    addComment,
+    refetch: fetchRecipe
+  };
+};
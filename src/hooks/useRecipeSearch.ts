@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface RecipeSearchMatch {
+  rank: number;
+  // Matching text around the hits, which are wrapped in <mark></mark>
+  snippet: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Full-text search over titles, tags, ingredients, instructions and comments, best match first
+export const searchRecipes = async (query: string): Promise<Map<string, RecipeSearchMatch>> => {
+  const { data, error } = await supabase.rpc('search_recipes', { p_query: query });
+
+  if (error) throw error;
+  return new Map((data || []).map(match => [match.recipe_id, { rank: match.rank, snippet: match.snippet }]));
+};
+
+// Server-side matches for the query, or null when there is no query, before the first
+// results arrive or when the search failed; callers fall back to a local filter then.
+// While a new query loads, the previous results stay.
+export const useRecipeSearch = (query: string) => {
+  const [matches, setMatches] = useState<Map<string, RecipeSearchMatch> | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setMatches(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchRecipes(trimmed)
+        .then(results => !cancelled && setMatches(results))
+        .catch(error => {
+          console.error('Error searching recipes:', error);
+          if (!cancelled) setMatches(null);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return matches;
+};
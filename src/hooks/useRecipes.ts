@@ -1,16 +1,200 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Recipe } from '@/types/recipe';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { RecipeNutrition } from '@/lib/nutrition';
+import { normalizeUnit, parseQuantity } from '@/lib/ingredients';
+import { canonicalizeUrl } from '@/lib/canonicalUrl';
+import { mergeRecipeFields } from '@/lib/duplicates';
+import { linkIngredientsToSteps, parseStepUses } from '@/lib/stepIngredients';
+import { hasSections } from '@/lib/sections';
+
+// Combine a recipe row with its ingredient and comment rows
+export const formatRecipe = (
+  recipe: Tables<'recipes'>,
+  ingredientsData: Tables<'ingredients'>[],
+  commentsData: Tables<'comments'>[]
+): Recipe => ({
+  id: recipe.id,
+  title: recipe.title,
+  description: recipe.description || '',
+  image: recipe.image || '',
+  rating: Number(recipe.rating) || 0,
+  tags: recipe.tags || [],
+  // Rows saved before steps were linked are matched against the step text
+  ingredients: linkIngredientsToSteps(ingredientsData
+    .filter(ingredient => ingredient.recipe_id === recipe.id)
+    .map(ingredient => ({
+      id: ingredient.id,
+      name: ingredient.name,
+      amount: ingredient.amount,
+      unit: ingredient.unit,
+      packageSize: ingredient.package_size || undefined,
+      // Rows saved before quantities were structured are parsed on the fly
+      quantity: ingredient.quantity_value !== null
+        ? { value: Number(ingredient.quantity_value), ...(ingredient.quantity_max !== null ? { max: Number(ingredient.quantity_max) } : {}) }
+        : parseQuantity(ingredient.amount),
+      canonicalUnit: ingredient.canonical_unit ?? normalizeUnit(ingredient.unit),
+      preparation: ingredient.preparation || '',
+      originalText: ingredient.original_text || '',
+      steps: parseStepUses(ingredient.steps),
+      group: ingredient.group_name || undefined
+    })), recipe.instructions || [], true),
+  instructions: recipe.instructions || [],
+  instructionGroups: recipe.instruction_groups ?? undefined,
+  cookTime: recipe.cook_time || 0,
+  servings: recipe.servings || 1,
+  calories: typeof recipe.calories === 'number' ? recipe.calories : undefined,
+  nutrition: (recipe.nutrition as unknown as RecipeNutrition) || undefined,
+  websiteUrl: recipe.website_url || '',
+  comments: commentsData
+    .filter(comment => comment.recipe_id === recipe.id)
+    .map(comment => ({
+      id: comment.id,
+      text: comment.text,
+      date: new Date(comment.created_at),
+      rating: Number(comment.rating) || undefined
+    })),
+  createdAt: new Date(recipe.created_at),
+  updatedAt: new Date(recipe.updated_at)
+});
+
+// The recipes row for a recipe, without its id
+const toRecipeRow = (recipe: Recipe) => ({
+  title: recipe.title,
+  description: recipe.description,
+  image: recipe.image,
+  rating: recipe.rating,
+  tags: recipe.tags,
+  instructions: recipe.instructions,
+  instruction_groups: hasSections(recipe.instructionGroups ?? [])
+    ? recipe.instructions.map((_, index) => recipe.instructionGroups?.[index]?.trim() ?? '')
+    : null,
+  cook_time: recipe.cookTime,
+  servings: recipe.servings,
+  website_url: recipe.websiteUrl,
+  canonical_url: recipe.websiteUrl ? canonicalizeUrl(recipe.websiteUrl) : null,
+  calories: typeof recipe.calories === 'number' ? recipe.calories : null,
+  nutrition: (recipe.nutrition as unknown as Json) ?? null
+});
+
+// The ingredient rows of a recipe; ones added without step links are linked by name
+const toIngredientRows = (recipe: Recipe, recipeId: string) =>
+  linkIngredientsToSteps(recipe.ingredients, recipe.instructions, true).map(ingredient => ({
+    recipe_id: recipeId,
+    name: ingredient.name,
+    amount: ingredient.amount,
+    unit: ingredient.unit,
+    package_size: ingredient.packageSize || null,
+    quantity_value: ingredient.quantity?.value ?? null,
+    quantity_max: ingredient.quantity?.max ?? null,
+    canonical_unit: ingredient.canonicalUnit ?? null,
+    preparation: ingredient.preparation || null,
+    original_text: ingredient.originalText || null,
+    steps: ingredient.steps?.map(({ step, amount }) => (amount?.trim() ? { step, amount: amount.trim() } : { step })) ?? null,
+    group_name: ingredient.group?.trim() || null
+  }));
+
+// Create or update a recipe together with its ingredients, returning its id
+export const persistRecipe = async (recipe: Recipe): Promise<string> => {
+  const isNew = !recipe.id || recipe.id.startsWith('temp-');
+  const recipeRow = toRecipeRow(recipe);
+  let recipeId = recipe.id;
+
+  if (isNew) {
+    // Create new recipe
+    const { data: newRecipe, error: recipeError } = await supabase
+      .from('recipes')
+      .insert(recipeRow)
+      .select()
+      .single();
+
+    if (recipeError) throw recipeError;
+    recipeId = newRecipe.id;
+  } else {
+    // Update existing recipe
+    const { error: recipeError } = await supabase
+      .from('recipes')
+      .update(recipeRow)
+      .eq('id', recipe.id);
+
+    if (recipeError) throw recipeError;
+
+    // Delete existing ingredients and insert new ones
+    await supabase.from('ingredients').delete().eq('recipe_id', recipe.id);
+  }
+
+  const ingredientRows = toIngredientRows(recipe, recipeId);
+  if (ingredientRows.length > 0) {
+    const { error: ingredientsError } = await supabase
+      .from('ingredients')
+      .insert(ingredientRows);
+
+    if (ingredientsError) throw ingredientsError;
+  }
+
+  return recipeId;
+};
+
+export const removeRecipe = async (recipeId: string) => {
+  const { error } = await supabase
+    .from('recipes')
+    .delete()
+    .eq('id', recipeId);
+
+  if (error) throw error;
+};
+
+// Recipes already saved from the same page as `url`, however that page was linked
+export const findRecipesByUrl = async (url: string, excludeId?: string): Promise<Pick<Recipe, 'id' | 'title'>[]> => {
+  const canonicalUrl = canonicalizeUrl(url);
+  if (!canonicalUrl) return [];
+
+  const { data, error } = await supabase
+    .from('recipes')
+    .select('id, title')
+    .eq('canonical_url', canonicalUrl);
+
+  if (error) throw error;
+  return (data || []).filter(recipe => recipe.id !== excludeId);
+};
+
+// Fold `duplicate` into `primary`: tags, ratings and missing details are combined,
+// comments, import records, collection places and planned meals are moved over, and the
+// duplicate is deleted. The merge_recipes function does all of it in one transaction, so
+// a failure part way leaves both recipes as they were.
+export const mergeRecipes = async (primary: Recipe, duplicate: Recipe): Promise<string> => {
+  const merged = mergeRecipeFields(primary, duplicate);
+  const { data, error } = await supabase.rpc('merge_recipes', {
+    p_primary_id: primary.id,
+    p_duplicate_id: duplicate.id,
+    p_recipe: toRecipeRow(merged),
+    p_ingredients: toIngredientRows(merged, primary.id)
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const insertComment = async (recipeId: string, commentText: string) => {
+  const { error } = await supabase
+    .from('comments')
+    .insert({
+      recipe_id: recipeId,
+      text: commentText
+    });
+
+  if (error) throw error;
+};
 
 export const useRecipes = () => {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [loading, setLoading] = useState(true);
 
   // Fetch recipes with ingredients and comments
-  const fetchRecipes = async () => {
+  const fetchRecipes = useCallback(async () => {
+    // Only the first load shows a loading state; later refreshes update the list in place
     try {
-      setLoading(true);
-      
       // Fetch recipes
       const { data: recipesData, error: recipesError } = await supabase
         .from('recipes')
@@ -35,37 +219,9 @@ export const useRecipes = () => {
       if (commentsError) throw commentsError;
 
       // Combine the data
-      const formattedRecipes: Recipe[] = (recipesData || []).map(recipe => ({
-        id: recipe.id,
-        title: recipe.title,
-        description: recipe.description || '',
-        image: recipe.image || '',
-        rating: Number(recipe.rating) || 0,
-        tags: recipe.tags || [],
-        ingredients: (ingredientsData || [])
-          .filter(ingredient => ingredient.recipe_id === recipe.id)
-          .map(ingredient => ({
-            id: ingredient.id,
-            name: ingredient.name,
-            amount: ingredient.amount,
-            unit: ingredient.unit
-          })),
-        instructions: recipe.instructions || [],
-        cookTime: recipe.cook_time || 0,
-        servings: recipe.servings || 1,
-        calories: typeof recipe.calories === 'number' ? recipe.calories : undefined,
-        websiteUrl: recipe.website_url || '',
-        comments: (commentsData || [])
-          .filter(comment => comment.recipe_id === recipe.id)
-          .map(comment => ({
-            id: comment.id,
-            text: comment.text,
-            date: new Date(comment.created_at),
-            rating: Number(comment.rating) || undefined
-          })),
-        createdAt: new Date(recipe.created_at),
-        updatedAt: new Date(recipe.updated_at)
-      }));
+      const formattedRecipes: Recipe[] = (recipesData || []).map(recipe =>
+        formatRecipe(recipe, ingredientsData || [], commentsData || [])
+      );
 
       setRecipes(formattedRecipes);
     } catch (error) {
@@ -73,89 +229,14 @@ export const useRecipes = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
 
   // Save recipe (create or update)
   const saveRecipe = async (recipe: Recipe) => {
     try {
-      const isNew = !recipe.id || recipe.id.startsWith('temp-');
-      
-      if (isNew) {
-        // Create new recipe
-        const { data: newRecipe, error: recipeError } = await supabase
-          .from('recipes')
-          .insert({
-            title: recipe.title,
-            description: recipe.description,
-            image: recipe.image,
-            rating: recipe.rating,
-            tags: recipe.tags,
-            instructions: recipe.instructions,
-            cook_time: recipe.cookTime,
-            servings: recipe.servings,
-            website_url: recipe.websiteUrl,
-            calories: typeof recipe.calories === 'number' ? recipe.calories : null
-          })
-          .select()
-          .single();
-
-        if (recipeError) throw recipeError;
-
-        // Insert ingredients
-        if (recipe.ingredients.length > 0) {
-          const { error: ingredientsError } = await supabase
-            .from('ingredients')
-            .insert(
-              recipe.ingredients.map(ingredient => ({
-                recipe_id: newRecipe.id,
-                name: ingredient.name,
-                amount: ingredient.amount,
-                unit: ingredient.unit
-              }))
-            );
-
-          if (ingredientsError) throw ingredientsError;
-        }
-      } else {
-        // Update existing recipe
-        const { error: recipeError } = await supabase
-          .from('recipes')
-          .update({
-            title: recipe.title,
-            description: recipe.description,
-            image: recipe.image,
-            rating: recipe.rating,
-            tags: recipe.tags,
-            instructions: recipe.instructions,
-            cook_time: recipe.cookTime,
-            servings: recipe.servings,
-            website_url: recipe.websiteUrl,
-            calories: typeof recipe.calories === 'number' ? recipe.calories : null
-          })
-          .eq('id', recipe.id);
-
-        if (recipeError) throw recipeError;
-
-        // Delete existing ingredients and insert new ones
-        await supabase.from('ingredients').delete().eq('recipe_id', recipe.id);
-        
-        if (recipe.ingredients.length > 0) {
-          const { error: ingredientsError } = await supabase
-            .from('ingredients')
-            .insert(
-              recipe.ingredients.map(ingredient => ({
-                recipe_id: recipe.id,
-                name: ingredient.name,
-                amount: ingredient.amount,
-                unit: ingredient.unit
-              }))
-            );
-
-          if (ingredientsError) throw ingredientsError;
-        }
-      }
-
+      const recipeId = await persistRecipe(recipe);
       await fetchRecipes(); // Refresh the list
+      return recipeId;
     } catch (error) {
       console.error('Error saving recipe:', error);
       throw error;
@@ -165,13 +246,7 @@ export const useRecipes = () => {
   // Delete recipe
   const deleteRecipe = async (recipeId: string) => {
     try {
-      const { error } = await supabase
-        .from('recipes')
-        .delete()
-        .eq('id', recipeId);
-
-      if (error) throw error;
-
+      await removeRecipe(recipeId);
       await fetchRecipes(); // Refresh the list
     } catch (error) {
       console.error('Error deleting recipe:', error);
@@ -179,18 +254,21 @@ export const useRecipes = () => {
     }
   };
 
+  // Merge a duplicate into the recipe being kept
+  const mergeDuplicate = async (primary: Recipe, duplicate: Recipe) => {
+    try {
+      await mergeRecipes(primary, duplicate);
+      await fetchRecipes(); // Refresh the list
+    } catch (error) {
+      console.error('Error merging recipes:', error);
+      throw error;
+    }
+  };
+
   // Add comment to recipe
   const addComment = async (recipeId: string, commentText: string) => {
     try {
-      const { error } = await supabase
-        .from('comments')
-        .insert({
-          recipe_id: recipeId,
-          text: commentText
-        });
-
-      if (error) throw error;
-
+      await insertComment(recipeId, commentText);
       await fetchRecipes(); // Refresh to get the new comment
     } catch (error) {
       console.error('Error adding comment:', error);
@@ -200,7 +278,7 @@ export const useRecipes = () => {
 
   useEffect(() => {
     fetchRecipes();
-  }, []);
+  }, [fetchRecipes]);
 
   return {
     recipes,
@@ -208,6 +286,7 @@ export const useRecipes = () => {
     saveRecipe,
     deleteRecipe,
     addComment,
+    mergeDuplicate,
     refetch: fetchRecipes
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ShoppingListItem = Tables<'shopping_list_items'>;
+
+const upsertItem = (items: ShoppingListItem[], item: ShoppingListItem) =>
+  [...items.filter(existing => existing.id !== item.id), item].sort((a, b) => a.position - b.position);
+
+// One shopping list, kept current over Realtime so everyone shopping sees the same ticks
+export const useShoppingList = (listId: string | undefined) => {
+  const [list, setList] = useState<Tables<'shopping_lists'> | null>(null);
+  const [items, setItems] = useState<ShoppingListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setList(null);
+    setItems([]);
+    if (!listId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const load = async () => {
+      const [{ data: listData, error: listError }, { data: itemsData, error: itemsError }] = await Promise.all([
+        supabase.from('shopping_lists').select('*').eq('id', listId).maybeSingle(),
+        supabase.from('shopping_list_items').select('*').eq('list_id', listId).order('position')
+      ]);
+
+      if (listError || itemsError) {
+        console.error('Error loading shopping list:', listError || itemsError);
+      } else if (!cancelled) {
+        setList(listData);
+        setItems(itemsData || []);
+      }
+      if (!cancelled) setLoading(false);
+    };
+
+    // Subscribe before loading so no update falls between the two
+    const channel = supabase
+      .channel(`shopping-list-${listId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'shopping_list_items', filter: `list_id=eq.${listId}` },
+        payload => {
+          if (payload.eventType === 'DELETE') {
+            setItems(prev => prev.filter(item => item.id !== (payload.old as Partial<ShoppingListItem>).id));
+          } else {
+            setItems(prev => upsertItem(prev, payload.new as ShoppingListItem));
+          }
+        }
+      )
+      .subscribe();
+
+    load();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [listId]);
+
+  // Ticked straight away, then saved
+  const setChecked = async (id: string, checked: boolean) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, checked } : item)));
+    const { error } = await supabase
+      .from('shopping_list_items')
+      .update({ checked })
+      .eq('id', id);
+
+    if (error) {
+      setItems(prev => prev.map(item => (item.id === id ? { ...item, checked: !checked } : item)));
+      throw error;
+    }
+  };
+
+  // Extras typed in by hand go at the end, under "Other"
+  const addItem = async (name: string) => {
+    if (!listId) return;
+    const { data, error } = await supabase
+      .from('shopping_list_items')
+      .insert({ list_id: listId, name, aisle: 'other', position: items.reduce((last, item) => Math.max(last, item.position + 1), 0) })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    setItems(prev => upsertItem(prev, data));
+  };
+
+  const removeItem = async (id: string) => {
+    const { error } = await supabase
+      .from('shopping_list_items')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  return {
+    list,
+    items,
+    loading,
+    setChecked,
+    addItem,
+    removeItem
+  };
+};
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ShoppingItem } from '@/lib/shoppingList';
+
+export type ShoppingList = Tables<'shopping_lists'> & {
+  itemCount: number;
+  checkedCount: number;
+};
+
+// Save a generated list; items keep the order they were generated in
+export const createShoppingList = async (name: string, items: ShoppingItem[]): Promise<string> => {
+  const { data: list, error } = await supabase
+    .from('shopping_lists')
+    .insert({ name })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  if (items.length > 0) {
+    const { error: itemsError } = await supabase
+      .from('shopping_list_items')
+      .insert(items.map((item, position) => ({ list_id: list.id, ...item, position })));
+
+    if (itemsError) throw itemsError;
+  }
+
+  return list.id;
+};
+
+export const useShoppingLists = () => {
+  const [lists, setLists] = useState<ShoppingList[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchLists = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('shopping_lists')
+        .select('*, shopping_list_items(checked)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setLists((data || []).map(({ shopping_list_items: items, ...list }) => ({
+        ...list,
+        itemCount: items.length,
+        checkedCount: items.filter(item => item.checked).length,
+      })));
+    } catch (error) {
+      console.error('Error fetching shopping lists:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const deleteList = async (id: string) => {
+    const { error } = await supabase
+      .from('shopping_lists')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+    await fetchLists();
+  };
+
+  useEffect(() => {
+    fetchLists();
+  }, [fetchLists]);
+
+  return {
+    lists,
+    loading,
+    deleteList,
+    refetch: fetchLists
+  };
+};
@@ -0,0 +1,34 @@
+import { useEffect } from 'react';
+
+// Keep the screen on while active. The browser drops the lock when the tab is hidden,
+// so it is asked for again on return. Browsers without the Wake Lock API are left alone.
+export const useWakeLock = (active: boolean) => {
+  useEffect(() => {
+    if (!active || !('wakeLock' in navigator)) return;
+
+    let lock: WakeLockSentinel | null = null;
+    let released = false;
+
+    const request = async () => {
+      try {
+        lock = await navigator.wakeLock.request('screen');
+        if (released) lock.release();
+      } catch (error) {
+        console.error('Error keeping the screen awake:', error);
+      }
+    };
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') request();
+    };
+
+    request();
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      released = true;
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      lock?.release();
+    };
+  }, [active]);
+};
@@ -14,6 +14,69 @@ export type Database = {
   }
   public: {
     Tables: {
+      collection_recipes: {
+        Row: {
+          added_at: string
+          collection_id: string
+          position: number
+          recipe_id: string
+        }
+        Insert: {
+          added_at?: string
+          collection_id: string
+          position?: number
+          recipe_id: string
+        }
+        Update: {
+          added_at?: string
+          collection_id?: string
+          position?: number
+          recipe_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_recipes_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_recipes_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          name: string
+          search_params: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          name: string
+          search_params?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          name?: string
+          search_params?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       comments: {
         Row: {
           created_at: string | null
@@ -46,6 +109,204 @@ export type Database = {
           },
         ]
       }
+      extraction_cache: {
+        Row: {
+          canonical_url: string
+          expires_at: string
+          extracted_at: string
+          html_hash: string
+          result: Json
+          source_url: string
+          updated_at: string
+        }
+        Insert: {
+          canonical_url: string
+          expires_at: string
+          extracted_at?: string
+          html_hash: string
+          result: Json
+          source_url: string
+          updated_at?: string
+        }
+        Update: {
+          canonical_url?: string
+          expires_at?: string
+          extracted_at?: string
+          html_hash?: string
+          result?: Json
+          source_url?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      import_job_rows: {
+        Row: {
+          attempts: number
+          created_at: string
+          details: Json | null
+          error: string | null
+          finished_at: string | null
+          id: string
+          job_id: string
+          next_attempt_at: string
+          position: number
+          recipe_id: string | null
+          started_at: string | null
+          status: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          details?: Json | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          job_id: string
+          next_attempt_at?: string
+          position: number
+          recipe_id?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          details?: Json | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          job_id?: string
+          next_attempt_at?: string
+          position?: number
+          recipe_id?: string | null
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_job_rows_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_job_rows_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_jobs: {
+        Row: {
+          created_at: string
+          failed_rows: number
+          finished_at: string | null
+          force: boolean
+          id: string
+          imported_rows: number
+          skipped_rows: number
+          source: string
+          source_ref: Json
+          started_at: string | null
+          status: string
+          total_rows: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          failed_rows?: number
+          finished_at?: string | null
+          force?: boolean
+          id?: string
+          imported_rows?: number
+          skipped_rows?: number
+          source: string
+          source_ref?: Json
+          started_at?: string | null
+          status?: string
+          total_rows?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          failed_rows?: number
+          finished_at?: string | null
+          force?: boolean
+          id?: string
+          imported_rows?: number
+          skipped_rows?: number
+          source?: string
+          source_ref?: Json
+          started_at?: string | null
+          status?: string
+          total_rows?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      import_sources: {
+        Row: {
+          created_at: string
+          default_tags: string[]
+          enabled: boolean
+          has_header_row: boolean
+          id: string
+          last_imported_at: string | null
+          name: string
+          notes_column: string | null
+          sheet_name: string
+          spreadsheet_id: string
+          submitter_column: string | null
+          tags_column: string | null
+          title_column: string | null
+          updated_at: string
+          url_column: string
+        }
+        Insert: {
+          created_at?: string
+          default_tags?: string[]
+          enabled?: boolean
+          has_header_row?: boolean
+          id?: string
+          last_imported_at?: string | null
+          name: string
+          notes_column?: string | null
+          sheet_name?: string
+          spreadsheet_id: string
+          submitter_column?: string | null
+          tags_column?: string | null
+          title_column?: string | null
+          updated_at?: string
+          url_column?: string
+        }
+        Update: {
+          created_at?: string
+          default_tags?: string[]
+          enabled?: boolean
+          has_header_row?: boolean
+          id?: string
+          last_imported_at?: string | null
+          name?: string
+          notes_column?: string | null
+          sheet_name?: string
+          spreadsheet_id?: string
+          submitter_column?: string | null
+          tags_column?: string | null
+          title_column?: string | null
+          updated_at?: string
+          url_column?: string
+        }
+        Relationships: []
+      }
       imported_recipe_urls: {
         Row: {
           created_at: string
@@ -87,26 +348,50 @@ export type Database = {
       ingredients: {
         Row: {
           amount: string
+          canonical_unit: string | null
           created_at: string | null
+          group_name: string | null
           id: string
           name: string
+          original_text: string | null
+          package_size: string | null
+          preparation: string | null
+          quantity_max: number | null
+          quantity_value: number | null
           recipe_id: string
+          steps: Json | null
           unit: string
         }
         Insert: {
           amount: string
+          canonical_unit?: string | null
           created_at?: string | null
+          group_name?: string | null
           id?: string
           name: string
+          original_text?: string | null
+          package_size?: string | null
+          preparation?: string | null
+          quantity_max?: number | null
+          quantity_value?: number | null
           recipe_id: string
+          steps?: Json | null
           unit: string
         }
         Update: {
           amount?: string
+          canonical_unit?: string | null
           created_at?: string | null
+          group_name?: string | null
           id?: string
           name?: string
+          original_text?: string | null
+          package_size?: string | null
+          preparation?: string | null
+          quantity_max?: number | null
+          quantity_value?: number | null
           recipe_id?: string
+          steps?: Json | null
           unit?: string
         }
         Relationships: [
@@ -119,15 +404,119 @@ export type Database = {
           },
         ]
       }
+      meal_plan_entries: {
+        Row: {
+          created_at: string
+          id: string
+          meal_slot: string
+          plan_id: string
+          planned_on: string
+          position: number
+          recipe_id: string
+          servings: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          meal_slot?: string
+          plan_id: string
+          planned_on: string
+          position?: number
+          recipe_id: string
+          servings?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          meal_slot?: string
+          plan_id?: string
+          planned_on?: string
+          position?: number
+          recipe_id?: string
+          servings?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_plan_entries_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "meal_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_plan_entries_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: false
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meal_plans: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      recipe_search: {
+        Row: {
+          content: string
+          document: unknown
+          recipe_id: string
+          updated_at: string
+        }
+        Insert: {
+          content?: string
+          document: unknown
+          recipe_id: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          document?: unknown
+          recipe_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recipe_search_recipe_id_fkey"
+            columns: ["recipe_id"]
+            isOneToOne: true
+            referencedRelation: "recipes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       recipes: {
         Row: {
           calories: number | null
+          canonical_url: string | null
           cook_time: number | null
           created_at: string | null
           description: string | null
           id: string
           image: string | null
+          instruction_groups: string[] | null
           instructions: string[] | null
+          nutrition: Json | null
           rating: number | null
           servings: number | null
           tags: string[] | null
@@ -138,12 +527,15 @@ export type Database = {
         }
         Insert: {
           calories?: number | null
+          canonical_url?: string | null
           cook_time?: number | null
           created_at?: string | null
           description?: string | null
           id?: string
           image?: string | null
+          instruction_groups?: string[] | null
           instructions?: string[] | null
+          nutrition?: Json | null
           rating?: number | null
           servings?: number | null
           tags?: string[] | null
@@ -154,12 +546,15 @@ export type Database = {
         }
         Update: {
           calories?: number | null
+          canonical_url?: string | null
           cook_time?: number | null
           created_at?: string | null
           description?: string | null
           id?: string
           image?: string | null
+          instruction_groups?: string[] | null
           instructions?: string[] | null
+          nutrition?: Json | null
           rating?: number | null
           servings?: number | null
           tags?: string[] | null
@@ -170,12 +565,126 @@ export type Database = {
         }
         Relationships: []
       }
+      shopping_list_items: {
+        Row: {
+          aisle: string
+          amount: string
+          checked: boolean
+          created_at: string
+          detail: string
+          id: string
+          list_id: string
+          name: string
+          position: number
+          recipes: string[]
+          updated_at: string
+        }
+        Insert: {
+          aisle?: string
+          amount?: string
+          checked?: boolean
+          created_at?: string
+          detail?: string
+          id?: string
+          list_id: string
+          name: string
+          position?: number
+          recipes?: string[]
+          updated_at?: string
+        }
+        Update: {
+          aisle?: string
+          amount?: string
+          checked?: boolean
+          created_at?: string
+          detail?: string
+          id?: string
+          list_id?: string
+          name?: string
+          position?: number
+          recipes?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shopping_list_items_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "shopping_lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shopping_lists: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_import_rows: {
+        Args: { p_job_id: string; p_limit: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          details: Json | null
+          error: string | null
+          finished_at: string | null
+          id: string
+          job_id: string
+          next_attempt_at: string
+          position: number
+          recipe_id: string | null
+          started_at: string | null
+          status: string
+          updated_at: string
+          url: string
+        }[]
+      }
+      merge_recipes: {
+        Args: {
+          p_duplicate_id: string
+          p_ingredients: Json
+          p_primary_id: string
+          p_recipe: Json
+        }
+        Returns: string
+      }
+      recipe_search_vector: {
+        Args: { p_text: string; p_weight: string }
+        Returns: unknown
+      }
+      refresh_recipe_search: {
+        Args: { p_recipe_id: string }
+        Returns: undefined
+      }
+      search_recipes: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: {
+          rank: number
+          recipe_id: string
+          snippet: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
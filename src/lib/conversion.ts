@@ -0,0 +1,126 @@
+import { Ingredient } from "@/types/recipe";
+import { MeasurementSystem, Quantity, UnitDefinition, findDensity, getUnit, isWeighedStaple } from "@/lib/ingredients";
+import { formatAmount } from "@/lib/scaling";
+import { transformWithStepAmounts } from "@/lib/stepIngredients";
+
+// "original" shows recipes exactly as written
+export type MeasurementPreference = "original" | MeasurementSystem;
+
+// Spoon measures are used the same way in both systems, so they are left alone
+const SPOON_UNITS = new Set(["tsp", "tbsp"]);
+
+interface Target {
+  unitId: string;
+  value: number;
+}
+
+// Choose the most readable metric unit for an amount in grams or millilitres
+function metricTarget(dimension: "mass" | "volume", base: number): Target {
+  if (dimension === "mass") {
+    return base >= 1000 ? { unitId: "kg", value: base / 1000 } : { unitId: "g", value: base };
+  }
+  return base >= 1000 ? { unitId: "l", value: base / 1000 } : { unitId: "ml", value: base };
+}
+
+// Choose the most readable imperial unit for an amount in grams or millilitres
+function imperialTarget(dimension: "mass" | "volume", base: number): Target {
+  if (dimension === "mass") {
+    const ounces = base / getUnit("oz").toBase;
+    return ounces >= 16 ? { unitId: "lb", value: ounces / 16 } : { unitId: "oz", value: ounces };
+  }
+  // Compared with the spoon sizes themselves so an exact tablespoon is not shown as 3 tsp
+  if (base < getUnit("tbsp").toBase - 0.01) return { unitId: "tsp", value: base / getUnit("tsp").toBase };
+  if (base < getUnit("cup").toBase / 4 - 0.01) return { unitId: "tbsp", value: base / getUnit("tbsp").toBase };
+  return { unitId: "cup", value: base / getUnit("cup").toBase };
+}
+
+// Metric amounts are rounded to what a scale or jug can show
+function formatMetric(value: number, unitId: string): string {
+  if (unitId === "kg" || unitId === "l") return String(Math.round(value * 100) / 100);
+  if (value >= 100) return String(Math.round(value / 5) * 5);
+  if (value >= 10) return String(Math.round(value));
+  return String(Math.round(value * 10) / 10);
+}
+
+function convertValue(value: number, from: UnitDefinition, system: MeasurementSystem, gramsPerMl: number | null, weigh: boolean): Target | null {
+  let dimension = from.dimension as "mass" | "volume";
+  let base = value * from.toBase;
+
+  if (system === "metric" && dimension === "volume" && weigh && gramsPerMl) {
+    // Cups of flour become grams of flour
+    dimension = "mass";
+    base = base * gramsPerMl;
+  } else if (system === "imperial" && dimension === "mass" && weigh && gramsPerMl) {
+    // Grams of flour become cups of flour
+    dimension = "volume";
+    base = base / gramsPerMl;
+  }
+
+  return system === "metric" ? metricTarget(dimension, base) : imperialTarget(dimension, base);
+}
+
+// A total in grams or millilitres as a readable amount and unit, e.g. "1 1/2 cups" or "450 g"
+export function formatBaseAmount(dimension: "mass" | "volume", base: number, system: MeasurementSystem): string {
+  const target = system === "metric" ? metricTarget(dimension, base) : imperialTarget(dimension, base);
+  const unit = getUnit(target.unitId);
+  const amount = system === "metric" ? formatMetric(target.value, target.unitId) : formatAmount(target.value);
+  return `${amount} ${target.value > 1 ? unit.plural : unit.label}`;
+}
+
+// Express an ingredient in the chosen measurement system without touching the stored recipe
+export function convertIngredient(ingredient: Ingredient, preference: MeasurementPreference): Ingredient {
+  if (preference === "original" || !ingredient.quantity) return ingredient;
+
+  const from = getUnit(ingredient.canonicalUnit);
+  if (!from || from.dimension === "count" || SPOON_UNITS.has(from.id)) return ingredient;
+  if (from.system === preference) return ingredient;
+
+  const density = findDensity(ingredient.name);
+  const weigh = isWeighedStaple(ingredient.name);
+  const low = convertValue(ingredient.quantity.value, from, preference, density?.gramsPerMl ?? null, weigh);
+  const high = ingredient.quantity.max !== undefined
+    ? convertValue(ingredient.quantity.max, from, preference, density?.gramsPerMl ?? null, weigh)
+    : null;
+  if (!low) return ingredient;
+
+  const unit = getUnit(low.unitId);
+  const format = (value: number) => preference === "metric" ? formatMetric(value, low.unitId) : formatAmount(value);
+  const quantity: Quantity = high ? { value: low.value, max: high.value * (getUnit(high.unitId).toBase / unit.toBase) } : { value: low.value };
+  const amount = quantity.max !== undefined ? `${format(quantity.value)}-${format(quantity.max)}` : format(quantity.value);
+
+  return {
+    ...ingredient,
+    amount,
+    unit: (quantity.max ?? quantity.value) > 1 ? unit.plural : unit.label,
+    quantity,
+    canonicalUnit: unit.id
+  };
+}
+
+export function convertIngredients(ingredients: Ingredient[], preference: MeasurementPreference): Ingredient[] {
+  return ingredients.map(ingredient => transformWithStepAmounts(ingredient, portion => convertIngredient(portion, preference)));
+}
+
+// Oven temperatures: "350°F", "350 degrees F", "180 °C", "200 degrees Celsius", and ranges
+// such as "350-375°F", where the unit after the upper end covers both
+const TEMPERATURE_PATTERN = /\b(?:(\d{2,3})\s*[-–]\s*)?(\d{2,3})(\s*(?:°|º|degrees?|deg\.?)\s*|°?\s*)(F|C|Fahrenheit|Celsius)\b/gi;
+
+// Rewrite temperatures inside an instruction to the chosen system
+export function convertTemperatures(text: string, preference: MeasurementPreference): string {
+  if (preference === "original") return text;
+
+  return text.replace(TEMPERATURE_PATTERN, (match, low: string | undefined, degrees: string, _separator: string, scale: string) => {
+    const isFahrenheit = scale[0].toUpperCase() === "F";
+    const range = (convert: (value: number) => number, unit: string) =>
+      low ? `${convert(Number(low))}-${convert(Number(degrees))}${unit}` : `${convert(Number(degrees))}${unit}`;
+
+    if (preference === "metric" && isFahrenheit) {
+      return range(value => Math.round(((value - 32) * 5) / 9 / 5) * 5, "°C");
+    }
+    if (preference === "imperial" && !isFahrenheit) {
+      // Ovens are set in 25°F steps
+      return range(value => Math.round(((value * 9) / 5 + 32) / 25) * 25, "°F");
+    }
+    return match;
+  });
+}
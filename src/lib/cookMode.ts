@@ -0,0 +1,82 @@
+import { parseNumber } from "@/lib/ingredients";
+
+export interface StepDuration {
+  // The words as they appear in the step, e.g. "10–15 min"
+  text: string;
+  // Where the timer should go off; ranges start at their lower end so nothing overcooks
+  seconds: number;
+  maxSeconds?: number;
+}
+
+const UNIT_SECONDS: [RegExp, number][] = [
+  [/^(hours?|hrs?|שעות|שעה)$/i, 3600],
+  [/^(minutes?|mins?|דקות|דקה|דק')$/i, 60],
+  [/^(seconds?|secs?|שניות|שנייה|שניה)$/i, 1],
+];
+
+const NUMBER = "(\\d+(?:[.,]\\d+)?\\s*[½¼¾]?|[½¼¾]|an?|one|half an?|חצי)";
+const UNIT = "(hours?|hrs?|minutes?|mins?|seconds?|secs?|שעות|שעה|דקות|דקה|דק'|שניות|שנייה|שניה)";
+// "25 minutes", "10–15 min", "1½ hours", "an hour", "2 to 3 hrs", "20 דקות", not inside a longer word
+const DURATION_PATTERN = new RegExp(`(?<![\\p{L}\\d])${NUMBER}(?:\\s*(?:-|–|—|to|עד)\\s*${NUMBER})?\\s*${UNIT}(?![\\p{L}])`, "giu");
+// Hebrew writes "an hour" and "half an hour" without a number
+const BARE_HEBREW_HOURS: Record<string, number> = { "שעה": 3600, "חצי שעה": 1800, "שעתיים": 7200 };
+
+const parseCount = (token: string): number | null => {
+  const text = token.trim().toLowerCase();
+  if (text === "a" || text === "an" || text === "one") return 1;
+  if (text.startsWith("half") || text === "חצי") return 0.5;
+  return parseNumber(text);
+};
+
+const unitSeconds = (unit: string) => UNIT_SECONDS.find(([pattern]) => pattern.test(unit))?.[1] ?? null;
+
+// Cooking times mentioned in a step. "1 hour 30 minutes" is read as one duration.
+export const detectDurations = (step: string): StepDuration[] => {
+  const found: (StepDuration & { index: number; end: number; unit: number })[] = [];
+
+  for (const match of step.matchAll(DURATION_PATTERN)) {
+    const unit = unitSeconds(match[3]);
+    const low = parseCount(match[1]);
+    const high = match[2] ? parseCount(match[2]) : null;
+    if (!unit || low === null || low <= 0) continue;
+
+    const index = match.index ?? 0;
+    const previous = found[found.length - 1];
+    const gap = previous ? step.slice(previous.end, index) : "";
+    if (previous && previous.unit > unit && !previous.maxSeconds && !high && /^\s*(?:and|ו)?\s*$/i.test(gap)) {
+      // The minutes part of "1 hour 30 minutes"
+      previous.seconds += low * unit;
+      previous.text = step.slice(previous.index, index + match[0].length);
+      previous.end = index + match[0].length;
+      previous.unit = unit;
+      continue;
+    }
+
+    found.push({
+      text: match[0],
+      seconds: Math.round(low * unit),
+      maxSeconds: high !== null && high > low ? Math.round(high * unit) : undefined,
+      index,
+      end: index + match[0].length,
+      unit,
+    });
+  }
+
+  if (found.length === 0) {
+    const bare = Object.keys(BARE_HEBREW_HOURS)
+      .sort((a, b) => b.length - a.length)
+      .find(words => new RegExp(`(^|\\s)${words}(?![\\p{L}])`, "u").test(step));
+    if (bare) return [{ text: bare, seconds: BARE_HEBREW_HOURS[bare] }];
+  }
+
+  return found.map(({ text, seconds, maxSeconds }) => ({ text, seconds, maxSeconds }));
+};
+
+// "4:05" or "1:02:30"
+export const formatTimer = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}` : `${minutes}:${rest}`;
+};
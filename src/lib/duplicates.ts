@@ -0,0 +1,130 @@
+import { Recipe } from "@/types/recipe";
+import { canonicalizeUrl } from "@/lib/canonicalUrl";
+import { normalizeIngredientName } from "@/lib/ingredients";
+
+export type DuplicateReason = "same-url" | "similar";
+
+export interface DuplicateCandidate {
+  key: string;
+  recipes: [Recipe, Recipe];
+  reason: DuplicateReason;
+  // 0-1; 1 for recipes saved from the same page
+  score: number;
+  titleSimilarity: number;
+  ingredientSimilarity: number | null;
+}
+
+// Pairs scoring at least this are flagged as probable duplicates
+const SIMILARITY_THRESHOLD = 0.7;
+
+// Ingredient lists shorter than this say too little to compare
+const MIN_INGREDIENTS_TO_COMPARE = 3;
+
+// Words that recipe titles add without changing which dish they describe
+const TITLE_FILLER = new Set([
+  "a", "an", "the", "and", "with", "recipe", "easy", "best", "simple", "quick", "homemade", "perfect",
+  "ultimate", "classic", "my", "of", "how", "to", "make",
+]);
+
+const titleWords = (title: string) =>
+  new Set(
+    title
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter(word => word && !TITLE_FILLER.has(word))
+  );
+
+// Shared members over total members, 0-1
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(value => {
+    if (b.has(value)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+const ingredientSet = (recipe: Recipe) =>
+  new Set(recipe.ingredients.map(ingredient => normalizeIngredientName(ingredient.name)).filter(Boolean));
+
+// Order-independent id for a pair, used to remember dismissed pairs
+export const duplicatePairKey = (a: Recipe, b: Recipe) => [a.id, b.id].sort().join(":");
+
+export const recipeCanonicalUrl = (recipe: Recipe) => (recipe.websiteUrl ? canonicalizeUrl(recipe.websiteUrl) : null);
+
+// How alike two recipes are by title and, when both list enough ingredients, by ingredient set
+export function compareRecipes(a: Recipe, b: Recipe): Omit<DuplicateCandidate, "key" | "recipes"> {
+  const titleSimilarity = jaccard(titleWords(a.title), titleWords(b.title));
+  const ingredientsA = ingredientSet(a);
+  const ingredientsB = ingredientSet(b);
+  const ingredientSimilarity =
+    ingredientsA.size >= MIN_INGREDIENTS_TO_COMPARE && ingredientsB.size >= MIN_INGREDIENTS_TO_COMPARE
+      ? jaccard(ingredientsA, ingredientsB)
+      : null;
+
+  const urlA = recipeCanonicalUrl(a);
+  if (urlA && urlA === recipeCanonicalUrl(b)) {
+    return { reason: "same-url", score: 1, titleSimilarity, ingredientSimilarity };
+  }
+
+  // Ingredients weigh more: titles are rewritten far more often than ingredient lists
+  const score = ingredientSimilarity === null ? titleSimilarity * 0.9 : titleSimilarity * 0.4 + ingredientSimilarity * 0.6;
+  return { reason: "similar", score, titleSimilarity, ingredientSimilarity };
+}
+
+// Probable duplicate pairs, strongest first, leaving out pairs already dismissed
+export function findDuplicateRecipes(recipes: Recipe[], dismissed: Set<string> = new Set()): DuplicateCandidate[] {
+  const candidates: DuplicateCandidate[] = [];
+
+  for (let i = 0; i < recipes.length; i++) {
+    for (let j = i + 1; j < recipes.length; j++) {
+      const [a, b] = [recipes[i], recipes[j]];
+      const key = duplicatePairKey(a, b);
+      if (dismissed.has(key)) continue;
+
+      const comparison = compareRecipes(a, b);
+      if (comparison.reason === "same-url" || comparison.score >= SIMILARITY_THRESHOLD) {
+        candidates.push({ key, recipes: [a, b], ...comparison });
+      }
+    }
+  }
+
+  return candidates.sort((x, y) => y.score - x.score);
+}
+
+// The recipe kept after merging `duplicate` into `primary`: tags are combined, ratings
+// averaged, and anything the primary is missing is taken from the duplicate
+export function mergeRecipeFields(primary: Recipe, duplicate: Recipe): Recipe {
+  const tags = [...primary.tags];
+  duplicate.tags.forEach(tag => {
+    if (!tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  });
+
+  const ratings = [primary.rating, duplicate.rating].filter(rating => rating > 0);
+  const rating = ratings.length > 0 ? Math.round((ratings.reduce((sum, value) => sum + value, 0) / ratings.length) * 10) / 10 : 0;
+
+  // Nutrition belongs to an ingredient list, so the two move together
+  const takeIngredients = primary.ingredients.length === 0 && duplicate.ingredients.length > 0;
+  const takeInstructions = primary.instructions.length === 0;
+  const ingredients = takeIngredients ? duplicate.ingredients : primary.ingredients;
+
+  return {
+    ...primary,
+    tags,
+    rating,
+    description: primary.description || duplicate.description,
+    image: primary.image || duplicate.image,
+    websiteUrl: primary.websiteUrl || duplicate.websiteUrl,
+    // Step links only hold within one recipe; mixed halves are linked again by name on save
+    ingredients: takeIngredients === takeInstructions
+      ? ingredients
+      : ingredients.map(ingredient => ({ ...ingredient, steps: undefined })),
+    calories: takeIngredients ? duplicate.calories : primary.calories,
+    nutrition: takeIngredients ? duplicate.nutrition : primary.nutrition,
+    instructions: takeInstructions ? duplicate.instructions : primary.instructions,
+    instructionGroups: takeInstructions ? duplicate.instructionGroups : primary.instructionGroups,
+    cookTime: primary.cookTime || duplicate.cookTime,
+    comments: [...primary.comments, ...duplicate.comments].sort((a, b) => b.date.getTime() - a.date.getTime()),
+  };
+}
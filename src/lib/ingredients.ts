@@ -0,0 +1,37 @@
+import { Ingredient } from "@/types/recipe";
+import { parseIngredient, parseQuantity } from "../../supabase/functions/_shared/ingredients.ts";
+import { normalizeUnit } from "../../supabase/functions/_shared/units.ts";
+
+export * from "../../supabase/functions/_shared/ingredients.ts";
+export * from "../../supabase/functions/_shared/units.ts";
+export * from "../../supabase/functions/_shared/densities.ts";
+
+// Recompute the structured quantity fields from an ingredient's amount and unit text
+export function withStructuredQuantity(ingredient: Ingredient): Ingredient {
+  return {
+    ...ingredient,
+    quantity: parseQuantity(ingredient.amount),
+    canonicalUnit: normalizeUnit(ingredient.unit)
+  };
+}
+
+// The amount as shown next to an ingredient: "1 (14 oz) can", "2 cups"
+export function formatIngredientAmount(ingredient: Ingredient): string {
+  return [ingredient.amount, ingredient.packageSize && `(${ingredient.packageSize})`, ingredient.unit].filter(Boolean).join(" ");
+}
+
+// Build an ingredient from a typed line such as "2 1/4 cups flour, sifted"
+export function ingredientFromText(id: string, line: string): Ingredient {
+  const parsed = parseIngredient(line);
+  return {
+    id,
+    name: parsed.name,
+    amount: parsed.amount,
+    unit: parsed.unit,
+    quantity: parsed.quantity,
+    canonicalUnit: parsed.canonicalUnit,
+    preparation: parsed.preparation,
+    originalText: parsed.originalText,
+    packageSize: parsed.packageSize
+  };
+}
@@ -0,0 +1,86 @@
+import { addDays, format, startOfWeek } from "date-fns";
+import { Recipe } from "@/types/recipe";
+import { addNutrition, emptyNutrition, NutritionFacts, roundNutrition, scaleNutrition } from "@/lib/nutrition";
+
+export type MealSlot = "breakfast" | "lunch" | "dinner" | "snack";
+
+export const MEAL_SLOTS: { value: MealSlot; label: string }[] = [
+  { value: "breakfast", label: "Breakfast" },
+  { value: "lunch", label: "Lunch" },
+  { value: "dinner", label: "Dinner" },
+  { value: "snack", label: "Snack" },
+];
+
+export interface MealPlanEntry {
+  id: string;
+  planId: string;
+  recipeId: string;
+  // Calendar day as yyyy-MM-dd, with no time zone attached
+  date: string;
+  slot: MealSlot;
+  // Overrides the recipe's own servings for this meal
+  servings: number | null;
+  position: number;
+}
+
+export interface NutritionTotal {
+  total: NutritionFacts;
+  // Meals whose recipe has no calorie figure yet, so the total is short
+  unknownMeals: number;
+}
+
+// Weeks start on Sunday, as the calendar shows them
+export const WEEK_STARTS_ON = 0;
+
+export const dateKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Local midnight of a yyyy-MM-dd key; new Date(key) would read it as UTC
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const weekDays = (date: Date): Date[] => {
+  const start = startOfWeek(date, { weekStartsOn: WEEK_STARTS_ON });
+  return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+};
+
+export const entryServings = (entry: MealPlanEntry, recipe: Recipe) => entry.servings ?? (recipe.servings || 1);
+
+// Nutrition for the servings planned: the per-serving breakdown when it has been worked
+// out, otherwise just the recipe's calories. Null when neither is known.
+export const entryNutrition = (entry: MealPlanEntry, recipe: Recipe): NutritionFacts | null => {
+  const servings = entryServings(entry, recipe);
+  if (recipe.nutrition) return scaleNutrition(recipe.nutrition.perServing, servings);
+  if (typeof recipe.calories === "number") return { ...emptyNutrition(), calories: recipe.calories * servings };
+  return null;
+};
+
+export const sumNutrition = (entries: MealPlanEntry[], recipesById: Map<string, Recipe>): NutritionTotal => {
+  let total = emptyNutrition();
+  let unknownMeals = 0;
+  entries.forEach(entry => {
+    const recipe = recipesById.get(entry.recipeId);
+    const nutrition = recipe ? entryNutrition(entry, recipe) : null;
+    if (nutrition) {
+      total = addNutrition(total, nutrition);
+    } else {
+      unknownMeals++;
+    }
+  });
+  return { total: roundNutrition(total), unknownMeals };
+};
+
+// Entries grouped by day key, each day in slot order then position
+export const entriesByDay = (entries: MealPlanEntry[]): Map<string, MealPlanEntry[]> => {
+  const slotOrder = (slot: MealSlot) => MEAL_SLOTS.findIndex(option => option.value === slot);
+  const days = new Map<string, MealPlanEntry[]>();
+  [...entries]
+    .sort((a, b) => slotOrder(a.slot) - slotOrder(b.slot) || a.position - b.position)
+    .forEach(entry => days.set(entry.date, [...(days.get(entry.date) ?? []), entry]));
+  return days;
+};
+
+// Drag-and-drop payloads: a recipe from the picker, or a meal already on the calendar
+export const RECIPE_DRAG_TYPE = "application/x-recipe-id";
+export const ENTRY_DRAG_TYPE = "application/x-meal-plan-entry";
@@ -0,0 +1,15 @@
+import { NutritionFacts } from "../../supabase/functions/_shared/nutrition.ts";
+
+export * from "../../supabase/functions/_shared/nutrition.ts";
+
+// Display labels, units and daily reference values (FDA, 2,000 kcal diet)
+export const NUTRIENT_INFO: { key: keyof NutritionFacts; label: string; unit: string; dailyValue: number }[] = [
+  { key: "calories", label: "Calories", unit: "kcal", dailyValue: 2000 },
+  { key: "protein", label: "Protein", unit: "g", dailyValue: 50 },
+  { key: "fat", label: "Fat", unit: "g", dailyValue: 78 },
+  { key: "saturatedFat", label: "Saturated fat", unit: "g", dailyValue: 20 },
+  { key: "carbs", label: "Carbohydrates", unit: "g", dailyValue: 275 },
+  { key: "fiber", label: "Fiber", unit: "g", dailyValue: 28 },
+  { key: "sugar", label: "Sugar", unit: "g", dailyValue: 50 },
+  { key: "sodium", label: "Sodium", unit: "mg", dailyValue: 2300 },
+];
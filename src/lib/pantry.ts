@@ -0,0 +1,110 @@
+import { Recipe } from "@/types/recipe";
+import { normalizeIngredientName } from "@/lib/ingredients";
+
+export interface PantryMatch {
+  recipe: Recipe;
+  // 0-1: share of the recipe's non-staple ingredients that are in the pantry
+  coverage: number;
+  // Ingredient names as written in the recipe
+  matched: string[];
+  missing: string[];
+}
+
+// Assumed to be in every kitchen, so they never count as missing
+const STAPLES = new Set([
+  "salt", "kosher salt", "sea salt", "table salt", "pepper", "black pepper", "salt and pepper", "water",
+  "oil", "olive oil", "virgin olive oil", "vegetable oil", "canola oil", "neutral oil", "sunflower oil",
+  "cooking spray", "ice", "מלח", "פלפל", "פלפל שחור", "מלח ופלפל", "מים", "שמן", "שמן זית", "שמן קנולה",
+]);
+
+// Names for the same ingredient; each group maps to its first entry
+const SYNONYM_GROUPS = [
+  ["scallion", "green onion", "spring onion"],
+  ["cilantro", "coriander", "coriander leaf", "כוסברה"],
+  ["chickpea", "garbanzo bean", "garbanzo", "חומוס"],
+  ["eggplant", "aubergine", "חציל"],
+  ["zucchini", "courgette", "קישוא"],
+  ["bell pepper", "capsicum", "sweet pepper", "פלפל אדום"],
+  ["tahini", "tahina", "sesame paste", "טחינה"],
+  ["lemon", "לימון"],
+  ["egg", "ביצה"],
+  ["garlic", "garlic clove", "clove garlic", "שום"],
+  ["onion", "yellow onion", "בצל"],
+  ["tomato", "עגבנייה", "עגבניה"],
+  ["parsley", "flat-leaf parsley", "פטרוזיליה"],
+  ["powdered sugar", "icing sugar", "confectioners sugar"],
+  ["baking soda", "bicarbonate of soda"],
+  ["all-purpose flour", "plain flour", "flour", "קמח"],
+  ["heavy cream", "double cream", "whipping cream"],
+  ["shrimp", "prawn"],
+  ["ground beef", "minced beef", "beef mince"],
+];
+
+const SYNONYMS = new Map(
+  SYNONYM_GROUPS.flatMap(group => {
+    const canonical = normalizeIngredientName(group[0]);
+    return group.map(name => [normalizeIngredientName(name), canonical] as const);
+  })
+);
+
+// Matching form of an ingredient name: normalized, then mapped to its synonym group
+export const pantryKey = (name: string) => {
+  const normalized = normalizeIngredientName(name);
+  return SYNONYMS.get(normalized) ?? normalized;
+};
+
+export const isStaple = (name: string) => STAPLES.has(normalizeIngredientName(name));
+
+// A pantry item covers an ingredient with the same key, or a more specific form of it:
+// "lemon" covers "lemon juice" and "lemon zest". Synonyms are mapped first, so "onion"
+// does not cover "green onion" (a scallion).
+const covers = (item: string, ingredient: string) => {
+  if (item === ingredient) return true;
+  const ingredientWords = new Set(ingredient.split(" "));
+  return item.split(" ").every(word => ingredientWords.has(word));
+};
+
+// Pantry items typed as "tahini, lemons" or one per line, without repeats
+export const parsePantryItems = (text: string): string[] => {
+  const seen = new Set<string>();
+  return text
+    .split(/[,\n]/)
+    .map(item => item.trim())
+    .filter(item => {
+      const key = pantryKey(item);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const matchPantry = (recipe: Recipe, pantry: string[]): PantryMatch => {
+  const items = pantry.map(pantryKey).filter(Boolean);
+  const matched: string[] = [];
+  const missing: string[] = [];
+
+  recipe.ingredients.forEach(ingredient => {
+    const key = pantryKey(ingredient.name);
+    if (!key || isStaple(ingredient.name)) return;
+    if (items.some(item => covers(item, key))) {
+      matched.push(ingredient.name);
+    } else {
+      missing.push(ingredient.name);
+    }
+  });
+
+  const counted = matched.length + missing.length;
+  return { recipe, coverage: counted > 0 ? matched.length / counted : 0, matched, missing };
+};
+
+// Recipes that use at least one pantry item, most complete first; ties go to the
+// recipe missing fewer items, then the better rated one
+export const rankByPantry = (recipes: Recipe[], pantry: string[]): PantryMatch[] =>
+  recipes
+    .map(recipe => matchPantry(recipe, pantry))
+    .filter(match => match.matched.length > 0)
+    .sort((a, b) =>
+      b.coverage - a.coverage ||
+      a.missing.length - b.missing.length ||
+      b.recipe.rating - a.recipe.rating
+    );
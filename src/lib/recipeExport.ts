@@ -0,0 +1,46 @@
+import { Ingredient, Recipe } from "@/types/recipe";
+import { formatIngredientAmount } from "@/lib/ingredients";
+import { ingredientSections, instructionSections } from "@/lib/sections";
+
+export const formatIngredientLine = (ingredient: Ingredient) =>
+  [formatIngredientAmount(ingredient), ingredient.name].filter(Boolean).join(" ") +
+  (ingredient.preparation ? `, ${ingredient.preparation}` : "");
+
+// Plain-text version of a recipe, using the ingredient amounts currently shown
+export const recipeToText = (recipe: Recipe, ingredients: Ingredient[], servings: number) => {
+  const lines = [recipe.title, ""];
+
+  if (recipe.description) {
+    lines.push(recipe.description, "");
+  }
+
+  lines.push(`Servings: ${servings}`);
+  if (recipe.cookTime) lines.push(`Cook time: ${recipe.cookTime} min`);
+  if (recipe.websiteUrl) lines.push(`Source: ${recipe.websiteUrl}`);
+
+  lines.push("", "Ingredients");
+  ingredientSections(ingredients).forEach(section => {
+    if (section.name) lines.push("", `${section.name}:`);
+    section.items.forEach(ingredient => lines.push(`- ${formatIngredientLine(ingredient)}`));
+  });
+
+  lines.push("", "Instructions");
+  instructionSections(recipe.instructions, recipe.instructionGroups).forEach(section => {
+    if (section.name) lines.push("", `${section.name}:`);
+    section.items.forEach(({ text, index }) => lines.push(`${index + 1}. ${text}`));
+  });
+
+  return lines.join("\n") + "\n";
+};
+
+export const downloadRecipe = (recipe: Recipe, ingredients: Ingredient[], servings: number) => {
+  const blob = new Blob([recipeToText(recipe, ingredients, servings)], { type: "text/plain;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${recipe.title.trim().replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-|-$/g, "") || "recipe"}.txt`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
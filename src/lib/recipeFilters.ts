@@ -0,0 +1,208 @@
+import { Recipe } from "@/types/recipe";
+import { normalizeIngredientName } from "@/lib/ingredients";
+
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+export type RangeField = "cookTime" | "calories" | "rating" | "servings";
+
+// "all": a recipe needs every selected tag; "any": one of them is enough
+export type TagMode = "all" | "any";
+
+export type RecipeSort = "relevance" | "newest" | "rating" | "quickest" | "calories" | "comments";
+
+export interface RecipeFilters {
+  query: string;
+  tags: string[];
+  tagMode: TagMode;
+  excludedTags: string[];
+  ranges: Record<RangeField, NumberRange>;
+  // Ingredients or groups of them ("nuts", "pork") the recipe must not contain
+  excludedIngredients: string[];
+  sort: RecipeSort;
+}
+
+export const RANGE_FIELDS: RangeField[] = ["cookTime", "calories", "rating", "servings"];
+
+export const SORT_OPTIONS: { value: RecipeSort; label: string }[] = [
+  { value: "relevance", label: "Best match" },
+  { value: "newest", label: "Newest" },
+  { value: "rating", label: "Highest rated" },
+  { value: "quickest", label: "Quickest" },
+  { value: "calories", label: "Lowest calories" },
+  { value: "comments", label: "Most commented" },
+];
+
+// URL parameter for each range; values look like "10-30", "10-" or "-30"
+const RANGE_PARAMS: Record<RangeField, string> = {
+  cookTime: "time",
+  calories: "cal",
+  rating: "rating",
+  servings: "servings",
+};
+
+// Parameters owned by the filters; anything else in the URL is left alone
+const FILTER_PARAMS = ["q", "tag", "tagMode", "notTag", "exclude", "sort", ...Object.values(RANGE_PARAMS)];
+
+// Excluding one of these names excludes every ingredient in its group
+const INGREDIENT_GROUPS: Record<string, string[]> = {
+  nut: [
+    "nut", "almond", "walnut", "pecan", "cashew", "pistachio", "hazelnut", "peanut", "macadamia", "pine nut",
+    "brazil nut", "praline", "marzipan", "אגוז", "שקד", "בוטן", "פיסטוק", "קשיו",
+  ],
+  pork: [
+    "pork", "bacon", "ham", "prosciutto", "pancetta", "guanciale", "chorizo", "salami", "lard", "pork belly",
+    "חזיר", "בייקון",
+  ],
+  shellfish: ["shellfish", "shrimp", "prawn", "crab", "lobster", "clam", "mussel", "oyster", "scallop", "שרימפס"],
+  dairy: [
+    "dairy", "milk", "butter", "cream", "cheese", "yogurt", "yoghurt", "ghee", "parmesan", "mozzarella",
+    "ricotta", "feta", "חלב", "חמאה", "שמנת", "גבינה", "יוגורט",
+  ],
+  gluten: ["gluten", "flour", "bread", "pasta", "breadcrumb", "panko", "couscous", "bulgur", "semolina", "קמח"],
+};
+
+export const emptyFilters = (): RecipeFilters => ({
+  query: "",
+  tags: [],
+  tagMode: "all",
+  excludedTags: [],
+  ranges: { cookTime: {}, calories: {}, rating: {}, servings: {} },
+  excludedIngredients: [],
+  sort: "relevance",
+});
+
+const parseRange = (value: string | null): NumberRange => {
+  const match = value?.match(/^(\d+(?:\.\d+)?)?-(\d+(?:\.\d+)?)?$/);
+  if (!match) return {};
+  return {
+    min: match[1] !== undefined ? Number(match[1]) : undefined,
+    max: match[2] !== undefined ? Number(match[2]) : undefined,
+  };
+};
+
+const formatRange = (range: NumberRange) =>
+  range.min === undefined && range.max === undefined ? null : `${range.min ?? ""}-${range.max ?? ""}`;
+
+export const parseFilters = (params: URLSearchParams): RecipeFilters => {
+  const sort = params.get("sort");
+  return {
+    query: params.get("q") ?? "",
+    tags: params.getAll("tag"),
+    tagMode: params.get("tagMode") === "any" ? "any" : "all",
+    excludedTags: params.getAll("notTag"),
+    ranges: {
+      cookTime: parseRange(params.get(RANGE_PARAMS.cookTime)),
+      calories: parseRange(params.get(RANGE_PARAMS.calories)),
+      rating: parseRange(params.get(RANGE_PARAMS.rating)),
+      servings: parseRange(params.get(RANGE_PARAMS.servings)),
+    },
+    excludedIngredients: params.getAll("exclude"),
+    sort: SORT_OPTIONS.some(option => option.value === sort) ? (sort as RecipeSort) : "relevance",
+  };
+};
+
+// A copy of params with the filter parameters replaced; defaults are left out to keep URLs short
+export const writeFilters = (params: URLSearchParams, filters: RecipeFilters): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  FILTER_PARAMS.forEach(name => next.delete(name));
+
+  if (filters.query) next.set("q", filters.query);
+  filters.tags.forEach(tag => next.append("tag", tag));
+  if (filters.tagMode === "any") next.set("tagMode", "any");
+  filters.excludedTags.forEach(tag => next.append("notTag", tag));
+  RANGE_FIELDS.forEach(field => {
+    const value = formatRange(filters.ranges[field]);
+    if (value) next.set(RANGE_PARAMS[field], value);
+  });
+  filters.excludedIngredients.forEach(ingredient => next.append("exclude", ingredient));
+  if (filters.sort !== "relevance") next.set("sort", filters.sort);
+  return next;
+};
+
+// Just the filter parameters, in a stable form; saved with smart collections
+export const filterQueryString = (filters: RecipeFilters) => writeFilters(new URLSearchParams(), filters).toString();
+
+// Filters beyond the text query, for the count on the filter button
+export const activeFilterCount = (filters: RecipeFilters) =>
+  filters.tags.length +
+  filters.excludedTags.length +
+  RANGE_FIELDS.filter(field => formatRange(filters.ranges[field]) !== null).length +
+  filters.excludedIngredients.length;
+
+const rangeValue = (recipe: Recipe, field: RangeField): number | undefined => {
+  switch (field) {
+    case "cookTime":
+      return recipe.cookTime;
+    case "calories":
+      return recipe.calories;
+    case "rating":
+      return recipe.rating;
+    case "servings":
+      return recipe.servings;
+  }
+};
+
+// Recipes without a value (no calories worked out yet) fail any bound on it
+const inRange = (value: number | undefined, range: NumberRange) => {
+  if (range.min === undefined && range.max === undefined) return true;
+  if (value === undefined) return false;
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+};
+
+const excludedTerms = (names: string[]) =>
+  names.flatMap(name => {
+    const normalized = normalizeIngredientName(name);
+    return (INGREDIENT_GROUPS[normalized] ?? [name]).map(normalizeIngredientName);
+  }).filter(Boolean);
+
+// A term matches an ingredient containing all of its words, so "nut" does not match "nutmeg"
+const containsTerm = (ingredientName: string, term: string) => {
+  const words = new Set(normalizeIngredientName(ingredientName).split(" "));
+  return term.split(" ").every(word => words.has(word));
+};
+
+// Everything except the text query, which the caller matches (locally or through search)
+export const applyFilters = (recipes: Recipe[], filters: RecipeFilters): Recipe[] => {
+  const terms = excludedTerms(filters.excludedIngredients);
+
+  return recipes.filter(recipe => {
+    if (filters.tags.length > 0) {
+      const hasTag = (tag: string) => recipe.tags.includes(tag);
+      const matchesTags = filters.tagMode === "any" ? filters.tags.some(hasTag) : filters.tags.every(hasTag);
+      if (!matchesTags) return false;
+    }
+    if (filters.excludedTags.some(tag => recipe.tags.includes(tag))) return false;
+    if (!RANGE_FIELDS.every(field => inRange(rangeValue(recipe, field), filters.ranges[field]))) return false;
+    if (terms.length > 0 && recipe.ingredients.some(ingredient => terms.some(term => containsTerm(ingredient.name, term)))) {
+      return false;
+    }
+    return true;
+  });
+};
+
+// Missing values sort last whichever way a field is ordered
+const ascendingKnown = (a: number | undefined, b: number | undefined) =>
+  (a ?? Number.POSITIVE_INFINITY) - (b ?? Number.POSITIVE_INFINITY);
+
+// "relevance" keeps the order given (search rank or pantry coverage)
+export const sortRecipes = (recipes: Recipe[], sort: RecipeSort): Recipe[] => {
+  const sorted = [...recipes];
+  switch (sort) {
+    case "newest":
+      return sorted.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    case "rating":
+      return sorted.sort((a, b) => b.rating - a.rating);
+    case "quickest":
+      // A cook time of 0 means it was never filled in
+      return sorted.sort((a, b) => ascendingKnown(a.cookTime || undefined, b.cookTime || undefined));
+    case "calories":
+      return sorted.sort((a, b) => ascendingKnown(a.calories, b.calories));
+    case "comments":
+      return sorted.sort((a, b) => b.comments.length - a.comments.length);
+    default:
+      return sorted;
+  }
+};
@@ -0,0 +1,95 @@
+import { Ingredient } from "@/types/recipe";
+import { Quantity, getUnit } from "@/lib/ingredients";
+import { transformWithStepAmounts } from "@/lib/stepIngredients";
+
+// Fractions a cook can actually measure, as [value, label]
+const KITCHEN_FRACTIONS: [number, string][] = [
+  [0, ""],
+  [1 / 8, "1/8"],
+  [1 / 4, "1/4"],
+  [1 / 3, "1/3"],
+  [3 / 8, "3/8"],
+  [1 / 2, "1/2"],
+  [5 / 8, "5/8"],
+  [2 / 3, "2/3"],
+  [3 / 4, "3/4"],
+  [7 / 8, "7/8"],
+  [1, ""],
+];
+
+// Amounts that are not meant to be multiplied
+const NON_SCALABLE_PATTERN = /\b(to taste|as needed|for serving|for garnish|optional)\b/i;
+
+// Format a number as a whole number plus a kitchen-friendly fraction ("2 1/4")
+export function formatAmount(value: number): string {
+  if (!isFinite(value) || value <= 0) return "0";
+
+  // Large amounts (grams, millilitres) read better as whole numbers
+  if (value >= 20) return String(Math.round(value));
+  if (value >= 10) return String(Math.round(value * 2) / 2);
+
+  let whole = Math.floor(value);
+  const remainder = value - whole;
+
+  let [closest, label] = KITCHEN_FRACTIONS[0];
+  for (const [fraction, fractionLabel] of KITCHEN_FRACTIONS) {
+    if (Math.abs(remainder - fraction) < Math.abs(remainder - closest)) {
+      closest = fraction;
+      label = fractionLabel;
+    }
+  }
+
+  if (closest === 1) {
+    whole += 1;
+    label = "";
+  }
+
+  // Never round a small positive amount down to nothing
+  if (whole === 0 && !label) return "1/8";
+  if (whole === 0) return label;
+  return label ? `${whole} ${label}` : String(whole);
+}
+
+export function formatQuantity(quantity: Quantity): string {
+  const value = formatAmount(quantity.value);
+  return quantity.max !== undefined ? `${value}-${formatAmount(quantity.max)}` : value;
+}
+
+export function isScalable(ingredient: Ingredient): boolean {
+  if (!ingredient.quantity) return false;
+  if (getUnit(ingredient.canonicalUnit)?.scalable === false) return false;
+  return !NON_SCALABLE_PATTERN.test(`${ingredient.name} ${ingredient.preparation || ""}`);
+}
+
+// Pick the singular or plural unit label when the unit text is a registry form
+function unitLabelFor(ingredient: Ingredient, quantity: Quantity): string {
+  const unit = getUnit(ingredient.canonicalUnit);
+  if (!unit) return ingredient.unit;
+
+  const written = ingredient.unit.trim().toLowerCase();
+  if (written !== unit.label && written !== unit.plural) return ingredient.unit;
+  return (quantity.max ?? quantity.value) > 1 ? unit.plural : unit.label;
+}
+
+// Multiply an ingredient's amount, leaving unparsed and non-scalable items as they are
+export function scaleIngredient(ingredient: Ingredient, factor: number): Ingredient {
+  if (factor === 1 || !isScalable(ingredient)) return ingredient;
+
+  const quantity: Quantity = {
+    value: ingredient.quantity.value * factor,
+    ...(ingredient.quantity.max !== undefined ? { max: ingredient.quantity.max * factor } : {})
+  };
+
+  return {
+    ...ingredient,
+    amount: formatQuantity(quantity),
+    unit: unitLabelFor(ingredient, quantity),
+    quantity
+  };
+}
+
+export function scaleIngredients(ingredients: Ingredient[], fromServings: number, toServings: number): Ingredient[] {
+  const factor = fromServings > 0 && toServings > 0 ? toServings / fromServings : 1;
+  // Each step's share of an ingredient grows or shrinks with it
+  return ingredients.map(ingredient => transformWithStepAmounts(ingredient, portion => scaleIngredient(portion, factor)));
+}
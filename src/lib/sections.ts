@@ -0,0 +1,46 @@
+import { Ingredient } from "@/types/recipe";
+
+// A named part of a recipe; the unnamed section holds whatever sits outside any
+export interface RecipeSection<T> {
+  name: string;
+  items: T[];
+}
+
+export interface NumberedStep {
+  text: string;
+  // Position in recipe.instructions, which numbering and step links use
+  index: number;
+}
+
+// Ingredients by section, in the order sections first appear; ungrouped ones come first
+export const ingredientSections = (ingredients: Ingredient[]): RecipeSection<Ingredient>[] => {
+  const sections = new Map<string, Ingredient[]>([["", []]]);
+  ingredients.forEach(ingredient => {
+    const name = ingredient.group?.trim() ?? "";
+    sections.set(name, [...(sections.get(name) ?? []), ingredient]);
+  });
+  return Array.from(sections, ([name, items]) => ({ name, items })).filter(section => section.items.length > 0);
+};
+
+// Steps split where their section changes, keeping their order and numbering
+export const instructionSections = (instructions: string[], groups: string[] = []): RecipeSection<NumberedStep>[] => {
+  const sections: RecipeSection<NumberedStep>[] = [];
+  instructions.forEach((text, index) => {
+    const name = groups[index]?.trim() ?? "";
+    const last = sections[sections.length - 1];
+    if (last && last.name === name) {
+      last.items.push({ text, index });
+    } else {
+      sections.push({ name, items: [{ text, index }] });
+    }
+  });
+  return sections;
+};
+
+export const hasSections = (names: (string | undefined)[]) => names.some(name => Boolean(name?.trim()));
+
+// Where a new step of a section goes: after the section's last step, or at the end
+export const sectionInsertIndex = (groups: string[], stepCount: number, name: string) => {
+  const last = groups.slice(0, stepCount).lastIndexOf(name);
+  return name && last >= 0 ? last + 1 : stepCount;
+};
@@ -0,0 +1,197 @@
+import { Recipe } from "@/types/recipe";
+import { MeasurementSystem, findDensity, getUnit, singularize } from "@/lib/ingredients";
+import { formatBaseAmount } from "@/lib/conversion";
+import { formatAmount, scaleIngredients } from "@/lib/scaling";
+import { isStaple, pantryKey } from "@/lib/pantry";
+
+export type Aisle = "produce" | "bakery" | "meat" | "dairy" | "dry" | "condiments" | "spices" | "frozen" | "other" | "staples";
+
+// In the order a shop is usually walked; staples come last as a reminder to check the cupboard
+export const AISLES: { value: Aisle; label: string }[] = [
+  { value: "produce", label: "Fruit & vegetables" },
+  { value: "bakery", label: "Bakery" },
+  { value: "meat", label: "Meat & fish" },
+  { value: "dairy", label: "Dairy & eggs" },
+  { value: "dry", label: "Baking & dry goods" },
+  { value: "condiments", label: "Cans, jars & sauces" },
+  { value: "spices", label: "Spices" },
+  { value: "frozen", label: "Frozen" },
+  { value: "other", label: "Other" },
+  { value: "staples", label: "Probably at home" },
+];
+
+// Checked in this order, so "tomato paste" is a jar before "tomato" is produce and
+// "garlic powder" is a spice before "garlic" is
+const AISLE_KEYWORDS: [Aisle, string[]][] = [
+  ["frozen", ["frozen", "ice cream", "קפוא"]],
+  ["condiments", [
+    "canned", "tinned", "tomato paste", "tomato sauce", "passata", "crushed tomato", "coconut milk", "coconut cream",
+    "stock", "broth", "bouillon", "tahini", "soy sauce", "fish sauce", "hot sauce", "sriracha", "vinegar", "mustard",
+    "ketchup", "mayonnaise", "mayo", "honey", "maple syrup", "jam", "peanut butter", "olive", "caper", "pickle",
+    "harissa", "pesto", "salsa", "רסק עגבניות", "טחינה", "רוטב סויה", "חומץ", "חרדל", "דבש", "סילאן",
+  ]],
+  ["spices", [
+    "garlic powder", "onion powder", "cumin", "paprika", "cinnamon", "turmeric", "dried oregano", "chili powder",
+    "chili flake", "red pepper flake", "cayenne", "nutmeg", "ground clove", "bay leaf", "coriander seed", "cardamom",
+    "allspice", "vanilla", "spice", "seasoning", "za atar", "zaatar", "sumac", "baharat", "curry powder", "garam masala",
+    "dried thyme", "dried basil", "כמון", "פפריקה", "קינמון", "כורכום", "זעתר", "סומק", "בהרט", "וניל",
+  ]],
+  ["dry", [
+    "flour", "sugar", "baking powder", "baking soda", "yeast", "rice", "pasta", "spaghetti", "penne", "noodle", "oat",
+    "lentil", "quinoa", "couscous", "bulgur", "breadcrumb", "panko", "cornstarch", "chocolate", "cocoa", "nut", "almond",
+    "walnut", "pecan", "cashew", "pistachio", "raisin", "date", "sesame", "dried", "bean", "chickpea",
+    "קמח", "סוכר", "שמרים", "אורז", "פסטה", "עדשים", "קוסקוס", "בורגול", "שוקולד", "שקדים", "אגוזים",
+  ]],
+  ["dairy", [
+    "milk", "butter", "cream", "cheese", "yogurt", "yoghurt", "egg", "sour cream", "parmesan", "mozzarella", "feta",
+    "ricotta", "cheddar", "labneh", "ghee", "חלב", "חמאה", "שמנת", "גבינה", "יוגורט", "ביצה", "ביצים", "לבנה",
+  ]],
+  ["meat", [
+    "chicken", "beef", "pork", "lamb", "turkey", "bacon", "sausage", "ham", "fish", "salmon", "tuna", "shrimp", "prawn",
+    "cod", "steak", "mince", "ground beef", "anchovy", "עוף", "בשר", "דג", "סלמון", "הודו", "שניצל", "טונה",
+  ]],
+  ["bakery", ["bread", "pita", "tortilla", "bun", "baguette", "roll", "lavash", "challah", "לחם", "פיתה", "לאפה", "חלה"]],
+  ["produce", [
+    "onion", "garlic", "tomato", "potato", "sweet potato", "carrot", "celery", "lettuce", "spinach", "kale", "cabbage",
+    "cucumber", "zucchini", "eggplant", "bell pepper", "chili", "jalapeno", "lemon", "lime", "orange", "apple", "banana",
+    "berry", "strawberry", "blueberry", "avocado", "mushroom", "parsley", "cilantro", "basil", "mint", "dill", "thyme",
+    "rosemary", "ginger", "scallion", "leek", "shallot", "squash", "pumpkin", "corn", "pea", "broccoli", "cauliflower",
+    "beet", "radish", "pomegranate", "mango", "grape", "pear", "peach", "herb", "salad", "arugula",
+    "בצל", "שום", "עגבנייה", "עגבניה", "תפוח אדמה", "בטטה", "גזר", "סלרי", "חסה", "תרד", "כרוב", "מלפפון", "קישוא",
+    "חציל", "פלפל", "לימון", "תפוז", "תפוח", "בננה", "אבוקדו", "פטריות", "פטרוזיליה", "כוסברה", "נענע", "שמיר", "ג'ינג'ר",
+  ]],
+];
+
+export interface ShoppingSource {
+  recipe: Recipe;
+  // Servings to buy for; the recipe's ingredients are scaled to it
+  servings: number;
+}
+
+export interface ShoppingItem {
+  name: string;
+  // The combined amount, e.g. "440 ml" or "3 cloves + 1 head"; empty when nothing was measurable
+  amount: string;
+  // The amounts that were added together, e.g. "1 cup + 200 ml"; empty for a single use
+  detail: string;
+  aisle: Aisle;
+  // Titles of the recipes that need it
+  recipes: string[];
+}
+
+// Under a quarter cup, spoons are what both systems measure with
+const SPOON_LIMIT_ML = 59;
+
+interface Tally {
+  name: string;
+  // Totals in millilitres and grams
+  volume: number;
+  mass: number;
+  // Pieces, cloves, cans... by unit, and bare numbers ("3 lemons") under ""
+  counts: Map<string, { value: number; label: string; plural: string }>;
+  // Amounts that are not numbers, such as "to taste"
+  notes: Set<string>;
+  parts: string[];
+  recipes: Set<string>;
+}
+
+// Singular words of a name, keeping descriptors: "crushed" and "dried" decide the aisle, so the
+// matching name normalization (which drops them) would put "tomatoes" with the cans
+const aisleWords = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, " ")
+    .split(",")[0]
+    .replace(/[^\p{L}\p{N}\s-]/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize);
+
+const hasWords = (words: Set<string>, keyword: string) => aisleWords(keyword).every(word => words.has(word));
+
+export const aisleFor = (name: string): Aisle => {
+  if (isStaple(name)) return "staples";
+  const words = new Set(aisleWords(name));
+  const match = AISLE_KEYWORDS.find(([, keywords]) => keywords.some(keyword => hasWords(words, keyword)));
+  return match ? match[0] : "other";
+};
+
+const describeTally = (tally: Tally, system: MeasurementSystem): string => {
+  let { volume, mass } = tally;
+
+  // A cup of flour in one recipe and 200 g in another can only be added up by weight
+  if (volume > 0 && mass > 0) {
+    const density = findDensity(tally.name);
+    if (density) {
+      mass += volume * density.gramsPerMl;
+      volume = 0;
+    }
+  }
+
+  const segments = [
+    ...(mass > 0 ? [formatBaseAmount("mass", mass, system)] : []),
+    ...(volume > 0 ? [formatBaseAmount("volume", volume, volume < SPOON_LIMIT_ML ? "imperial" : system)] : []),
+    ...Array.from(tally.counts.values()).map(({ value, label, plural }) =>
+      `${formatAmount(value)} ${value > 1 ? plural : label}`.trim()
+    ),
+  ];
+  return segments.length > 0 ? segments.join(" + ") : Array.from(tally.notes).join(", ");
+};
+
+// One line per ingredient across all the recipes, scaled to the servings wanted. Names
+// are matched the same way as pantry items, so "scallions" and "green onion" combine.
+// Ranges count at their upper end so there is enough.
+export const buildShoppingList = (sources: ShoppingSource[], system: MeasurementSystem): ShoppingItem[] => {
+  const tallies = new Map<string, Tally>();
+
+  sources.forEach(({ recipe, servings }) => {
+    scaleIngredients(recipe.ingredients, recipe.servings || 1, servings).forEach(ingredient => {
+      const key = pantryKey(ingredient.name);
+      if (!key) return;
+
+      let tally = tallies.get(key);
+      if (!tally) {
+        tally = { name: ingredient.name, volume: 0, mass: 0, counts: new Map(), notes: new Set(), parts: [], recipes: new Set() };
+        tallies.set(key, tally);
+      }
+      tally.recipes.add(recipe.title);
+
+      const written = `${ingredient.amount} ${ingredient.unit}`.trim();
+      if (written) tally.parts.push(written);
+
+      const quantity = ingredient.quantity;
+      if (!quantity) {
+        if (written) tally.notes.add(written);
+        return;
+      }
+
+      const value = quantity.max ?? quantity.value;
+      const unit = getUnit(ingredient.canonicalUnit);
+      if (unit?.dimension === "volume") {
+        tally.volume += value * unit.toBase;
+      } else if (unit?.dimension === "mass") {
+        tally.mass += value * unit.toBase;
+      } else {
+        // Count units, units the registry does not know, or a bare number
+        // Cans of different sizes are counted apart: "2 (14 oz) cans" and "1 (28 oz) can"
+        const size = ingredient.packageSize ? `(${ingredient.packageSize}) ` : "";
+        const countKey = size + (unit?.id ?? ingredient.unit.trim().toLowerCase());
+        const label = size + (unit?.label ?? ingredient.unit.trim());
+        const count = tally.counts.get(countKey) ?? { value: 0, label, plural: size + (unit?.plural ?? ingredient.unit.trim()) };
+        tally.counts.set(countKey, { ...count, value: count.value + value });
+      }
+    });
+  });
+
+  const aisleOrder = (aisle: Aisle) => AISLES.findIndex(option => option.value === aisle);
+
+  return Array.from(tallies.values())
+    .map(tally => ({
+      name: tally.name,
+      amount: describeTally(tally, system),
+      detail: tally.parts.length > 1 ? tally.parts.join(" + ") : "",
+      aisle: aisleFor(tally.name),
+      recipes: Array.from(tally.recipes),
+    }))
+    .sort((a, b) => aisleOrder(a.aisle) - aisleOrder(b.aisle) || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,191 @@
+import { Ingredient, IngredientStepUse } from "@/types/recipe";
+import { normalizeIngredientName, singularize, withStructuredQuantity } from "@/lib/ingredients";
+
+// A run of step text, tied to the ingredient it names when it is a mention
+export interface StepSegment {
+  text: string;
+  ingredient?: Ingredient;
+}
+
+interface Mention {
+  start: number;
+  end: number;
+  ingredient: Ingredient;
+}
+
+const nameWords = (name: string) => normalizeIngredientName(name).split(/[\s-]+/).filter(Boolean);
+
+// Where ingredients are named in a step. The full name counts ("olive oil"), and so does its
+// last word ("the onions" for "yellow onion") unless another ingredient ends the same way.
+// Longer mentions win where two overlap, so "peanut butter" is not also "butter".
+const findMentions = (step: string, ingredients: Ingredient[]): Mention[] => {
+  const tokens = Array.from(step.matchAll(/[\p{L}\p{N}]+/gu), match => ({
+    word: singularize(match[0].toLowerCase()),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+  const names = ingredients.map(ingredient => ({ ingredient, words: nameWords(ingredient.name) }));
+  const lastWordCounts = new Map<string, number>();
+  names.forEach(({ words }) => {
+    const last = words[words.length - 1];
+    if (last) lastWordCounts.set(last, (lastWordCounts.get(last) ?? 0) + 1);
+  });
+
+  const candidates: Mention[] = [];
+  names.forEach(({ ingredient, words }) => {
+    if (words.length === 0) return;
+    const phrases = [words];
+    const last = words[words.length - 1];
+    if (words.length > 1 && lastWordCounts.get(last) === 1) phrases.push([last]);
+
+    for (const phrase of phrases) {
+      const found: Mention[] = [];
+      for (let i = 0; i + phrase.length <= tokens.length; i++) {
+        if (phrase.every((word, offset) => tokens[i + offset].word === word)) {
+          found.push({ start: tokens[i].start, end: tokens[i + phrase.length - 1].end, ingredient });
+        }
+      }
+      if (found.length > 0) {
+        candidates.push(...found);
+        break;
+      }
+    }
+  });
+
+  const accepted: Mention[] = [];
+  candidates
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start)
+    .forEach(mention => {
+      if (!accepted.some(other => mention.start < other.end && other.start < mention.end)) accepted.push(mention);
+    });
+  return accepted.sort((a, b) => a.start - b.start);
+};
+
+// Ids of the ingredients a step names
+export const detectStepIngredients = (step: string, ingredients: Ingredient[]): Set<string> =>
+  new Set(findMentions(step, ingredients).map(mention => mention.ingredient.id));
+
+// Read the links stored with an ingredient row, dropping anything malformed
+export const parseStepUses = (value: unknown): IngredientStepUse[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap((entry): IngredientStepUse[] => {
+    if (!entry || typeof entry !== "object") return [];
+    const { step, amount } = entry as Record<string, unknown>;
+    if (typeof step !== "number" || !Number.isInteger(step) || step < 0) return [];
+    return [typeof amount === "string" && amount.trim() ? { step, amount: amount.trim() } : { step }];
+  });
+};
+
+const sortUses = (uses: IngredientStepUse[]) => uses.sort((a, b) => a.step - b.step);
+
+const stepUse = (ingredient: Ingredient, stepIndex: number) => ingredient.steps?.find(use => use.step === stepIndex);
+
+export const usesInStep = (ingredient: Ingredient, stepIndex: number) => Boolean(stepUse(ingredient, stepIndex));
+
+// Link every ingredient to the steps that name it. With `onlyMissing`, links that were
+// already set (possibly by hand) are kept and only unlinked ingredients are matched.
+// Amounts entered for steps that are linked again are kept.
+export const linkIngredientsToSteps = (ingredients: Ingredient[], instructions: string[], onlyMissing = false): Ingredient[] => {
+  const perStep = instructions.map(step => detectStepIngredients(step, ingredients));
+  return ingredients.map(ingredient => {
+    if (onlyMissing && ingredient.steps) return ingredient;
+    const steps = perStep.flatMap((ids, index) => (ids.has(ingredient.id) ? [stepUse(ingredient, index) ?? { step: index }] : []));
+    return { ...ingredient, steps };
+  });
+};
+
+// The ingredient as one step uses it: the step's amount, in the unit that amount is given in
+const stepPortion = (ingredient: Ingredient, use: IngredientStepUse): Ingredient =>
+  withStructuredQuantity({
+    ...ingredient,
+    amount: use.amount ?? ingredient.amount,
+    unit: use.unit ?? ingredient.unit,
+    steps: undefined,
+  });
+
+// The ingredients a step uses, each with its amount cut down to the step's share when one is set
+export const ingredientsForStep = (ingredients: Ingredient[], stepIndex: number): Ingredient[] =>
+  ingredients.flatMap(ingredient => {
+    const use = stepUse(ingredient, stepIndex);
+    if (!use) return [];
+    return use.amount ? [stepPortion(ingredient, use)] : [ingredient];
+  });
+
+// Apply a change of amount (scaling, unit conversion) to the ingredient and to each step's share,
+// so a step keeps using the same part of the ingredient
+export const transformWithStepAmounts = (ingredient: Ingredient, transform: (ingredient: Ingredient) => Ingredient): Ingredient => {
+  const transformed = transform(ingredient);
+  if (!ingredient.steps?.some(use => use.amount)) return transformed;
+  return {
+    ...transformed,
+    steps: ingredient.steps.map(use => {
+      if (!use.amount) return use;
+      const portion = transform(stepPortion(ingredient, use));
+      return { step: use.step, amount: portion.amount, unit: portion.unit };
+    }),
+  };
+};
+
+export const toggleStepLink = (ingredients: Ingredient[], ingredientId: string, stepIndex: number): Ingredient[] =>
+  ingredients.map(ingredient => {
+    if (ingredient.id !== ingredientId) return ingredient;
+    const steps = ingredient.steps ?? [];
+    return {
+      ...ingredient,
+      steps: usesInStep(ingredient, stepIndex)
+        ? steps.filter(use => use.step !== stepIndex)
+        : sortUses([...steps, { step: stepIndex }]),
+    };
+  });
+
+// How much of an ingredient a step uses; an empty amount means all of it
+export const setStepAmount = (ingredients: Ingredient[], ingredientId: string, stepIndex: number, amount: string): Ingredient[] =>
+  ingredients.map(ingredient => (ingredient.id === ingredientId && ingredient.steps
+    ? {
+      ...ingredient,
+      steps: ingredient.steps.map(use => (use.step === stepIndex ? (amount.trim() ? { step: use.step, amount } : { step: use.step }) : use)),
+    }
+    : ingredient));
+
+// Make room for a step inserted at `stepIndex`, linking it to the `mentioned` ingredient ids
+export const insertStepLinks = (ingredients: Ingredient[], stepIndex: number, mentioned: Set<string>): Ingredient[] =>
+  ingredients.map(ingredient => {
+    const steps = (ingredient.steps ?? []).map(use => (use.step >= stepIndex ? { ...use, step: use.step + 1 } : use));
+    if (mentioned.has(ingredient.id)) return { ...ingredient, steps: sortUses([...steps, { step: stepIndex }]) };
+    return ingredient.steps ? { ...ingredient, steps } : ingredient;
+  });
+
+// Keep links pointing at the right steps after one is deleted
+export const removeStepLinks = (ingredients: Ingredient[], stepIndex: number): Ingredient[] =>
+  ingredients.map(ingredient => (ingredient.steps
+    ? {
+      ...ingredient,
+      steps: ingredient.steps
+        .filter(use => use.step !== stepIndex)
+        .map(use => (use.step > stepIndex ? { ...use, step: use.step - 1 } : use)),
+    }
+    : ingredient));
+
+// Follow a step that moved from one position to another, amounts included
+export const moveStepLinks = (ingredients: Ingredient[], from: number, to: number): Ingredient[] =>
+  ingredients.map(ingredient => {
+    if (!ingredient.steps) return ingredient;
+    const moved = stepUse(ingredient, from);
+    const steps = removeStepLinks([ingredient], from)[0].steps ?? [];
+    const shifted = steps.map(use => (use.step >= to ? { ...use, step: use.step + 1 } : use));
+    return { ...ingredient, steps: sortUses(moved ? [...shifted, { ...moved, step: to }] : shifted) };
+  });
+
+// Split a step into plain text and mentions of the given ingredients, for highlighting
+export const stepSegments = (step: string, ingredients: Ingredient[]): StepSegment[] => {
+  const segments: StepSegment[] = [];
+  let position = 0;
+  findMentions(step, ingredients).forEach(({ start, end, ingredient }) => {
+    if (start > position) segments.push({ text: step.slice(position, start) });
+    segments.push({ text: step.slice(start, end), ingredient });
+    position = end;
+  });
+  if (position < step.length) segments.push({ text: step.slice(position) });
+  return segments;
+};
@@ -0,0 +1,132 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Recipe } from "@/types/recipe";
+import { DuplicateCandidate, findDuplicateRecipes } from "@/lib/duplicates";
+import { MergeRecipesDialog } from "@/components/MergeRecipesDialog";
+import { LoadingScreen } from "@/components/LoadingScreen";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useRecipes } from "@/hooks/useRecipes";
+import { useDismissedDuplicates } from "@/hooks/useDismissedDuplicates";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, Copy } from "lucide-react";
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeMatch = (candidate: DuplicateCandidate) => {
+  if (candidate.reason === "same-url") return "Saved from the same page";
+  const parts = [`Title ${percent(candidate.titleSimilarity)} alike`];
+  if (candidate.ingredientSimilarity !== null) parts.push(`ingredients ${percent(candidate.ingredientSimilarity)} shared`);
+  return parts.join(", ");
+};
+
+const RecipeSummary = ({ recipe }: { recipe: Recipe }) => (
+  <div className="flex gap-3 min-w-0">
+    <div className="w-20 h-14 shrink-0 rounded overflow-hidden bg-gradient-to-br from-recipe-cream to-secondary">
+      {recipe.image && <img src={recipe.image} alt={recipe.title} className="w-full h-full object-cover" />}
+    </div>
+    <div className="min-w-0 space-y-0.5">
+      <Link to={`/recipes/${recipe.id}`} className="font-medium hover:text-primary line-clamp-1">
+        {recipe.title || "Untitled recipe"}
+      </Link>
+      <p className="text-xs text-muted-foreground">
+        {recipe.ingredients.length} ingredients · {recipe.comments.length} comments · added {recipe.createdAt.toLocaleDateString()}
+      </p>
+      {recipe.websiteUrl && <p className="text-xs text-muted-foreground truncate">{recipe.websiteUrl}</p>}
+    </div>
+  </div>
+);
+
+const DuplicatesPage = () => {
+  const navigate = useNavigate();
+  const { recipes, loading, mergeDuplicate } = useRecipes();
+  const [dismissed, dismiss] = useDismissedDuplicates();
+  const [merging, setMerging] = useState<DuplicateCandidate | null>(null);
+  const { toast } = useToast();
+
+  const candidates = useMemo(() => findDuplicateRecipes(recipes, dismissed), [recipes, dismissed]);
+
+  const handleMerge = async (primary: Recipe, duplicate: Recipe) => {
+    try {
+      await mergeDuplicate(primary, duplicate);
+      toast({
+        title: "Recipes merged",
+        description: `"${duplicate.title}" was merged into "${primary.title}".`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to merge recipes. Please try again.",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen message="Looking for duplicates..." />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 space-y-6 max-w-4xl">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} aria-label="Back to recipes">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="text-2xl font-semibold flex items-center gap-2">
+            <Copy className="w-5 h-5" />
+            Possible duplicates
+          </h1>
+        </div>
+
+        {candidates.length === 0 ? (
+          <div className="text-center py-12">
+            <h3 className="text-xl font-semibold mb-2">No duplicates found</h3>
+            <p className="text-muted-foreground">Recipes saved from the same page or with matching titles and ingredients show up here.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {candidates.map(candidate => (
+              <Card key={candidate.key}>
+                <CardContent className="p-4 space-y-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-muted-foreground">{describeMatch(candidate)}</span>
+                    <Badge variant={candidate.reason === "same-url" ? "default" : "secondary"}>
+                      {candidate.reason === "same-url" ? "Same URL" : `${percent(candidate.score)} similar`}
+                    </Badge>
+                  </div>
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <RecipeSummary recipe={candidate.recipes[0]} />
+                    <RecipeSummary recipe={candidate.recipes[1]} />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => dismiss(candidate.key)}>
+                      Not a duplicate
+                    </Button>
+                    <Button size="sm" onClick={() => setMerging(candidate)}>
+                      Merge...
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {merging && (
+        <MergeRecipesDialog
+          key={merging.key}
+          recipes={merging.recipes}
+          open
+          onOpenChange={open => !open && setMerging(null)}
+          onMerge={handleMerge}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DuplicatesPage;
@@ -0,0 +1,82 @@
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { Recipe } from "@/types/recipe";
+import { RecipeForm } from "@/components/RecipeForm";
+import { LoadingScreen } from "@/components/LoadingScreen";
+import { useRecipe } from "@/hooks/useRecipe";
+import { useToast } from "@/hooks/use-toast";
+import NotFound from "./NotFound";
+
+const EditRecipePage = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { recipe, loading, saveRecipe, deleteRecipe } = useRecipe(id);
+  const { toast } = useToast();
+
+  // Go back to the detail view, replacing the edit entry on a direct visit
+  const returnToRecipe = () => {
+    if (location.key !== "default") {
+      navigate(-1);
+    } else {
+      navigate(`/recipes/${id}`, { replace: true });
+    }
+  };
+
+  const handleSaveRecipe = async (updatedRecipe: Recipe) => {
+    try {
+      await saveRecipe(updatedRecipe);
+      toast({
+        title: "Recipe saved",
+        description: "Your recipe has been saved successfully.",
+      });
+      returnToRecipe();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save recipe. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteRecipe = async (recipeId: string) => {
+    try {
+      await deleteRecipe(recipeId);
+      toast({
+        title: "Recipe deleted",
+        description: "Your recipe has been deleted successfully.",
+      });
+      navigate("/", { replace: true });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete recipe. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen message="Loading recipe..." />;
+  }
+
+  if (!recipe) {
+    return <NotFound />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        <RecipeForm
+          key={recipe.id}
+          recipe={recipe}
+          onSave={handleSaveRecipe}
+          onCancel={returnToRecipe}
+          onDelete={handleDeleteRecipe}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default EditRecipePage;
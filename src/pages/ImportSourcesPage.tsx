@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ImportSource, ImportSourceInput, useImportSources } from "@/hooks/useImportSources";
+import { useImportJob } from "@/hooks/useImportJob";
+import { useToast } from "@/hooks/use-toast";
+import { RecipeImportService } from "@/services/recipeImporter";
+import { ImportSourceDialog } from "@/components/ImportSourceDialog";
+import { ImportProgressPanel } from "@/components/ImportProgressPanel";
+import { LoadingScreen } from "@/components/LoadingScreen";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Pencil, Plus, RefreshCw, Sheet, Trash2 } from "lucide-react";
+
+const OPTIONAL_COLUMN_LABELS: [keyof ImportSource, string][] = [
+  ["title_column", "title"],
+  ["tags_column", "tags"],
+  ["notes_column", "notes"],
+  ["submitter_column", "submitter"],
+];
+
+const describeColumns = (source: ImportSource) =>
+  [
+    `URL in ${source.url_column}`,
+    ...OPTIONAL_COLUMN_LABELS.filter(([key]) => source[key]).map(([key, label]) => `${label} in ${source[key]}`),
+  ].join(", ");
+
+const ImportSourcesPage = () => {
+  const navigate = useNavigate();
+  const { sources, loading, saveSource, removeSource } = useImportSources();
+  const [editing, setEditing] = useState<ImportSource | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [importingId, setImportingId] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const { job, rows } = useImportJob(jobId);
+  const { toast } = useToast();
+
+  const openDialog = (source: ImportSource | null) => {
+    setEditing(source);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (input: ImportSourceInput) => {
+    try {
+      await saveSource(input, editing?.id);
+      toast({
+        title: editing ? "Source updated" : "Source added",
+        description: input.name,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save source. Please try again.",
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  const handleDelete = async (source: ImportSource) => {
+    try {
+      await removeSource(source.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to remove source. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async (source: ImportSource) => {
+    setImportingId(source.id);
+    try {
+      const result = await RecipeImportService.importFromSources(source.id);
+      if (!result.success) throw new Error(result.error);
+
+      if (result.jobId) {
+        setJobId(result.jobId);
+      } else {
+        toast({
+          title: "Nothing to import",
+          description: `"${source.name}" has no URLs.`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import recipes",
+        variant: "destructive",
+      });
+    } finally {
+      setImportingId(null);
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen message="Loading sources..." />;
+  }
+
+  const jobRunning = job !== null && job.status !== "completed";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/imports")} aria-label="Back to imports">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <h1 className="text-2xl font-semibold flex items-center gap-2">
+              <Sheet className="w-5 h-5" />
+              Spreadsheet sources
+            </h1>
+          </div>
+          <Button onClick={() => openDialog(null)} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Add source
+          </Button>
+        </div>
+
+        {job && <ImportProgressPanel job={job} rows={rows} onDismiss={() => setJobId(null)} />}
+
+        {sources.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            No sources yet. Add a Google Sheet to import recipe links from it.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sources.map(source => (
+              <Card key={source.id}>
+                <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-medium">{source.name}</h3>
+                      {!source.enabled && <Badge variant="outline">Disabled</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">
+                      Tab "{source.sheet_name}" · {describeColumns(source)}
+                      {source.has_header_row ? " · header row skipped" : ""}
+                    </p>
+                    {source.default_tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {source.default_tags.map(tag => (
+                          <Badge key={tag} variant="secondary">{tag}</Badge>
+                        ))}
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {source.last_imported_at
+                        ? `Last imported ${new Date(source.last_imported_at).toLocaleString()}`
+                        : "Never imported"}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      onClick={() => handleImport(source)}
+                      disabled={importingId !== null || jobRunning}
+                    >
+                      <RefreshCw className={`w-3 h-3 ${importingId === source.id ? "animate-spin" : ""}`} />
+                      Import now
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(source)} aria-label={`Edit ${source.name}`}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(source)} aria-label={`Remove ${source.name}`}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ImportSourceDialog source={editing} open={dialogOpen} onOpenChange={setDialogOpen} onSave={handleSave} />
+    </div>
+  );
+};
+
+export default ImportSourcesPage;
@@ -0,0 +1,283 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { ImportedUrl, IMPORT_STATUSES, ImportStatus, useImportedUrls } from "@/hooks/useImportedUrls";
+import { useImportJob } from "@/hooks/useImportJob";
+import { useToast } from "@/hooks/use-toast";
+import { RecipeImportService } from "@/services/recipeImporter";
+import { ImportProgressPanel } from "@/components/ImportProgressPanel";
+import { UrlListImportDialog } from "@/components/UrlListImportDialog";
+import { LoadingScreen } from "@/components/LoadingScreen";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, EyeOff, History, ListPlus, Pencil, RotateCcw, Sheet } from "lucide-react";
+
+const STATUS_LABELS: Record<ImportStatus, string> = {
+  failed: "Failed",
+  pending: "Pending",
+  success: "Imported",
+  ignored: "Ignored",
+};
+
+const STATUS_VARIANTS: Record<ImportStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  failed: "destructive",
+  pending: "outline",
+  success: "default",
+  ignored: "secondary",
+};
+
+const isImportStatus = (value: string | null): value is ImportStatus =>
+  IMPORT_STATUSES.includes(value as ImportStatus);
+
+const ImportsPage = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { urls, loading, ignoreUrl, updateUrl, refetch } = useImportedUrls();
+  const [jobId, setJobId] = useState<string | null>(null);
+  const { job, rows: jobRows } = useImportJob(jobId);
+  const [editing, setEditing] = useState<ImportedUrl | null>(null);
+  const [editedUrl, setEditedUrl] = useState("");
+  const [isQueuing, setIsQueuing] = useState(false);
+  const [listDialogOpen, setListDialogOpen] = useState(false);
+  const { toast } = useToast();
+
+  // The status filter lives in the URL so a filtered view can be bookmarked
+  const statusParam = searchParams.get("status");
+  const status = isImportStatus(statusParam) ? statusParam : "all";
+
+  const counts = useMemo(() => {
+    const byStatus: Record<string, number> = {};
+    urls.forEach(entry => {
+      byStatus[entry.status] = (byStatus[entry.status] || 0) + 1;
+    });
+    return byStatus;
+  }, [urls]);
+
+  const visibleUrls = status === "all" ? urls : urls.filter(entry => entry.status === status);
+  const failedUrls = urls.filter(entry => entry.status === "failed");
+
+  // Reload the history as an import job works through its URLs
+  const jobProgress = job ? job.imported_rows + job.skipped_rows + job.failed_rows : 0;
+  useEffect(() => {
+    if (jobProgress > 0) refetch();
+  }, [jobProgress, refetch]);
+
+  const handleStatusChange = (value: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value === "all") {
+        next.delete("status");
+      } else {
+        next.set("status", value);
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  const retry = async (retryUrls: string[]) => {
+    setIsQueuing(true);
+    try {
+      const result = await RecipeImportService.importUrls(retryUrls, "retry");
+      if (!result.success) throw new Error(result.error);
+      if (result.jobId) setJobId(result.jobId);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to retry import",
+        variant: "destructive",
+      });
+    } finally {
+      setIsQueuing(false);
+    }
+  };
+
+  const handleIgnore = async (entry: ImportedUrl) => {
+    try {
+      await ignoreUrl(entry.id);
+      toast({
+        title: "URL ignored",
+        description: "Later imports will leave it out.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to ignore URL. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openEditor = (entry: ImportedUrl) => {
+    setEditing(entry);
+    setEditedUrl(entry.url);
+  };
+
+  const handleSaveAndRetry = async () => {
+    if (!editing) return;
+    const url = editedUrl.trim();
+    try {
+      if (url !== editing.url) await updateUrl(editing.id, url);
+      setEditing(null);
+      await retry([url]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update URL",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen message="Loading import history..." />;
+  }
+
+  const jobRunning = isQueuing || (job !== null && job.status !== "completed");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/")} aria-label="Back to recipes">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <h1 className="text-2xl font-semibold flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Imports
+            </h1>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={() => setListDialogOpen(true)} variant="outline" className="gap-2" disabled={jobRunning}>
+              <ListPlus className="w-4 h-4" />
+              Import list
+            </Button>
+            <Button onClick={() => navigate("/imports/sources")} variant="outline" className="gap-2">
+              <Sheet className="w-4 h-4" />
+              Sources
+            </Button>
+            <Button
+              onClick={() => retry(failedUrls.map(entry => entry.url))}
+              disabled={failedUrls.length === 0 || jobRunning}
+              className="gap-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Retry all failed ({failedUrls.length})
+            </Button>
+          </div>
+        </div>
+
+        {job && (
+          <ImportProgressPanel job={job} rows={jobRows} onDismiss={() => setJobId(null)} />
+        )}
+
+        <Tabs value={status} onValueChange={handleStatusChange}>
+          <TabsList>
+            <TabsTrigger value="all">All ({urls.length})</TabsTrigger>
+            {IMPORT_STATUSES.map(value => (
+              <TabsTrigger key={value} value={value}>
+                {STATUS_LABELS[value]} ({counts[value] || 0})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {visibleUrls.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">No imports with this status.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>URL</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Recipe</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleUrls.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell className="max-w-md">
+                    <a href={entry.url} target="_blank" rel="noopener noreferrer" className="block truncate hover:text-primary">
+                      {entry.url}
+                    </a>
+                    {entry.error_message && (
+                      <span className="block text-xs text-destructive line-clamp-2">{entry.error_message}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={isImportStatus(entry.status) ? STATUS_VARIANTS[entry.status] : "outline"}>
+                      {isImportStatus(entry.status) ? STATUS_LABELS[entry.status] : entry.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    {entry.recipes ? (
+                      <Link to={`/recipes/${entry.recipes.id}`} className="hover:text-primary">
+                        {entry.recipes.title}
+                      </Link>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-muted-foreground">
+                    {new Date(entry.imported_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    {entry.status !== "success" && (
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" className="gap-1" onClick={() => retry([entry.url])} disabled={jobRunning}>
+                          <RotateCcw className="w-3 h-3" />
+                          Retry
+                        </Button>
+                        <Button variant="ghost" size="sm" className="gap-1" onClick={() => openEditor(entry)} disabled={jobRunning}>
+                          <Pencil className="w-3 h-3" />
+                          Edit
+                        </Button>
+                        {entry.status !== "ignored" && (
+                          <Button variant="ghost" size="sm" className="gap-1" onClick={() => handleIgnore(entry)}>
+                            <EyeOff className="w-3 h-3" />
+                            Ignore
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <UrlListImportDialog open={listDialogOpen} onOpenChange={setListDialogOpen} onQueued={setJobId} />
+
+      <Dialog open={editing !== null} onOpenChange={open => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit URL</DialogTitle>
+            <DialogDescription>Correct the address, then import it again.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="importUrl">URL</Label>
+            <Input id="importUrl" value={editedUrl} onChange={event => setEditedUrl(event.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveAndRetry} disabled={!editedUrl.trim()}>
+              Save and retry
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ImportsPage;
@@ -1,132 +1,281 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Recipe } from "@/types/recipe";
 import { RecipeCard } from "@/components/RecipeCard";
 import { RecipeSearch } from "@/components/RecipeSearch";
-import { RecipeDetail } from "@/components/RecipeDetail";
-import { RecipeForm } from "@/components/RecipeForm";
+import { ImportProgressPanel } from "@/components/ImportProgressPanel";
+import { PantryPanel } from "@/components/PantryPanel";
+import { CollectionsSidebar } from "@/components/CollectionsSidebar";
+import { LoadingScreen } from "@/components/LoadingScreen";
 import { Button } from "@/components/ui/button";
-import { Plus, RefreshCw } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { ArrowDown, ArrowUp, CalendarDays, Copy, History, Plus, RefreshCw, Refrigerator, Save, ShoppingCart, X } from "lucide-react";
 import { useRecipes } from "@/hooks/useRecipes";
+import { useRecipeSearch } from "@/hooks/useRecipeSearch";
+import { usePantry } from "@/hooks/usePantry";
+import { Collection, CollectionKind, useCollections } from "@/hooks/useCollections";
+import { rankByPantry } from "@/lib/pantry";
+import { activeFilterCount, applyFilters, emptyFilters, filterQueryString, parseFilters, RecipeFilters, RecipeSort, sortRecipes, SORT_OPTIONS, writeFilters } from "@/lib/recipeFilters";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { fetchActiveImportJob, useImportJob } from "@/hooks/useImportJob";
+import { RecipeImportService } from "@/services/recipeImporter";
 import heroImage from "@/assets/recipe-hero.jpg";
 const Index = () => {
-  const { recipes, loading, saveRecipe, deleteRecipe, addComment } = useRecipes();
+  const { recipes, loading, refetch } = useRecipes();
+  const { collections, createCollection, updateCollection, deleteCollection, removeRecipe, reorderRecipes } = useCollections();
   const { toast } = useToast();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
-  const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [importJobId, setImportJobId] = useState<string | null>(null);
+  const { job: importJob, rows: importRows } = useImportJob(importJobId);
 
-  // Get all available tags from recipes
-  const availableTags = useMemo(() => {
-    const allTags = recipes.flatMap(recipe => recipe.tags);
-    return Array.from(new Set(allTags)).sort();
-  }, [recipes]);
+  // Pick up an import that is still running from an earlier visit
+  useEffect(() => {
+    fetchActiveImportJob()
+      .then(job => job && setImportJobId(job.id))
+      .catch(error => console.error('Error loading active import:', error));
+  }, []);
 
-  // Filter recipes based on search and tags
-  const filteredRecipes = useMemo(() => {
-    return recipes.filter(recipe => {
-      const matchesSearch = recipe.title.toLowerCase().includes(searchQuery.toLowerCase()) || recipe.description.toLowerCase().includes(searchQuery.toLowerCase()) || recipe.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()));
-      const matchesTags = selectedTags.length === 0 || selectedTags.every(tag => recipe.tags.includes(tag));
-      return matchesSearch && matchesTags;
+  // Show newly imported recipes as they arrive
+  const importedCount = importJob?.imported_rows ?? 0;
+  useEffect(() => {
+    if (importedCount > 0) refetch();
+  }, [importedCount, refetch]);
+
+  // Search query, filters and sort order live in the URL so filtered views can be shared and bookmarked
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+  const searchQuery = filters.query;
+  const searchMatches = useRecipeSearch(searchQuery);
+  const pantryOpen = searchParams.get("pantry") === "1";
+  const [pantryItems, setPantryItems] = usePantry();
+  const collectionId = searchParams.get("collection");
+  const activeCollection = collections.find(collection => collection.id === collectionId) ?? null;
+  const manualCollection = activeCollection?.kind === "manual" ? activeCollection : null;
+
+  const handleFiltersChange = (next: RecipeFilters) => {
+    setSearchParams(prev => writeFilters(prev, next), { replace: true });
+  };
+
+  const handleSearch = (query: string) => {
+    handleFiltersChange({ ...filters, query });
+  };
+
+  const handleTogglePantry = () => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (pantryOpen) {
+        next.delete("pantry");
+      } else {
+        next.set("pantry", "1");
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  const handleClearFilters = () => {
+    setSearchParams(prev => writeFilters(prev, emptyFilters()));
+  };
+
+  // A smart collection opens with its saved filters in the URL, where they can be adjusted
+  // and saved back; a manual collection narrows the list to its own recipes
+  const handleSelectCollection = (collection: Collection | null) => {
+    setSearchParams(prev => {
+      const saved = collection?.kind === "smart" ? parseFilters(new URLSearchParams(collection.searchParams)) : emptyFilters();
+      const next = writeFilters(prev, saved);
+      if (collection) {
+        next.set("collection", collection.id);
+      } else {
+        next.delete("collection");
+      }
+      return next;
     });
-  }, [recipes, searchQuery, selectedTags]);
+  };
+
+  const currentSearch = filterQueryString(filters);
+  const smartSearchChanged = activeCollection?.kind === "smart" &&
+    filterQueryString(parseFilters(new URLSearchParams(activeCollection.searchParams))) !== currentSearch;
 
-  const handleAddComment = async (recipeId: string, commentText: string) => {
+  const handleCreateCollection = async (name: string, kind: CollectionKind) => {
     try {
-      await addComment(recipeId, commentText);
+      const id = await createCollection(name, kind, currentSearch);
+      setSearchParams(prev => {
+        const next = kind === "manual" ? writeFilters(prev, emptyFilters()) : new URLSearchParams(prev);
+        next.set("collection", id);
+        return next;
+      });
       toast({
-        title: "Comment added",
-        description: "Your comment has been added successfully.",
+        title: kind === "smart" ? "Search saved" : "Collection created",
+        description: name,
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to add comment. Please try again.",
+        description: "Failed to save collection. Please try again.",
         variant: "destructive",
       });
+      throw error;
     }
   };
 
-  const handleEditRecipe = (recipe: Recipe) => {
-    setEditingRecipe(recipe);
-    setSelectedRecipe(null);
+  const handleRenameCollection = async (collection: Collection, name: string) => {
+    try {
+      await updateCollection(collection.id, { name });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to rename collection. Please try again.",
+        variant: "destructive",
+      });
+      throw error;
+    }
   };
 
-  const handleSaveRecipe = async (updatedRecipe: Recipe) => {
+  const handleDeleteCollection = async (collection: Collection) => {
     try {
-      await saveRecipe(updatedRecipe);
-      setEditingRecipe(null);
+      await deleteCollection(collection.id);
+      if (collection.id === collectionId) handleSelectCollection(null);
       toast({
-        title: "Recipe saved",
-        description: "Your recipe has been saved successfully.",
+        title: "Collection deleted",
+        description: collection.name,
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to save recipe. Please try again.",
+        description: "Failed to delete collection. Please try again.",
         variant: "destructive",
       });
     }
   };
 
-  const handleDeleteRecipe = async (recipeId: string) => {
+  const handleUpdateSmartCollection = async () => {
+    if (!activeCollection) return;
     try {
-      await deleteRecipe(recipeId);
-      setEditingRecipe(null);
+      await updateCollection(activeCollection.id, { searchParams: currentSearch });
       toast({
-        title: "Recipe deleted",
-        description: "Your recipe has been deleted successfully.",
+        title: "Collection updated",
+        description: activeCollection.name,
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to delete recipe. Please try again.",
+        description: "Failed to update collection. Please try again.",
         variant: "destructive",
       });
     }
   };
 
-  const handleCreateRecipe = () => {
-    const newRecipe: Recipe = {
-      id: `temp-${Date.now()}`,
-      title: "",
-      description: "",
-      rating: 0,
-      tags: [],
-      ingredients: [],
-      instructions: [],
-      cookTime: 0,
-      servings: 1,
-        calories: 0,
-      comments: [],
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    setEditingRecipe(newRecipe);
+  const handleMoveRecipe = (recipeId: string, offset: number) => {
+    if (!manualCollection) return;
+    const ids = [...manualCollection.recipeIds];
+    const from = ids.indexOf(recipeId);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= ids.length) return;
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    reorderRecipes(manualCollection.id, ids).catch(() =>
+      toast({
+        title: "Error",
+        description: "Failed to reorder collection. Please try again.",
+        variant: "destructive",
+      })
+    );
   };
 
-  const handleRefreshFromBot = async () => {
-    setIsRefreshing(true);
+  const handleRemoveFromCollection = async (recipe: Recipe) => {
+    if (!manualCollection) return;
     try {
-      // Use the fixed Google Sheets ID
-      const spreadsheetId = "1Md5ekUcTQW054tCnmFXIheJHeDMl2C9YkAKyOUTBR6g";
-
-      const { data, error } = await supabase.functions.invoke('import-recipes-from-sheets', {
-        body: { spreadsheetId, sheetName: 'Sheet1' }
+      await removeRecipe(manualCollection.id, recipe.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to remove recipe from collection. Please try again.",
+        variant: "destructive",
       });
+    }
+  };
 
-      if (error) throw error;
+  // Get all available tags from recipes
+  const availableTags = useMemo(() => {
+    const allTags = recipes.flatMap(recipe => recipe.tags);
+    return Array.from(new Set(allTags)).sort();
+  }, [recipes]);
 
-      toast({
-        title: "Import complete",
-        description: `Imported: ${data.imported}, Skipped: ${data.skipped}, Failed: ${data.failed}`,
-      });
+  // Filter recipes based on search and filters. Full-text matches come ranked from the
+  // server; until they arrive, or if the search fails, titles, descriptions and tags
+  // are matched locally.
+  const filteredRecipes = useMemo(() => {
+    const byId = new Map(recipes.map(recipe => [recipe.id, recipe]));
+    const collectionRecipes = manualCollection
+      ? manualCollection.recipeIds.map(id => byId.get(id)).filter((recipe): recipe is Recipe => recipe !== undefined)
+      : recipes;
+    const filtered = applyFilters(collectionRecipes, filters);
+
+    if (searchQuery.trim() && searchMatches) {
+      const rank = (recipe: Recipe) => searchMatches.get(recipe.id)?.rank ?? 0;
+      return filtered
+        .filter(recipe => searchMatches.has(recipe.id))
+        .sort((a, b) => rank(b) - rank(a));
+    }
+
+    const query = searchQuery.toLowerCase();
+    return filtered.filter(recipe =>
+      recipe.title.toLowerCase().includes(query) || recipe.description.toLowerCase().includes(query) || recipe.tags.some(tag => tag.toLowerCase().includes(query))
+    );
+  }, [recipes, manualCollection, filters, searchQuery, searchMatches]);
+
+  // With pantry items listed, show only recipes that use some of them, the most complete first
+  const pantryMatches = useMemo(
+    () => (pantryOpen && pantryItems.length > 0 ? rankByPantry(filteredRecipes, pantryItems) : null),
+    [filteredRecipes, pantryItems, pantryOpen]
+  );
+  const displayedRecipes = sortRecipes(pantryMatches ? pantryMatches.map(match => match.recipe) : filteredRecipes, filters.sort);
+  const missingById = new Map(pantryMatches?.map(match => [match.recipe.id, match.missing]));
 
-      // Refresh the recipes list
-      window.location.reload();
+  // Reordering only makes sense while the collection is shown in its own order
+  const canReorder = manualCollection !== null && !pantryMatches && !searchQuery.trim() &&
+    filters.sort === "relevance" && activeFilterCount(filters) === 0;
+
+  const renderCollectionActions = (recipe: Recipe, index: number) => manualCollection && (
+    <>
+      {canReorder && (
+        <>
+          <Button variant="outline" size="icon" onClick={() => handleMoveRecipe(recipe.id, -1)} disabled={index === 0} title="Move up">
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => handleMoveRecipe(recipe.id, 1)} disabled={index === displayedRecipes.length - 1} title="Move down">
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+        </>
+      )}
+      <Button variant="outline" size="icon" onClick={() => handleRemoveFromCollection(recipe)} title={`Remove from ${manualCollection.name}`}>
+        <X className="w-4 h-4" />
+      </Button>
+    </>
+  );
+
+  const handleViewRecipe = (recipe: Recipe) => {
+    navigate(`/recipes/${recipe.id}`);
+  };
+
+  const handleCreateRecipe = () => {
+    navigate("/recipes/new");
+  };
+
+  const handleRefreshFromBot = async () => {
+    setIsRefreshing(true);
+    try {
+      const result = await RecipeImportService.importFromSources();
+      if (!result.success) throw new Error(result.error);
+
+      if (result.jobId) {
+        setImportJobId(result.jobId);
+      } else {
+        toast({
+          title: "Nothing to import",
+          description: "The spreadsheet sources have no URLs.",
+        });
+      }
     } catch (error) {
       toast({
         title: "Error",
@@ -137,97 +286,122 @@ const Index = () => {
       setIsRefreshing(false);
     }
   };
-  if (editingRecipe) {
-    return (
-      <div className="min-h-screen bg-background">
-        <div className="container mx-auto px-4 py-8">
-          <RecipeForm 
-            recipe={editingRecipe} 
-            onSave={handleSaveRecipe} 
-            onCancel={() => setEditingRecipe(null)}
-            onDelete={handleDeleteRecipe}
-            isNewRecipe={!recipes.find(r => r.id === editingRecipe.id)}
-          />
-        </div>
-      </div>
-    );
-  }
-
-  if (selectedRecipe) {
-    return <div className="min-h-screen bg-background">
-        <div className="container mx-auto px-4 py-8">
-          <RecipeDetail recipe={selectedRecipe} onBack={() => setSelectedRecipe(null)} onEdit={handleEditRecipe} onAddComment={handleAddComment} />
-        </div>
-      </div>;
-  }
-
   if (loading) {
-    return (
-      <div className="min-h-screen bg-background flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-lg">Loading recipes...</p>
-        </div>
-      </div>
-    );
+    return <LoadingScreen message="Loading recipes..." />;
   }
-  return <div className="min-h-screen bg-background">
-      {/* Hero Section */}
-      <div className="relative h-[400px] overflow-hidden">
-        <img src={heroImage} alt="Recipe Collection Hero" className="w-full h-full object-cover" />
-        <div className="absolute inset-0 bg-gradient-to-r from-recipe-brown/80 to-recipe-brown/40" />
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="text-center text-white space-y-4">
-            <h1 className="text-4xl md:text-5xl font-bold">Alon's Recipe Collection</h1>
-            <p className="text-lg md:text-xl text-white/90 max-w-2xl">My favorite recipes with personal notes and ratings</p>
+  return <SidebarProvider>
+      <CollectionsSidebar
+        collections={collections}
+        activeId={activeCollection?.id ?? null}
+        canSaveSearch={currentSearch !== ""}
+        onSelect={handleSelectCollection}
+        onCreate={handleCreateCollection}
+        onRename={handleRenameCollection}
+        onDelete={handleDeleteCollection}
+      />
+      <SidebarInset className="min-h-screen bg-background">
+        {/* Hero Section */}
+        <div className="relative h-[400px] overflow-hidden">
+          <img src={heroImage} alt="Recipe Collection Hero" className="w-full h-full object-cover" />
+          <div className="absolute inset-0 bg-gradient-to-r from-recipe-brown/80 to-recipe-brown/40" />
+          <div className="absolute inset-0 flex items-center justify-center">
+            <div className="text-center text-white space-y-4">
+              <h1 className="text-4xl md:text-5xl font-bold">Alon's Recipe Collection</h1>
+              <p className="text-lg md:text-xl text-white/90 max-w-2xl">My favorite recipes with personal notes and ratings</p>
+            </div>
           </div>
         </div>
-      </div>
-
-      {/* Main Content */}
-      <div className="container mx-auto px-4 py-8 space-y-8">
-        {/* Search and Filter Section */}
-        <div className="bg-card rounded-lg p-6 shadow-[var(--shadow-card)]">
-          <div className="flex items-center justify-between mb-6">
-            <h2 className="text-2xl font-semibold">Browse Recipes</h2>
-            <div className="flex gap-2">
-              <Button 
-                onClick={handleRefreshFromBot} 
-                variant="outline" 
-                className="gap-2"
-                disabled={isRefreshing}
-              >
-                <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
-                Refresh from Bot
-              </Button>
-              <Button onClick={handleCreateRecipe} className="gap-2">
-                <Plus className="w-4 h-4" />
-                Add Recipe
-              </Button>
+
+        {/* Main Content */}
+        <div className="container mx-auto px-4 py-8 space-y-8">
+          {/* Search and Filter Section */}
+          <div className="bg-card rounded-lg p-6 shadow-[var(--shadow-card)]">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+              <div className="flex items-center gap-2">
+                <SidebarTrigger />
+                <h2 className="text-2xl font-semibold">{activeCollection?.name ?? "Browse Recipes"}</h2>
+                {smartSearchChanged && (
+                  <Button onClick={handleUpdateSmartCollection} variant="ghost" size="sm" className="gap-1">
+                    <Save className="w-4 h-4" />
+                    Save changes
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={handleTogglePantry} variant={pantryOpen ? "default" : "outline"} className="gap-2">
+                  <Refrigerator className="w-4 h-4" />
+                  Pantry
+                </Button>
+                <Button 
+                  onClick={handleRefreshFromBot} 
+                  variant="outline" 
+                  className="gap-2"
+                  disabled={isRefreshing || (importJob !== null && importJob.status !== "completed")}
+                >
+                  <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+                  Refresh from Bot
+                </Button>
+                <Button onClick={() => navigate("/plan")} variant="outline" className="gap-2">
+                  <CalendarDays className="w-4 h-4" />
+                  Meal plan
+                </Button>
+                <Button onClick={() => navigate("/shopping")} variant="outline" className="gap-2">
+                  <ShoppingCart className="w-4 h-4" />
+                  Shopping
+                </Button>
+                <Button onClick={() => navigate("/duplicates")} variant="outline" className="gap-2">
+                  <Copy className="w-4 h-4" />
+                  Duplicates
+                </Button>
+                <Button onClick={() => navigate("/imports")} variant="outline" className="gap-2">
+                  <History className="w-4 h-4" />
+                  Imports
+                </Button>
+                <Button onClick={handleCreateRecipe} className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  Add Recipe
+                </Button>
+              </div>
             </div>
-          </div>
           
-          <RecipeSearch onSearch={setSearchQuery} onTagFilter={setSelectedTags} availableTags={availableTags} selectedTags={selectedTags} />
-        </div>
+            <RecipeSearch filters={filters} onSearch={handleSearch} onFiltersChange={handleFiltersChange} onClearFilters={handleClearFilters} availableTags={availableTags} />
+          </div>
 
-        {/* Results Summary */}
-        <div className="flex items-center justify-between">
-          <h3 className="text-lg font-medium">
-            {filteredRecipes.length} recipe{filteredRecipes.length !== 1 ? 's' : ''} found
-          </h3>
-        </div>
+          {importJob && (
+            <ImportProgressPanel job={importJob} rows={importRows} onDismiss={() => setImportJobId(null)} />
+          )}
+
+          {pantryOpen && <PantryPanel items={pantryItems} onChange={setPantryItems} onClose={handleTogglePantry} />}
 
-        {/* Recipe Grid */}
-        {filteredRecipes.length === 0 ? <div className="text-center py-12">
-            <div className="text-6xl mb-4">🔍</div>
-            <h3 className="text-xl font-semibold mb-2">No recipes found</h3>
-            <p className="text-muted-foreground">
-              Try adjusting your search terms or filters
-            </p>
-          </div> : <div className="grid md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {filteredRecipes.map(recipe => <RecipeCard key={recipe.id} recipe={recipe} onView={setSelectedRecipe} />)}
-          </div>}
-      </div>
-    </div>;
+          {/* Results Summary */}
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium">
+              {displayedRecipes.length} recipe{displayedRecipes.length !== 1 ? 's' : ''} found
+            </h3>
+            <Select value={filters.sort} onValueChange={value => handleFiltersChange({ ...filters, sort: value as RecipeSort })}>
+              <SelectTrigger className="w-44" aria-label="Sort recipes">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Recipe Grid */}
+          {displayedRecipes.length === 0 ? <div className="text-center py-12">
+              <div className="text-6xl mb-4">🔍</div>
+              <h3 className="text-xl font-semibold mb-2">No recipes found</h3>
+              <p className="text-muted-foreground">
+                {manualCollection && manualCollection.recipeIds.length === 0 ? "Add recipes to this collection from their pages" : "Try adjusting your search terms or filters"}
+              </p>
+            </div> : <div className="grid md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {displayedRecipes.map((recipe, index) => <RecipeCard key={recipe.id} recipe={recipe} onView={handleViewRecipe} snippet={searchMatches?.get(recipe.id)?.snippet} missingIngredients={missingById.get(recipe.id)} actions={renderCollectionActions(recipe, index)} />)}
+            </div>}
+        </div>
+      </SidebarInset>
+    </SidebarProvider>;
 };
 export default Index;
\ No newline at end of file
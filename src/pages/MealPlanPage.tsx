@@ -0,0 +1,300 @@
+import { DragEvent, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { addMonths, addWeeks, endOfMonth, endOfWeek, format, startOfMonth, startOfWeek } from "date-fns";
+import { Recipe } from "@/types/recipe";
+import { useRecipes } from "@/hooks/useRecipes";
+import { useMealPlans } from "@/hooks/useMealPlans";
+import { useMealPlanEntries } from "@/hooks/useMealPlanEntries";
+import { useToast } from "@/hooks/use-toast";
+import {
+  dateKey,
+  ENTRY_DRAG_TYPE,
+  entriesByDay,
+  MealPlanEntry,
+  MealSlot,
+  parseDateKey,
+  RECIPE_DRAG_TYPE,
+  sumNutrition,
+  WEEK_STARTS_ON,
+  weekDays,
+} from "@/lib/mealPlan";
+import { MealPlanWeek } from "@/components/MealPlanWeek";
+import { MealPlanMonth } from "@/components/MealPlanMonth";
+import { MealPlanNutrition } from "@/components/MealPlanNutrition";
+import { NameDialog } from "@/components/NameDialog";
+import { LoadingScreen } from "@/components/LoadingScreen";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, CalendarDays, ChevronLeft, ChevronRight, Flame, Plus, Search, ShoppingCart } from "lucide-react";
+
+type PlanView = "week" | "month";
+
+const MealPlanPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { recipes, loading: recipesLoading } = useRecipes();
+  const { plans, loading: plansLoading, createPlan } = useMealPlans();
+  const [pickerQuery, setPickerQuery] = useState("");
+  const [newPlanOpen, setNewPlanOpen] = useState(false);
+
+  // View, date and plan live in the URL so a week can be bookmarked or shared
+  const view: PlanView = searchParams.get("view") === "month" ? "month" : "week";
+  const dateParam = searchParams.get("date");
+  const focusDate = useMemo(
+    () => (dateParam && /^\d{4}-\d{2}-\d{2}$/.test(dateParam) ? parseDateKey(dateParam) : new Date()),
+    [dateParam]
+  );
+  const planId = searchParams.get("plan") ?? plans[0]?.id ?? null;
+
+  // The month view shows whole weeks, so it also needs the days either side of the month
+  const range = useMemo(() => view === "week"
+    ? { from: startOfWeek(focusDate, { weekStartsOn: WEEK_STARTS_ON }), to: endOfWeek(focusDate, { weekStartsOn: WEEK_STARTS_ON }) }
+    : {
+      from: startOfWeek(startOfMonth(focusDate), { weekStartsOn: WEEK_STARTS_ON }),
+      to: endOfWeek(endOfMonth(focusDate), { weekStartsOn: WEEK_STARTS_ON }),
+    }, [view, focusDate]);
+
+  const { entries, addEntry, moveEntry, updateServings, removeEntry } = useMealPlanEntries(planId, dateKey(range.from), dateKey(range.to));
+
+  const recipesById = useMemo(() => new Map(recipes.map(recipe => [recipe.id, recipe])), [recipes]);
+  const days = useMemo(() => entriesByDay(entries), [entries]);
+
+  // Totals cover the week on screen, or only the days of the month itself
+  const periodEntries = view === "week"
+    ? entries
+    : entries.filter(entry => entry.date.startsWith(format(focusDate, "yyyy-MM")));
+  const periodDays = view === "week" ? 7 : endOfMonth(focusDate).getDate();
+  const periodNutrition = sumNutrition(periodEntries, recipesById);
+
+  const pickerRecipes = useMemo(() => {
+    const query = pickerQuery.trim().toLowerCase();
+    return recipes
+      .filter(recipe => !query || recipe.title.toLowerCase().includes(query) || recipe.tags.some(tag => tag.toLowerCase().includes(query)))
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }, [recipes, pickerQuery]);
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([name, value]) => (value === null ? next.delete(name) : next.set(name, value)));
+      return next;
+    }, { replace: true });
+  };
+
+  const showDate = (date: Date) => updateParams({ date: dateKey(date) });
+  const step = (direction: 1 | -1) =>
+    showDate(view === "week" ? addWeeks(focusDate, direction) : addMonths(focusDate, direction));
+
+  const showError = (description: string) =>
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+
+  const handleDrop = (event: DragEvent, date: string, slot: MealSlot) => {
+    const entryId = event.dataTransfer.getData(ENTRY_DRAG_TYPE);
+    const recipeId = event.dataTransfer.getData(RECIPE_DRAG_TYPE);
+    if (entryId) {
+      moveEntry(entryId, date, slot).catch(() => showError("Failed to move meal. Please try again."));
+    } else if (recipeId) {
+      addEntry(recipeId, date, slot).catch(() => showError("Failed to add meal. Please try again."));
+    }
+  };
+
+  const handleServingsChange = (entry: MealPlanEntry, servings: number | null) => {
+    updateServings(entry.id, servings).catch(() => showError("Failed to change servings. Please try again."));
+  };
+
+  const handleRemove = (entry: MealPlanEntry) => {
+    removeEntry(entry.id).catch(() => showError("Failed to remove meal. Please try again."));
+  };
+
+  const handleCreatePlan = async (name: string) => {
+    try {
+      const id = await createPlan(name);
+      updateParams({ plan: id });
+    } catch (error) {
+      showError("Failed to create plan. Please try again.");
+      throw error;
+    }
+  };
+
+  const handleViewRecipe = (recipe: Recipe) => {
+    navigate(`/recipes/${recipe.id}`);
+  };
+
+  if (recipesLoading || plansLoading) {
+    return <LoadingScreen message="Loading meal plan..." />;
+  }
+
+  const title = view === "week"
+    ? `${format(range.from, "MMM d")} – ${format(range.to, "MMM d, yyyy")}`
+    : format(focusDate, "MMMM yyyy");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/")} aria-label="Back to recipes">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <h1 className="text-2xl font-semibold flex items-center gap-2">
+              <CalendarDays className="w-5 h-5" />
+              Meal plan
+            </h1>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {plans.length > 0 && (
+              <Select value={planId ?? undefined} onValueChange={value => updateParams({ plan: value })}>
+                <SelectTrigger className="w-44" aria-label="Plan">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {plans.map(plan => (
+                    <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {planId && (
+              <Button variant="outline" onClick={() => navigate(`/shopping?plan=${planId}&week=${dateKey(weekDays(focusDate)[0])}`)} className="gap-2">
+                <ShoppingCart className="w-4 h-4" />
+                Shopping list
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setNewPlanOpen(true)} className="gap-2">
+              <Plus className="w-4 h-4" />
+              New plan
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => step(-1)} aria-label={`Previous ${view}`}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" onClick={() => updateParams({ date: null })}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => step(1)} aria-label={`Next ${view}`}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <h2 className="text-lg font-medium ml-2">{title}</h2>
+          </div>
+          <Tabs value={view} onValueChange={value => updateParams({ view: value === "month" ? "month" : null })}>
+            <TabsList>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="month">Month</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        {!planId ? (
+          <div className="text-center py-12 text-muted-foreground">
+            No meal plans yet. Create one to start planning.
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-[1fr_18rem]">
+            <div className="space-y-6 min-w-0">
+              {view === "week" ? (
+                <MealPlanWeek
+                  days={weekDays(focusDate)}
+                  entriesByDay={days}
+                  recipesById={recipesById}
+                  onDrop={handleDrop}
+                  onServingsChange={handleServingsChange}
+                  onRemove={handleRemove}
+                  onViewRecipe={handleViewRecipe}
+                />
+              ) : (
+                <MealPlanMonth
+                  month={focusDate}
+                  entriesByDay={days}
+                  recipesById={recipesById}
+                  onDrop={handleDrop}
+                  onSelectDay={day => updateParams({ view: null, date: dateKey(day) })}
+                />
+              )}
+
+              <MealPlanNutrition label={view === "week" ? "this week" : format(focusDate, "MMMM")} nutrition={periodNutrition} days={periodDays} />
+            </div>
+
+            {/* Recipes to drag onto the calendar */}
+            <Card className="h-fit lg:sticky lg:top-4">
+              <CardHeader className="pb-3 space-y-3">
+                <h3 className="font-semibold">Recipes</h3>
+                <div className="relative">
+                  <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={pickerQuery}
+                    onChange={event => setPickerQuery(event.target.value)}
+                    placeholder="Find a recipe..."
+                    className="pl-10"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Drag a recipe onto a {view === "week" ? "meal" : "day"}.
+                </p>
+              </CardHeader>
+              <CardContent className="p-0">
+                <ScrollArea className="h-[32rem]">
+                  <div className="grid grid-cols-2 gap-2 px-4 pb-4">
+                    {pickerRecipes.map(recipe => (
+                      <div
+                        key={recipe.id}
+                        draggable
+                        onDragStart={event => {
+                          event.dataTransfer.setData(RECIPE_DRAG_TYPE, recipe.id);
+                          event.dataTransfer.effectAllowed = "copy";
+                        }}
+                        className="rounded-md border overflow-hidden cursor-grab active:cursor-grabbing hover:border-primary"
+                        title={recipe.title}
+                      >
+                        <div className="aspect-video bg-gradient-to-br from-recipe-cream to-secondary">
+                          {recipe.image ? (
+                            <img src={recipe.image} alt="" draggable={false} className="w-full h-full object-cover" />
+                          ) : (
+                            <div className="w-full h-full flex items-center justify-center text-xl">🍳</div>
+                          )}
+                        </div>
+                        <div className="p-1.5 space-y-0.5">
+                          <div className="text-xs font-medium line-clamp-2">{recipe.title}</div>
+                          {typeof recipe.calories === "number" && (
+                            <div className="text-[0.7rem] text-muted-foreground flex items-center gap-1">
+                              <Flame className="w-3 h-3" />
+                              {recipe.calories} kcal
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+
+      <NameDialog
+        title="New meal plan"
+        description="A separate calendar of meals, e.g. for a holiday or a second household."
+        initialName=""
+        placeholder="Passover week"
+        open={newPlanOpen}
+        onOpenChange={setNewPlanOpen}
+        onSave={handleCreatePlan}
+      />
+    </div>
+  );
+};
+
+export default MealPlanPage;
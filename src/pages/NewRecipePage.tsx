@@ -0,0 +1,70 @@
+import { useMemo } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Recipe } from "@/types/recipe";
+import { RecipeForm } from "@/components/RecipeForm";
+import { persistRecipe } from "@/hooks/useRecipes";
+import { useToast } from "@/hooks/use-toast";
+
+const NewRecipePage = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  const newRecipe = useMemo<Recipe>(() => ({
+    id: `temp-${Date.now()}`,
+    title: "",
+    description: "",
+    rating: 0,
+    tags: [],
+    ingredients: [],
+    instructions: [],
+    cookTime: 0,
+    servings: 1,
+    calories: 0,
+    comments: [],
+    createdAt: new Date(),
+    updatedAt: new Date()
+  }), []);
+
+  const handleCancel = () => {
+    if (location.key !== "default") {
+      navigate(-1);
+    } else {
+      navigate("/");
+    }
+  };
+
+  const handleSaveRecipe = async (recipe: Recipe) => {
+    try {
+      const recipeId = await persistRecipe(recipe);
+      toast({
+        title: "Recipe saved",
+        description: "Your recipe has been saved successfully.",
+      });
+      navigate(`/recipes/${recipeId}`, { replace: true });
+    } catch (error) {
+      console.error('Error saving recipe:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save recipe. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        <RecipeForm
+          recipe={newRecipe}
+          onSave={handleSaveRecipe}
+          onCancel={handleCancel}
+          onDelete={handleCancel}
+          isNewRecipe
+        />
+      </div>
+    </div>
+  );
+};
+
+export default NewRecipePage;
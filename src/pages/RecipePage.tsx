@@ -0,0 +1,62 @@
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { Recipe } from "@/types/recipe";
+import { RecipeDetail } from "@/components/RecipeDetail";
+import { LoadingScreen } from "@/components/LoadingScreen";
+import { useRecipe } from "@/hooks/useRecipe";
+import { useToast } from "@/hooks/use-toast";
+import NotFound from "./NotFound";
+
+const RecipePage = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { recipe, loading, addComment } = useRecipe(id);
+  const { toast } = useToast();
+
+  // Return to the filtered list the user came from, or the home page on a direct visit
+  const handleBack = () => {
+    if (location.key !== "default") {
+      navigate(-1);
+    } else {
+      navigate("/");
+    }
+  };
+
+  const handleEditRecipe = (recipeToEdit: Recipe) => {
+    navigate(`/recipes/${recipeToEdit.id}/edit`);
+  };
+
+  const handleAddComment = async (recipeId: string, commentText: string) => {
+    try {
+      await addComment(recipeId, commentText);
+      toast({
+        title: "Comment added",
+        description: "Your comment has been added successfully.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to add comment. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return <LoadingScreen message="Loading recipe..." />;
+  }
+
+  if (!recipe) {
+    return <NotFound />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8">
+        <RecipeDetail recipe={recipe} onBack={handleBack} onEdit={handleEditRecipe} onAddComment={handleAddComment} />
+      </div>
+    </div>
+  );
+};
+
+export default RecipePage;
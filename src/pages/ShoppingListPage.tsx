@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useShoppingList, ShoppingListItem } from "@/hooks/useShoppingList";
+import { useToast } from "@/hooks/use-toast";
+import { AISLES } from "@/lib/shoppingList";
+import { LoadingScreen } from "@/components/LoadingScreen";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, ShoppingCart, X } from "lucide-react";
+import NotFound from "./NotFound";
+
+const ShoppingListPage = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { list, items, loading, setChecked, addItem, removeItem } = useShoppingList(id);
+  const [hideChecked, setHideChecked] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const showError = (description: string) =>
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+
+  const handleToggle = (item: ShoppingListItem, checked: boolean) => {
+    setChecked(item.id, checked).catch(() => showError("Failed to update item. Please try again."));
+  };
+
+  const handleAdd = async () => {
+    const name = draft.trim();
+    if (!name) return;
+    try {
+      await addItem(name);
+      setDraft("");
+    } catch (error) {
+      showError("Failed to add item. Please try again.");
+    }
+  };
+
+  const handleRemove = (item: ShoppingListItem) => {
+    removeItem(item.id).catch(() => showError("Failed to remove item. Please try again."));
+  };
+
+  if (loading) {
+    return <LoadingScreen message="Loading shopping list..." />;
+  }
+
+  if (!list) {
+    return <NotFound />;
+  }
+
+  const checkedCount = items.filter(item => item.checked).length;
+  const aisleOf = (item: ShoppingListItem) => (AISLES.some(aisle => aisle.value === item.aisle) ? item.aisle : "other");
+  // Aisles in walking order; ticked items sink to the bottom of their aisle
+  const aisles = AISLES
+    .map(aisle => ({
+      ...aisle,
+      items: items
+        .filter(item => aisleOf(item) === aisle.value && (!hideChecked || !item.checked))
+        .sort((a, b) => Number(a.checked) - Number(b.checked) || a.position - b.position),
+    }))
+    .filter(aisle => aisle.items.length > 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container max-w-2xl mx-auto px-4 py-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/shopping")} aria-label="Back to shopping lists">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="min-w-0">
+            <h1 className="text-2xl font-semibold flex items-center gap-2">
+              <ShoppingCart className="w-5 h-5 shrink-0" />
+              <span className="truncate">{list.name}</span>
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {checkedCount} of {items.length} in the basket
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <form
+            className="flex flex-1 gap-2"
+            onSubmit={event => {
+              event.preventDefault();
+              handleAdd();
+            }}
+          >
+            <Input value={draft} onChange={event => setDraft(event.target.value)} placeholder="Add an item..." />
+            <Button type="submit" variant="outline" disabled={!draft.trim()}>
+              Add
+            </Button>
+          </form>
+          <div className="flex items-center gap-2 shrink-0">
+            <Switch id="hideChecked" checked={hideChecked} onCheckedChange={setHideChecked} />
+            <Label htmlFor="hideChecked" className="text-sm">Hide ticked</Label>
+          </div>
+        </div>
+
+        {aisles.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            {items.length === 0 ? "This list is empty." : "Everything is in the basket."}
+          </div>
+        ) : (
+          aisles.map(aisle => (
+            <Card key={aisle.value}>
+              <CardHeader className="py-3">
+                <h2 className="font-semibold">{aisle.label}</h2>
+              </CardHeader>
+              <CardContent className="p-0">
+                <ul className="divide-y">
+                  {aisle.items.map(item => (
+                    <li key={item.id} className="flex items-start gap-3 px-6 py-3">
+                      <Checkbox
+                        id={`item-${item.id}`}
+                        checked={item.checked}
+                        onCheckedChange={checked => handleToggle(item, checked === true)}
+                        className="mt-1 h-5 w-5"
+                      />
+                      <label htmlFor={`item-${item.id}`} className={`flex-1 min-w-0 cursor-pointer ${item.checked ? "text-muted-foreground line-through" : ""}`}>
+                        <div className="flex flex-wrap items-baseline gap-x-2">
+                          <span className="font-medium">{item.name}</span>
+                          {item.amount && <span className="text-sm">{item.amount}</span>}
+                        </div>
+                        {(item.detail || item.recipes.length > 0) && (
+                          <div className="text-xs text-muted-foreground">
+                            {[item.detail, item.recipes.join(", ")].filter(Boolean).join(" · ")}
+                          </div>
+                        )}
+                      </label>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => handleRemove(item)} aria-label={`Remove ${item.name}`}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShoppingListPage;
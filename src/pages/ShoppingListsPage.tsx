@@ -0,0 +1,286 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { addWeeks, format } from "date-fns";
+import { useRecipes } from "@/hooks/useRecipes";
+import { useMealPlans } from "@/hooks/useMealPlans";
+import { useMealPlanEntries } from "@/hooks/useMealPlanEntries";
+import { createShoppingList, ShoppingList, useShoppingLists } from "@/hooks/useShoppingLists";
+import { useMeasurementSystem } from "@/hooks/useMeasurementSystem";
+import { useToast } from "@/hooks/use-toast";
+import { dateKey, entryServings, parseDateKey, weekDays } from "@/lib/mealPlan";
+import { buildShoppingList, ShoppingSource } from "@/lib/shoppingList";
+import { LoadingScreen } from "@/components/LoadingScreen";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, ChevronLeft, ChevronRight, Search, ShoppingCart, Trash2, Users } from "lucide-react";
+
+type SourceMode = "recipes" | "plan";
+
+const ShoppingListsPage = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { recipes, loading: recipesLoading } = useRecipes();
+  const { plans } = useMealPlans();
+  const { lists, loading: listsLoading, deleteList } = useShoppingLists();
+  const [measurementSystem] = useMeasurementSystem();
+  const [query, setQuery] = useState("");
+  // Selected recipes and the servings to shop for
+  const [selected, setSelected] = useState<Map<string, number>>(new Map());
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  // The meal plan page links here with ?plan=...&week=yyyy-MM-dd
+  const mode: SourceMode = searchParams.get("plan") ? "plan" : "recipes";
+  const planId = searchParams.get("plan") ?? plans[0]?.id ?? null;
+  const weekParam = searchParams.get("week");
+  const week = useMemo(
+    () => weekDays(weekParam && /^\d{4}-\d{2}-\d{2}$/.test(weekParam) ? parseDateKey(weekParam) : new Date()),
+    [weekParam]
+  );
+  const { entries } = useMealPlanEntries(mode === "plan" ? planId : null, dateKey(week[0]), dateKey(week[6]));
+
+  const recipesById = useMemo(() => new Map(recipes.map(recipe => [recipe.id, recipe])), [recipes]);
+
+  const sources: ShoppingSource[] = useMemo(() => {
+    if (mode === "plan") {
+      return entries.flatMap(entry => {
+        const recipe = recipesById.get(entry.recipeId);
+        return recipe ? [{ recipe, servings: entryServings(entry, recipe) }] : [];
+      });
+    }
+    return Array.from(selected.entries()).flatMap(([id, servings]) => {
+      const recipe = recipesById.get(id);
+      return recipe ? [{ recipe, servings }] : [];
+    });
+  }, [mode, entries, selected, recipesById]);
+
+  // Lists read best in the system chosen on recipe pages; "as written" gets metric totals
+  const items = useMemo(
+    () => buildShoppingList(sources, measurementSystem === "imperial" ? "imperial" : "metric"),
+    [sources, measurementSystem]
+  );
+
+  const pickerRecipes = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    return recipes
+      .filter(recipe => !search || recipe.title.toLowerCase().includes(search) || recipe.tags.some(tag => tag.toLowerCase().includes(search)))
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }, [recipes, query]);
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([param, value]) => (value === null ? next.delete(param) : next.set(param, value)));
+      return next;
+    }, { replace: true });
+  };
+
+  const handleModeChange = (value: string) => {
+    updateParams(value === "plan" ? { plan: planId } : { plan: null, week: null });
+  };
+
+  const toggleRecipe = (id: string, servings: number) => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.set(id, servings);
+      }
+      return next;
+    });
+  };
+
+  const setServings = (id: string, servings: number) => {
+    setSelected(prev => new Map(prev).set(id, servings));
+  };
+
+  const defaultName = mode === "plan" ? `Week of ${format(week[0], "MMM d")}` : `Shopping ${format(new Date(), "MMM d")}`;
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const id = await createShoppingList(name.trim() || defaultName, items);
+      navigate(`/shopping/${id}`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create shopping list. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleDelete = async (list: ShoppingList) => {
+    try {
+      await deleteList(list.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete shopping list. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (recipesLoading || listsLoading) {
+    return <LoadingScreen message="Loading shopping lists..." />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} aria-label="Back to recipes">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="text-2xl font-semibold flex items-center gap-2">
+            <ShoppingCart className="w-5 h-5" />
+            Shopping lists
+          </h1>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_22rem]">
+          <Card>
+            <CardHeader className="pb-3">
+              <h2 className="font-semibold">New list</h2>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Tabs value={mode} onValueChange={handleModeChange}>
+                <TabsList>
+                  <TabsTrigger value="recipes">Pick recipes</TabsTrigger>
+                  <TabsTrigger value="plan" disabled={plans.length === 0}>From meal plan</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="recipes" className="space-y-3">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                    <Input value={query} onChange={event => setQuery(event.target.value)} placeholder="Find a recipe..." className="pl-10" />
+                  </div>
+                  <ScrollArea className="h-80 rounded-md border">
+                    <ul className="divide-y">
+                      {pickerRecipes.map(recipe => {
+                        const servings = selected.get(recipe.id);
+                        return (
+                          <li key={recipe.id} className="flex items-center gap-3 px-3 py-2">
+                            <Checkbox
+                              id={`recipe-${recipe.id}`}
+                              checked={servings !== undefined}
+                              onCheckedChange={() => toggleRecipe(recipe.id, recipe.servings || 1)}
+                            />
+                            <label htmlFor={`recipe-${recipe.id}`} className="flex-1 min-w-0 truncate cursor-pointer text-sm">
+                              {recipe.title}
+                            </label>
+                            {servings !== undefined && (
+                              <label className="flex items-center gap-1 text-xs text-muted-foreground" title="Servings to shop for">
+                                <Users className="w-3 h-3" />
+                                <Input
+                                  type="number"
+                                  min={1}
+                                  value={servings}
+                                  onChange={event => setServings(recipe.id, Math.max(1, Math.round(Number(event.target.value)) || 1))}
+                                  className="h-7 w-14 px-2 text-xs"
+                                />
+                              </label>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </ScrollArea>
+                </TabsContent>
+
+                <TabsContent value="plan" className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Select value={planId ?? undefined} onValueChange={value => updateParams({ plan: value })}>
+                      <SelectTrigger className="w-44" aria-label="Plan">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {plans.map(plan => (
+                          <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" size="icon" onClick={() => updateParams({ week: dateKey(addWeeks(week[0], -1)) })} aria-label="Previous week">
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <span className="text-sm font-medium">
+                      {format(week[0], "MMM d")} – {format(week[6], "MMM d")}
+                    </span>
+                    <Button variant="outline" size="icon" onClick={() => updateParams({ week: dateKey(addWeeks(week[0], 1)) })} aria-label="Next week">
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {sources.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Nothing is planned for this week.</p>
+                  ) : (
+                    <ul className="text-sm space-y-1">
+                      {entries.map(entry => {
+                        const recipe = recipesById.get(entry.recipeId);
+                        if (!recipe) return null;
+                        return (
+                          <li key={entry.id} className="flex justify-between gap-3">
+                            <span className="truncate">
+                              <span className="text-muted-foreground">{format(parseDateKey(entry.date), "EEE")}</span> {recipe.title}
+                            </span>
+                            <span className="text-muted-foreground shrink-0">{entryServings(entry, recipe)} servings</span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </TabsContent>
+              </Tabs>
+
+              <div className="flex flex-col sm:flex-row sm:items-end gap-3 pt-2 border-t">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="listName">Name</Label>
+                  <Input id="listName" value={name} onChange={event => setName(event.target.value)} placeholder={defaultName} />
+                </div>
+                <Button onClick={handleCreate} disabled={items.length === 0 || isCreating} className="gap-2">
+                  <ShoppingCart className="w-4 h-4" />
+                  {isCreating ? "Creating..." : `Create list (${items.length} item${items.length !== 1 ? "s" : ""})`}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-3">
+            <h2 className="font-semibold">Saved lists</h2>
+            {lists.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No shopping lists yet.</p>
+            ) : (
+              lists.map(list => (
+                <Card key={list.id}>
+                  <CardContent className="p-4 flex items-center justify-between gap-3">
+                    <button type="button" onClick={() => navigate(`/shopping/${list.id}`)} className="min-w-0 text-left">
+                      <div className="font-medium truncate hover:text-primary">{list.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {format(new Date(list.created_at), "MMM d")} · {list.checkedCount} of {list.itemCount} ticked
+                      </div>
+                    </button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(list)} aria-label={`Delete ${list.name}`}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShoppingListsPage;
@@ -1,29 +1,41 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { ParsedIngredient } from '@/lib/ingredients';
+import type { RecipeNutrition } from '@/lib/nutrition';
+import type { RecipeMetadata } from '@/lib/recipeMetadata';
+import type { ExtractionReport } from '@/lib/extractionReport';
 
-interface StructuredIngredient { name: string; amount: string; unit: string }
+type StructuredIngredient = ParsedIngredient;
 
 interface RecipeExtractionResult {
   success: boolean;
   instructions?: string[];
+  // Section of each step ("For the sauce"), '' outside any; absent when the recipe has none
+  instructionGroups?: string[];
   ingredients?: string[];
   structuredIngredients?: StructuredIngredient[];
+  // Title, image, yield, times, tags... when the page publishes schema.org data
+  metadata?: RecipeMetadata;
+  // How the recipe was obtained and how far to trust it
+  report?: ExtractionReport;
   error?: string;
 }
 
 interface CaloriesCalculationResult {
   success: boolean;
-  calories?: number;
+  calories?: number; // Per serving
+  nutrition?: RecipeNutrition;
   error?: string;
 }
 
 export class RecipeExtractorService {
-  static async extractFromUrl(url: string): Promise<RecipeExtractionResult> {
+  // Pass force to skip the server's extraction cache and extract the page again
+  static async extractFromUrl(url: string, { force = false }: { force?: boolean } = {}): Promise<RecipeExtractionResult> {
     try {
       console.log('Extracting recipe from URL:', url);
       
       // Use our Supabase Edge Function for AI-powered extraction
       const { data, error } = await supabase.functions.invoke('extract-recipe', {
-        body: { url }
+        body: { url, force }
       });
 
       if (error) {
@@ -40,8 +52,11 @@ export class RecipeExtractorService {
       return {
         success: true,
         instructions: data.instructions || [],
+        instructionGroups: data.instructionGroups,
         ingredients: data.ingredients || [],
-        structuredIngredients: data.structuredIngredients || []
+        structuredIngredients: data.structuredIngredients || [],
+        metadata: data.metadata,
+        report: data.report
       };
     } catch (error) {
       console.error('Error extracting recipe from URL:', error);
@@ -52,13 +67,16 @@ export class RecipeExtractorService {
     }
   }
 
-  static async calculateCalories(ingredients: { name: string; amount: string; unit: string }[]): Promise<CaloriesCalculationResult> {
+  static async calculateCalories(ingredients: { name: string; amount: string; unit: string }[], servings: number): Promise<CaloriesCalculationResult> {
     try {
       console.log('Calculating calories for ingredients:', ingredients);
       
       // Use our Supabase Edge Function for AI-powered calorie calculation
       const { data, error } = await supabase.functions.invoke('calculate-calories', {
-        body: { ingredients }
+        body: {
+          ingredients: ingredients.map(({ name, amount, unit }) => ({ name, amount, unit })),
+          servings
+        }
       });
 
       if (error) {
@@ -74,7 +92,8 @@ export class RecipeExtractorService {
 
       return {
         success: true,
-        calories: data.calories
+        calories: data.calories,
+        nutrition: data.nutrition
       };
     } catch (error) {
       console.error('Error calculating calories:', error);
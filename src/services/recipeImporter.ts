@@ -0,0 +1,101 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ImportEntry } from '@/lib/importEntries';
+
+interface ImportQueuedResult {
+  success: boolean;
+  // Null when the source had no URLs to import
+  jobId?: string | null;
+  queued?: number;
+  error?: string;
+}
+
+// What an import of a URL would do: extract it, or skip it and why
+export interface ImportPreviewRow {
+  url: string;
+  status: 'new' | 'skipped';
+  reason?: string;
+  recipeId?: string | null;
+}
+
+interface ImportPreviewResult {
+  success: boolean;
+  preview?: ImportPreviewRow[];
+  error?: string;
+}
+
+export class RecipeImportService {
+  // Queue every URL in one configured spreadsheet source, or in all enabled sources,
+  // as a background import job
+  static async importFromSources(sourceId?: string): Promise<ImportQueuedResult> {
+    try {
+      const { data, error } = await supabase.functions.invoke('import-recipes-from-sheets', {
+        body: { sourceId }
+      });
+
+      if (error) throw new Error(error.message || 'Failed to start import');
+      if (!data?.success) throw new Error(data?.error || 'Failed to start import');
+
+      return { success: true, jobId: data.jobId, queued: data.queued };
+    } catch (error) {
+      console.error('Error starting import:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start import'
+      };
+    }
+  }
+
+  // Queue a list of URLs; source names where they came from ("retry", "paste"...)
+  static async importUrls(urls: string[], source: string): Promise<ImportQueuedResult> {
+    return this.importEntries(urls.map(url => ({ url })), source);
+  }
+
+  // Queue URLs along with the titles, tags or notes their list supplied
+  static async importEntries(entries: ImportEntry[], source: string, sourceRef: Record<string, unknown> = {}): Promise<ImportQueuedResult> {
+    try {
+      const { data, error } = await supabase.functions.invoke('import-urls', {
+        body: { entries, source, sourceRef }
+      });
+
+      if (error) throw new Error(error.message || 'Failed to start import');
+      if (!data?.success) throw new Error(data?.error || 'Failed to start import');
+
+      return { success: true, jobId: data.jobId, queued: data.queued };
+    } catch (error) {
+      console.error('Error starting import:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to start import'
+      };
+    }
+  }
+
+  // Dry run of importEntries: checks every URL against saved and ignored recipes without writing anything
+  static async previewEntries(entries: ImportEntry[]): Promise<ImportPreviewResult> {
+    try {
+      const { data, error } = await supabase.functions.invoke('import-urls', {
+        body: { entries, dryRun: true }
+      });
+
+      if (error) throw new Error(error.message || 'Failed to preview import');
+      if (!data?.success) throw new Error(data?.error || 'Failed to preview import');
+
+      return { success: true, preview: data.preview };
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to preview import'
+      };
+    }
+  }
+
+  // Start another worker on a job whose worker stopped; the call runs for as long as
+  // the worker does, so it is not awaited
+  static resumeJob(jobId: string) {
+    supabase.functions.invoke('import-worker', { body: { jobId } })
+      .then(({ error }) => {
+        if (error) console.error('Error resuming import job:', error);
+      });
+  }
+}
@@ -1,3 +1,6 @@
+import type { Quantity } from "@/lib/ingredients";
+import type { RecipeNutrition } from "@/lib/nutrition";
+
 export interface Recipe {
   id: string;
   title: string;
@@ -7,9 +10,11 @@ export interface Recipe {
   tags: string[];
   ingredients: Ingredient[];
   instructions: string[];
+  instructionGroups?: string[]; // Section of each step by position, '' outside any section
   cookTime: number;
   servings: number;
-  calories?: number;
+  calories?: number; // Per serving
+  nutrition?: RecipeNutrition;
   websiteUrl?: string; // Single URL field for all types (YouTube, websites, etc.)
   comments: Comment[];
   createdAt: Date;
@@ -19,8 +24,22 @@ export interface Recipe {
 export interface Ingredient {
   id: string;
   name: string;
-  amount: string;
-  unit: string;
+  amount: string; // Amount as written, e.g. "2 1/4"
+  unit: string; // Unit as written, e.g. "cups"
+  packageSize?: string; // Size of one can or package, e.g. "14 oz"
+  quantity?: Quantity | null; // Parsed numeric amount or range
+  canonicalUnit?: string | null; // Unit registry id, e.g. "cup"
+  preparation?: string; // e.g. "finely chopped"
+  originalText?: string; // Full ingredient line as imported or typed
+  steps?: IngredientStepUse[]; // The instruction steps that use it
+  group?: string; // Section it is listed under, e.g. "For the dough"
+}
+
+// One step's use of an ingredient. Without an amount the step uses all of it.
+export interface IngredientStepUse {
+  step: number; // Index into the recipe's instructions
+  amount?: string; // How much this step uses, in the ingredient's unit, e.g. "1/2"
+  unit?: string; // Unit of the amount once scaling or conversion has changed it from the ingredient's
 }
 
 export interface Comment {
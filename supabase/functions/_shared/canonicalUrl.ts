@@ -0,0 +1,57 @@
+// Canonical form of a recipe URL, so the same page shared through different links
+// (tracking parameters, mobile hosts, youtu.be vs /shorts/) maps to one key.
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'ttclid', 'igshid', 'igsh',
+  'mc_cid', 'mc_eid', '_ga', '_gl', 'ref', 'ref_src', 'ref_url', 'spm', 'share', 'shared', 'si', 'feature',
+  'pp', 'ab_channel', 'cmpid', 'trk', 'ncid', 'sr_share',
+]);
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'mtm_', 'hsa_', 'oly_'];
+
+const YOUTUBE_HOSTS = /^(?:(?:www|m|music)\.)?(?:youtube\.com|youtube-nocookie\.com)$/;
+
+function isTrackingParam(name: string): boolean {
+  const key = name.toLowerCase();
+  return TRACKING_PARAMS.has(key) || TRACKING_PREFIXES.some(prefix => key.startsWith(prefix));
+}
+
+// The video id of any YouTube link form: watch?v=, youtu.be/, /shorts/, /embed/, /live/
+export function youTubeVideoId(url: URL): string | null {
+  const host = url.hostname.toLowerCase();
+  if (host === 'youtu.be') return url.pathname.split('/')[1] || null;
+  if (!YOUTUBE_HOSTS.test(host)) return null;
+  if (url.pathname === '/watch') return url.searchParams.get('v');
+  const match = url.pathname.match(/^\/(?:shorts|embed|live|v)\/([^/?#]+)/);
+  return match ? match[1] : null;
+}
+
+function parseUrl(value: string): URL | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  try {
+    return new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+}
+
+// Canonical URL string, or null when the value is not a web URL.
+// Scheme, "www." and "m." hosts, fragments, tracking parameters, parameter order
+// and trailing slashes are all normalized away.
+export function canonicalizeUrl(value: string): string | null {
+  const url = parseUrl(value);
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) return null;
+
+  const videoId = youTubeVideoId(url);
+  if (videoId) return `https://www.youtube.com/watch?v=${videoId}`;
+
+  const host = url.hostname.toLowerCase().replace(/^(?:www\d*|m|mobile)\./, '');
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+  const path = url.pathname.replace(/\/+$/, '') || '/';
+
+  return `https://${host}${url.port ? `:${url.port}` : ''}${path}${query}`;
+}
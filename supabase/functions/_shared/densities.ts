@@ -0,0 +1,57 @@
+// Approximate densities (grams per millilitre) for staples that are measured
+// by volume in some recipes and by weight in others.
+import { normalizeIngredientName } from './ingredients.ts';
+
+export interface DensityEntry {
+  keywords: string[];
+  gramsPerMl: number;
+}
+
+// Keywords are in normalizeIngredientName form; more specific names come first
+// so "brown sugar" is found before "sugar"
+export const INGREDIENT_DENSITIES: DensityEntry[] = [
+  { keywords: ['almond flour', 'almond meal'], gramsPerMl: 0.41 },
+  { keywords: ['bread flour'], gramsPerMl: 0.55 },
+  { keywords: ['wheat flour'], gramsPerMl: 0.51 },
+  { keywords: ['flour', 'קמח'], gramsPerMl: 0.53 },
+  { keywords: ['brown sugar'], gramsPerMl: 0.93 },
+  { keywords: ['powdered sugar', 'icing sugar', 'confectioner sugar'], gramsPerMl: 0.51 },
+  { keywords: ['sugar', 'סוכר'], gramsPerMl: 0.85 },
+  { keywords: ['butter', 'חמאה'], gramsPerMl: 0.96 },
+  { keywords: ['honey', 'דבש'], gramsPerMl: 1.42 },
+  { keywords: ['maple syrup', 'syrup'], gramsPerMl: 1.32 },
+  { keywords: ['cocoa'], gramsPerMl: 0.42 },
+  { keywords: ['oat', 'rolled oat'], gramsPerMl: 0.38 },
+  { keywords: ['rice', 'אורז'], gramsPerMl: 0.79 },
+  { keywords: ['chocolate chip'], gramsPerMl: 0.72 },
+  { keywords: ['baking soda', 'baking powder'], gramsPerMl: 0.92 },
+  { keywords: ['salt', 'מלח'], gramsPerMl: 1.2 },
+  { keywords: ['olive oil', 'oil', 'שמן'], gramsPerMl: 0.92 },
+  { keywords: ['milk', 'חלב'], gramsPerMl: 1.03 },
+  { keywords: ['cream', 'שמנת'], gramsPerMl: 1.0 },
+  { keywords: ['yogurt', 'יוגורט'], gramsPerMl: 1.03 },
+  { keywords: ['water', 'מים'], gramsPerMl: 1.0 },
+];
+
+// Dry goods that read better in grams than millilitres once converted to metric
+const WEIGHED_STAPLES = new Set([
+  'almond flour', 'almond meal', 'bread flour', 'wheat flour', 'flour', 'קמח',
+  'brown sugar', 'powdered sugar', 'icing sugar', 'confectioner sugar', 'sugar', 'סוכר',
+  'butter', 'חמאה', 'cocoa', 'oat', 'rolled oat', 'rice', 'אורז', 'chocolate chip',
+]);
+
+function matchesKeyword(normalized: string, keyword: string): boolean {
+  return new RegExp(`(^|\\s)${keyword}($|\\s)`).test(normalized);
+}
+
+export function findDensity(name: string): DensityEntry | undefined {
+  const normalized = normalizeIngredientName(name);
+  if (!normalized) return undefined;
+  return INGREDIENT_DENSITIES.find(entry => entry.keywords.some(keyword => matchesKeyword(normalized, keyword)));
+}
+
+// Whether a volume measure of this ingredient should become a weight in metric
+export function isWeighedStaple(name: string): boolean {
+  const entry = findDensity(name);
+  return !!entry && entry.keywords.some(keyword => WEIGHED_STAPLES.has(keyword));
+}
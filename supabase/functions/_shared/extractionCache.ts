@@ -0,0 +1,82 @@
+// Persistent cache of extract-recipe results, keyed by canonical URL.
+// A fresh entry is returned without fetching the page; once it expires the page is
+// fetched again and, if its HTML hash is unchanged, the stored result is reused
+// instead of re-running the extraction.
+//   EXTRACTION_CACHE_TTL_HOURS   how long an entry is served without refetching (default 168)
+// The cache is best-effort: any database error is logged and extraction proceeds uncached.
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+
+export type ExtractionCacheClient = SupabaseClient;
+
+export interface CachedExtraction {
+  canonicalUrl: string;
+  htmlHash: string;
+  // The extract-recipe response body
+  result: Record<string, unknown>;
+  extractedAt: string;
+  expiresAt: string;
+}
+
+const DEFAULT_TTL_HOURS = 168;
+
+export function extractionCacheTtlMs(): number {
+  const hours = Number(Deno.env.get('EXTRACTION_CACHE_TTL_HOURS'));
+  return (hours > 0 ? hours : DEFAULT_TTL_HOURS) * 3600 * 1000;
+}
+
+// Service-role client for the cache table, or null when the function runs without one
+export function extractionCacheClient(): ExtractionCacheClient | null {
+  const url = Deno.env.get('SUPABASE_URL');
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return url && key ? createClient(url, key) : null;
+}
+
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function isFresh(entry: CachedExtraction, now = Date.now()): boolean {
+  return new Date(entry.expiresAt).getTime() > now;
+}
+
+export async function readCachedExtraction(client: ExtractionCacheClient, canonicalUrl: string): Promise<CachedExtraction | null> {
+  const { data, error } = await client
+    .from('extraction_cache')
+    .select('canonical_url, html_hash, result, extracted_at, expires_at')
+    .eq('canonical_url', canonicalUrl)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error reading extraction cache:', error);
+    return null;
+  }
+  if (!data) return null;
+  return {
+    canonicalUrl: data.canonical_url,
+    htmlHash: data.html_hash,
+    result: data.result,
+    extractedAt: data.extracted_at,
+    expiresAt: data.expires_at,
+  };
+}
+
+// Store a result, or push back the expiry of an unchanged one
+export async function writeCachedExtraction(
+  client: ExtractionCacheClient,
+  entry: Omit<CachedExtraction, 'expiresAt' | 'extractedAt'> & { sourceUrl: string; extractedAt?: string },
+): Promise<void> {
+  const now = Date.now();
+  const { error } = await client
+    .from('extraction_cache')
+    .upsert({
+      canonical_url: entry.canonicalUrl,
+      source_url: entry.sourceUrl,
+      html_hash: entry.htmlHash,
+      result: entry.result,
+      extracted_at: entry.extractedAt ?? new Date(now).toISOString(),
+      expires_at: new Date(now + extractionCacheTtlMs()).toISOString(),
+    }, { onConflict: 'canonical_url' });
+
+  if (error) console.error('Error writing extraction cache:', error);
+}
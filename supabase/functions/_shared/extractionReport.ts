@@ -0,0 +1,138 @@
+// Quality report attached to every extract-recipe response, so the person importing
+// a recipe can tell a clean structured-data read from a best-effort guess.
+import type { ParsedIngredient } from './ingredients.ts';
+import type { RecipeMetadata } from './recipeMetadata.ts';
+
+export type ExtractionTier = 'json-ld' | 'microdata' | 'ai' | 'heuristic';
+
+export type ExtractionField =
+  | 'overall' | 'ingredients' | 'quantities' | 'instructions' | 'title' | 'servings' | 'time' | 'image';
+
+// hit: served from the cache without fetching; revalidated: page refetched but unchanged;
+// miss: extracted and stored; bypassed: extracted because the caller forced it
+export type ExtractionCacheStatus = 'hit' | 'revalidated' | 'miss' | 'bypassed';
+
+// Milliseconds per pipeline stage, plus the total
+export type ExtractionTimings = Record<string, number>;
+
+export interface ExtractionReport {
+  tier: ExtractionTier;
+  // "provider/model" when an LLM extracted the recipe
+  model?: string;
+  // Whether ingredient lines were split into amount/unit/name by the LLM or the built-in parser
+  ingredientParser: 'ai' | 'parser';
+  // 0-1 per field; fields the source did not provide are left out
+  confidence: Partial<Record<ExtractionField, number>>;
+  warnings: string[];
+  timings: ExtractionTimings;
+  cache?: ExtractionCacheStatus;
+  // When a cached result was originally extracted
+  cachedAt?: string;
+}
+
+interface ReportInput {
+  tier: ExtractionTier;
+  model?: string;
+  ingredientParser: 'ai' | 'parser';
+  ingredients: ParsedIngredient[];
+  instructions: string[];
+  metadata?: RecipeMetadata;
+  // Warnings noticed along the way ("instructions inferred from title")
+  notes?: string[];
+  timings: ExtractionTimings;
+  startedAt: number;
+}
+
+// How far each tier is trusted before looking at what it returned
+const TIER_CONFIDENCE: Record<ExtractionTier, number> = {
+  'json-ld': 0.95,
+  microdata: 0.9,
+  ai: 0.75,
+  heuristic: 0.4,
+};
+
+const TIER_WARNINGS: Partial<Record<ExtractionTier, string>> = {
+  ai: 'Extracted by AI from the page text; check amounts against the source',
+  heuristic: 'No structured data or AI available; extracted by keyword heuristics',
+};
+
+// Ingredients that are fine without a number
+const UNMEASURED = /\b(to taste|as needed|for serving|for garnish|optional)\b/i;
+
+// A single step longer than this is usually a whole method pasted as one block
+const LONG_STEP_CHARACTERS = 600;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Time a pipeline stage, recording its duration under `stage`
+export async function timed<T>(timings: ExtractionTimings, stage: string, work: () => Promise<T> | T): Promise<T> {
+  const started = Date.now();
+  try {
+    return await work();
+  } finally {
+    timings[stage] = (timings[stage] || 0) + Date.now() - started;
+  }
+}
+
+export function buildExtractionReport(input: ReportInput): ExtractionReport {
+  const base = TIER_CONFIDENCE[input.tier];
+  const confidence: ExtractionReport['confidence'] = {};
+  const warnings = [...(input.notes || [])];
+  const tierWarning = TIER_WARNINGS[input.tier];
+  if (tierWarning) warnings.push(tierWarning);
+
+  const { ingredients, instructions, metadata } = input;
+
+  confidence.ingredients = ingredients.length > 0 ? base : 0;
+  if (ingredients.length === 0) {
+    warnings.push('No ingredients found');
+  } else {
+    const measurable = ingredients.filter(ingredient => !UNMEASURED.test(`${ingredient.name} ${ingredient.preparation}`));
+    const unmeasured = measurable.filter(ingredient => !ingredient.quantity);
+    confidence.quantities = measurable.length > 0 ? round(1 - unmeasured.length / measurable.length) : 1;
+    if (measurable.length > 0 && unmeasured.length === measurable.length) {
+      warnings.push('No quantities found');
+    } else if (unmeasured.length > 0) {
+      warnings.push(`${unmeasured.length} of ${measurable.length} ingredients have no quantity`);
+    }
+
+    const seen = new Set<string>();
+    const duplicates = new Set<string>();
+    for (const ingredient of ingredients) {
+      const key = (ingredient.originalText || ingredient.name).toLowerCase();
+      if (seen.has(key)) duplicates.add(ingredient.originalText || ingredient.name);
+      seen.add(key);
+    }
+    if (duplicates.size > 0) {
+      warnings.push(`Duplicate ingredient lines: ${[...duplicates].join(', ')}`);
+    }
+  }
+
+  if (instructions.length === 0) {
+    confidence.instructions = 0;
+    warnings.push('No instructions found');
+  } else if (instructions.length === 1 && instructions[0].length > LONG_STEP_CHARACTERS) {
+    confidence.instructions = round(base * 0.5);
+    warnings.push('Instructions came as one block of text; split them into steps');
+  } else {
+    confidence.instructions = base;
+  }
+
+  if (metadata?.title) confidence.title = base;
+  if (metadata?.servings) confidence.servings = base;
+  if (metadata?.totalTime || metadata?.cookTime) confidence.time = base;
+  if (metadata?.image) confidence.image = base;
+
+  confidence.overall = round(
+    (confidence.ingredients + (confidence.quantities ?? 0) + confidence.instructions) / 3
+  );
+
+  return {
+    tier: input.tier,
+    ...(input.model ? { model: input.model } : {}),
+    ingredientParser: input.ingredientParser,
+    confidence,
+    warnings,
+    timings: { ...input.timings, total: Date.now() - input.startedAt },
+  };
+}
@@ -0,0 +1,66 @@
+// A URL queued for import together with the values its source supplied alongside it,
+// shared by the spreadsheet and URL-list import paths.
+import { canonicalizeUrl } from './canonicalUrl.ts';
+
+export interface ImportDetails {
+  // Used instead of the title the importer would derive from the page
+  title?: string;
+  tags?: string[];
+  // Saved as a comment on the new recipe
+  notes?: string;
+  submitter?: string;
+}
+
+export interface ImportEntry {
+  url: string;
+  details?: ImportDetails;
+}
+
+// "vegan, quick; #dinner" -> ["vegan", "quick", "dinner"]
+export function splitTags(value: string | undefined | null): string[] {
+  if (!value) return [];
+  return value
+    .split(/[,;\n]/)
+    .map(tag => tag.trim().replace(/^#/, '').trim())
+    .filter(tag => tag.length > 0);
+}
+
+// Combine tag lists, keeping the first spelling of tags that differ only in case
+export function mergeTags(...lists: (string[] | undefined)[]): string[] {
+  const merged = new Map<string, string>();
+  for (const tag of lists.flat()) {
+    if (!tag) continue;
+    const key = tag.toLowerCase();
+    if (!merged.has(key)) merged.set(key, tag);
+  }
+  return [...merged.values()];
+}
+
+// Drop blank URLs and later repeats of the same page, which parallel workers would
+// otherwise import twice
+export function dedupeEntries(entries: ImportEntry[]): ImportEntry[] {
+  const unique: ImportEntry[] = [];
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    const url = entry.url.trim();
+    if (!url) continue;
+    const key = canonicalizeUrl(url) ?? url;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    unique.push({ ...entry, url });
+  }
+  return unique;
+}
+
+// Details with the empty fields left out, or undefined when nothing is left
+export function compactDetails(details: ImportDetails): ImportDetails | undefined {
+  const compact: ImportDetails = {};
+  const title = details.title?.trim();
+  const notes = details.notes?.trim();
+  const submitter = details.submitter?.trim();
+  if (title) compact.title = title;
+  if (details.tags && details.tags.length > 0) compact.tags = details.tags;
+  if (notes) compact.notes = notes;
+  if (submitter) compact.submitter = submitter;
+  return Object.keys(compact).length > 0 ? compact : undefined;
+}
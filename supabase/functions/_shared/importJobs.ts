@@ -0,0 +1,55 @@
+// Bulk imports as background jobs. An import function records one row per URL in
+// import_job_rows and hands the job to the import-worker function, which works
+// through the rows in batches; progress is streamed to the app over Realtime.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import type { ImportEntry } from './importEntries.ts';
+
+export type ImportJobStatus = 'queued' | 'running' | 'completed';
+export type ImportRowStatus = 'pending' | 'processing' | 'imported' | 'skipped' | 'failed';
+
+export interface NewImportJob {
+  // Where the URLs came from ("sheets") and the details needed to find them again
+  source: string;
+  sourceRef: Record<string, unknown>;
+  entries: ImportEntry[];
+  force?: boolean;
+}
+
+// Supabase's edge runtime keeps a function alive for promises handed to waitUntil
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+// Insert in chunks so a large sheet does not become one oversized request
+const INSERT_CHUNK_SIZE = 500;
+
+export async function createImportJob(supabase: SupabaseClient, job: NewImportJob): Promise<string> {
+  const { data, error } = await supabase
+    .from('import_jobs')
+    .insert({ source: job.source, source_ref: job.sourceRef, force: job.force ?? false })
+    .select('id')
+    .single();
+
+  if (error) throw new Error(`Failed to create import job: ${error.message}`);
+
+  const rows = job.entries.map((entry, position) => ({
+    job_id: data.id,
+    position,
+    url: entry.url,
+    details: entry.details ?? null
+  }));
+  for (let start = 0; start < rows.length; start += INSERT_CHUNK_SIZE) {
+    const { error: rowsError } = await supabase.from('import_job_rows').insert(rows.slice(start, start + INSERT_CHUNK_SIZE));
+    if (rowsError) throw new Error(`Failed to queue import rows: ${rowsError.message}`);
+  }
+
+  return data.id;
+}
+
+// Start a worker on the job without waiting for it to finish
+export function dispatchImportWorker(supabase: SupabaseClient, jobId: string): void {
+  const run = supabase.functions.invoke('import-worker', { body: { jobId } })
+    .then(({ error }) => {
+      if (error) console.error(`Import worker for job ${jobId} failed:`, error);
+    });
+
+  if (typeof EdgeRuntime !== 'undefined') EdgeRuntime.waitUntil(run);
+}
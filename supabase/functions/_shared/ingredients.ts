@@ -0,0 +1,251 @@
+// Ingredient line parsing shared by the edge functions and the web app.
+import { UNIT_ALIASES, findUnit } from './units.ts';
+
+// A numeric amount, or a range when `max` is set ("1-2 cups")
+export interface Quantity {
+  value: number;
+  max?: number;
+}
+
+export interface ParsedIngredient {
+  name: string;
+  amount: string;
+  unit: string;
+  quantity: Quantity | null;
+  canonicalUnit: string | null;
+  preparation: string;
+  originalText: string;
+  // Size of one can or package when the line gives it: "14 oz" in "1 (14 oz) can beans"
+  packageSize?: string;
+  // Section of the recipe the line sits in ("For the sauce")
+  group?: string;
+}
+
+export const UNICODE_FRACTIONS: Record<string, number> = {
+  '¼': 1 / 4, '½': 1 / 2, '¾': 3 / 4,
+  '⅐': 1 / 7, '⅑': 1 / 9, '⅒': 1 / 10,
+  '⅓': 1 / 3, '⅔': 2 / 3,
+  '⅕': 1 / 5, '⅖': 2 / 5, '⅗': 3 / 5, '⅘': 4 / 5,
+  '⅙': 1 / 6, '⅚': 5 / 6,
+  '⅛': 1 / 8, '⅜': 3 / 8, '⅝': 5 / 8, '⅞': 7 / 8,
+};
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+
+// "2 1/4", "2½", "1/2", "1.5", "1,5", "½"
+const NUMBER_SOURCE = `(?:\\d+\\s+\\d+\\s*\\/\\s*\\d+|\\d+\\s*[${FRACTION_CHARS}]|\\d+\\s*\\/\\s*\\d+|\\d+(?:[.,]\\d+)?|[${FRACTION_CHARS}])`;
+const RANGE_SEPARATOR_SOURCE = `\\s*(?:-|–|—|to|or|עד)\\s*`;
+
+const LEADING_QUANTITY = new RegExp(`^(${NUMBER_SOURCE})(?:${RANGE_SEPARATOR_SOURCE}(${NUMBER_SOURCE}))?`, 'i');
+// The upper end of a range that repeats its unit: "to 12 cups" in "10 cups to 12 cups water"
+const RANGE_END = new RegExp(`^(${RANGE_SEPARATOR_SOURCE})(${NUMBER_SOURCE})\\s*`, 'i');
+// A package size right after the count: "(14 oz)" in "1 (14 oz) can beans"
+const PACKAGE_SIZE = new RegExp(`^\\((${NUMBER_SOURCE})\\s*([^()]+?)\\)\\s*`);
+const WHOLE_QUANTITY = new RegExp(`^(${NUMBER_SOURCE})(?:${RANGE_SEPARATOR_SOURCE}(${NUMBER_SOURCE}))?$`, 'i');
+
+// Words that stand in for "1" at the start of a line ("a pinch of salt")
+const ARTICLE_QUANTITIES: Record<string, number> = { a: 1, an: 1, one: 1 };
+
+// Convert a single number token ("2 1/4", "½", "1,5") to a number
+export function parseNumber(token: string): number | null {
+  const text = token.trim();
+  if (!text) return null;
+
+  const mixed = text.match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)$/);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    return denominator ? Number(mixed[1]) + Number(mixed[2]) / denominator : null;
+  }
+
+  const unicodeMixed = text.match(new RegExp(`^(\\d+)?\\s*([${FRACTION_CHARS}])$`));
+  if (unicodeMixed) {
+    return Number(unicodeMixed[1] || 0) + UNICODE_FRACTIONS[unicodeMixed[2]];
+  }
+
+  const fraction = text.match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator ? Number(fraction[1]) / denominator : null;
+  }
+
+  const decimal = text.match(/^\d+(?:[.,]\d+)?$/);
+  if (decimal) {
+    return Number(text.replace(',', '.'));
+  }
+
+  return null;
+}
+
+function buildQuantity(first: string, second?: string): Quantity | null {
+  const value = parseNumber(first);
+  if (value === null) return null;
+
+  const max = second ? parseNumber(second) : null;
+  return max !== null && max > value ? { value, max } : { value };
+}
+
+// Parse an amount field ("2 1/4", "1-2", "½") into a numeric quantity
+export function parseQuantity(amount: string | null | undefined): Quantity | null {
+  if (!amount) return null;
+  const text = amount.trim();
+  if (!text) return null;
+
+  const article = ARTICLE_QUANTITIES[text.toLowerCase()];
+  if (article) return { value: article };
+
+  const match = text.match(WHOLE_QUANTITY);
+  return match ? buildQuantity(match[1], match[2]) : null;
+}
+
+// Match a registry unit at the start of `text`, returning the matched text
+function matchLeadingUnit(text: string): string | null {
+  for (const alias of UNIT_ALIASES) {
+    if (text.length < alias.length) continue;
+    const candidate = text.substring(0, alias.length);
+    if (candidate !== alias && candidate.toLowerCase() !== alias.toLowerCase()) continue;
+
+    // The unit has to stand on its own ("g flour" but not "garlic")
+    const next = text.charAt(alias.length);
+    if (next && !/[\s,.)]/.test(next)) continue;
+    if (alias.length <= 2 && next !== ' ' && next !== '') continue;
+
+    if (findUnit(candidate)) return candidate;
+  }
+  return null;
+}
+
+// Split "flour, sifted" into name and preparation note
+function splitPreparation(text: string): { name: string; preparation: string } {
+  const commaIndex = text.indexOf(',');
+  if (commaIndex === -1) {
+    return { name: text.trim(), preparation: '' };
+  }
+  return {
+    name: text.substring(0, commaIndex).trim(),
+    preparation: text.substring(commaIndex + 1).trim()
+  };
+}
+
+// Parse a free-text ingredient line ("2 1/4 cups flour, sifted")
+export function parseIngredient(line: string): ParsedIngredient {
+  const originalText = typeof line === 'string' ? line.trim() : '';
+  const empty: ParsedIngredient = {
+    name: '', amount: '', unit: '', quantity: null, canonicalUnit: null, preparation: '', originalText
+  };
+  if (!originalText) return empty;
+
+  // Drop list bullets
+  let remaining = originalText.replace(/^[-•*·]\s*/, '');
+
+  let amount = '';
+  let quantity: Quantity | null = null;
+  const quantityMatch = remaining.match(LEADING_QUANTITY);
+  if (quantityMatch) {
+    amount = quantityMatch[0].trim();
+    quantity = buildQuantity(quantityMatch[1], quantityMatch[2]);
+    remaining = remaining.substring(quantityMatch[0].length).trim();
+  } else {
+    const articleMatch = remaining.match(/^(a|an|one)\s+/i);
+    if (articleMatch && matchLeadingUnit(remaining.substring(articleMatch[0].length))) {
+      amount = articleMatch[1];
+      quantity = { value: ARTICLE_QUANTITIES[articleMatch[1].toLowerCase()] };
+      remaining = remaining.substring(articleMatch[0].length);
+    }
+  }
+
+  if (!quantity) {
+    const { name, preparation } = splitPreparation(remaining);
+    return { ...empty, name, preparation };
+  }
+
+  let packageSize = '';
+  const packageMatch = remaining.match(PACKAGE_SIZE);
+  if (packageMatch && matchLeadingUnit(packageMatch[2].trim()) === packageMatch[2].trim()) {
+    packageSize = `${packageMatch[1].trim()} ${packageMatch[2].trim()}`;
+    remaining = remaining.substring(packageMatch[0].length);
+  }
+
+  let unit = '';
+  const unitText = matchLeadingUnit(remaining);
+  if (unitText) {
+    unit = unitText;
+    remaining = remaining.substring(unitText.length).trim();
+
+    // "10 cups to 12 cups": the range continues after the unit
+    const rangeEnd = quantity.max === undefined ? remaining.match(RANGE_END) : null;
+    const afterRange = rangeEnd ? remaining.substring(rangeEnd[0].length) : '';
+    const repeatedUnit = rangeEnd ? matchLeadingUnit(afterRange) : null;
+    if (rangeEnd && repeatedUnit && findUnit(repeatedUnit)?.id === findUnit(unit)?.id) {
+      const rangeQuantity = buildQuantity(quantityMatch ? quantityMatch[1] : amount, rangeEnd[2]);
+      if (rangeQuantity?.max !== undefined) {
+        amount = `${amount} ${rangeEnd[1].trim()} ${rangeEnd[2].trim()}`;
+        quantity = rangeQuantity;
+        unit = repeatedUnit;
+        remaining = afterRange.substring(repeatedUnit.length).trim();
+      }
+    }
+
+    // A measure in parentheses after the unit is not part of the name. After a count unit it is
+    // the package size ("1 can (400 g) tomatoes"); after a measured one it restates the amount
+    // in other units ("1 cup (240 ml) milk"), which the original line keeps.
+    const trailingMeasure = remaining.match(PACKAGE_SIZE);
+    if (trailingMeasure && matchLeadingUnit(trailingMeasure[2].trim()) === trailingMeasure[2].trim()) {
+      if (!packageSize && findUnit(unit)?.dimension === 'count') {
+        packageSize = `${trailingMeasure[1].trim()} ${trailingMeasure[2].trim()}`;
+      }
+      remaining = remaining.substring(trailingMeasure[0].length);
+    }
+
+    remaining = remaining.replace(/^of\s+/i, '');
+  }
+
+  const { name, preparation } = splitPreparation(remaining);
+  return {
+    name,
+    amount,
+    unit,
+    quantity,
+    canonicalUnit: unit ? findUnit(unit)?.id ?? null : null,
+    preparation,
+    originalText,
+    ...(packageSize ? { packageSize } : {})
+  };
+}
+
+// Words that describe an ingredient's state rather than what it is
+const DESCRIPTOR_WORDS = new Set([
+  'fresh', 'large', 'medium', 'small', 'extra', 'chopped', 'diced', 'minced', 'sliced', 'grated',
+  'shredded', 'crushed', 'ground', 'whole', 'finely', 'roughly', 'thinly', 'packed', 'softened',
+  'melted', 'cold', 'warm', 'room', 'temperature', 'organic', 'raw', 'cooked', 'dried', 'frozen',
+]);
+
+// Plurals the suffix rules below get wrong ("cookies" is not "cooky", "leaves" is not "leave")
+const IRREGULAR_SINGULARS = new Map([
+  ['cookies', 'cookie'], ['brownies', 'brownie'], ['pies', 'pie'], ['calories', 'calorie'],
+  ['smoothies', 'smoothie'], ['veggies', 'veggie'], ['leaves', 'leaf'], ['loaves', 'loaf'],
+  ['halves', 'half'], ['knives', 'knife'],
+]);
+
+// Reduce a plural English word to its singular form ("tomatoes" -> "tomato")
+export function singularize(word: string): string {
+  const irregular = IRREGULAR_SINGULARS.get(word);
+  if (irregular) return irregular;
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  if (/ies$/.test(word)) return word.slice(0, -3) + 'y';
+  if (/(oes|ches|shes|xes)$/.test(word)) return word.slice(0, -2);
+  if (/[^s]s$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+// Canonical form of an ingredient name for matching: lower-case, singular, no descriptors
+export function normalizeIngredientName(name: string): string {
+  const words = (name || '')
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .split(',')[0]
+    .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word && !DESCRIPTOR_WORDS.has(word))
+    .map(singularize);
+  return words.join(' ').trim();
+}
@@ -0,0 +1,106 @@
+// Run with: deno test --allow-env supabase/functions/_shared/llm.test.ts
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { completeChat, createMockProvider, LlmConfig, LlmError, LlmProvider, loadLlmConfig } from "./llm.ts";
+
+const request = { task: 'test', messages: [{ role: 'user' as const, content: 'Hello' }] };
+const answer = { title: 'Pancakes' };
+
+// A local (OpenAI-compatible) provider whose HTTP calls are answered by `respond`,
+// followed by the mock provider as the fallback
+async function withLocalProvider(
+  models: string,
+  respond: (call: number) => Response,
+  run: (config: LlmConfig, calls: () => number) => Promise<void>,
+) {
+  const originalFetch = globalThis.fetch;
+  let calls = 0;
+  globalThis.fetch = () => Promise.resolve(respond(calls++));
+  Deno.env.set('LLM_PROVIDER', 'local');
+  Deno.env.set('LOCAL_LLM_BASE_URL', 'http://llm.test/v1');
+  Deno.env.set('LOCAL_LLM_MODELS', models);
+  try {
+    const config = loadLlmConfig();
+    config.providers.push(createMockProvider({ test: answer }));
+    await run(config, () => calls);
+  } finally {
+    globalThis.fetch = originalFetch;
+    Deno.env.delete('LLM_PROVIDER');
+    Deno.env.delete('LOCAL_LLM_BASE_URL');
+    Deno.env.delete('LOCAL_LLM_MODELS');
+  }
+}
+
+const completion = (content: string) =>
+  new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 });
+
+Deno.test('falls back to the next provider when one fails', async () => {
+  const failing: LlmProvider = {
+    name: 'openai',
+    models: ['gpt-4o-mini'],
+    complete: () => Promise.reject(new LlmError('bad request', 400)),
+  };
+  const result = await completeChat(request, {
+    providers: [failing, createMockProvider({ test: answer })],
+    timeoutMs: 1000,
+    maxRetries: 2,
+  });
+
+  assertEquals(result.provider, 'mock');
+  assertEquals(JSON.parse(result.content), answer);
+});
+
+Deno.test('retries a rate-limited model after backing off', async () => {
+  await withLocalProvider(
+    'llama3.1',
+    call => (call === 0 ? new Response('slow down', { status: 429 }) : completion('{"ok":true}')),
+    async (config, calls) => {
+      const started = Date.now();
+      const result = await completeChat(request, config);
+
+      assertEquals(result, { content: '{"ok":true}', provider: 'local', model: 'llama3.1' });
+      assertEquals(calls(), 2);
+      assert(Date.now() - started >= 500, 'the retry should wait for the first backoff step');
+    },
+  );
+});
+
+Deno.test('does not retry a 429 for an exhausted quota', async () => {
+  await withLocalProvider(
+    'llama3.1',
+    () => new Response('{"error":{"code":"insufficient_quota"}}', { status: 429 }),
+    async (config, calls) => {
+      const result = await completeChat(request, config);
+
+      assertEquals(result.provider, 'mock');
+      assertEquals(calls(), 1);
+    },
+  );
+});
+
+for (const status of [401, 403]) {
+  Deno.test(`skips the rest of a provider's models on ${status}`, async () => {
+    await withLocalProvider(
+      'llama3.1,mistral',
+      () => new Response('invalid key', { status }),
+      async (config, calls) => {
+        const result = await completeChat(request, config);
+
+        assertEquals(result.provider, 'mock');
+        assertEquals(calls(), 1);
+      },
+    );
+  });
+}
+
+Deno.test('reports the last error when every provider fails', async () => {
+  const failing: LlmProvider = {
+    name: 'anthropic',
+    models: ['claude-3-5-haiku-latest'],
+    complete: () => Promise.reject(new LlmError('invalid key', 401, false, true)),
+  };
+  const error = await assertRejects(
+    () => completeChat(request, { providers: [failing], timeoutMs: 1000, maxRetries: 2 }),
+    LlmError,
+  );
+  assertEquals(error.status, 401);
+});
@@ -0,0 +1,314 @@
+// LLM access shared by the edge functions.
+// Providers are configured through environment variables and tried in order:
+//   LLM_PROVIDER        comma-separated chain of openai, anthropic, local, mock
+//                       (default: every provider that has credentials, OpenAI first)
+//   OPENAI_API_KEY, OPENAI_MODELS
+//   ANTHROPIC_API_KEY, ANTHROPIC_MODELS
+//   LOCAL_LLM_BASE_URL, LOCAL_LLM_API_KEY, LOCAL_LLM_MODELS  (OpenAI-compatible server: Ollama, llama.cpp...)
+//   LLM_MOCK_RESPONSES  JSON object of task name -> response, for the mock provider
+//   LLM_TIMEOUT_MS, LLM_MAX_RETRIES
+// Each provider walks its model chain; rate limits and server errors are retried
+// with backoff before moving on to the next model.
+
+export type LlmProviderName = 'openai' | 'anthropic' | 'local' | 'mock';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  // Short name of the calling task, used in logs and by the mock provider
+  task: string;
+  messages: ChatMessage[];
+  // Ask the model for a single JSON object
+  json?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  provider: LlmProviderName;
+  model: string;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  models: string[];
+  complete(model: string, request: CompletionRequest, signal: AbortSignal): Promise<string>;
+}
+
+export interface LlmConfig {
+  providers: LlmProvider[];
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    // Worth trying the same model again after a pause
+    readonly retryable = false,
+    // Credentials are wrong; no other model of this provider will work either
+    readonly skipProvider = false,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+const DEFAULT_MODELS: Record<Exclude<LlmProviderName, 'mock'>, string[]> = {
+  openai: ['gpt-4o-mini', 'gpt-4o', 'gpt-3.5-turbo'],
+  anthropic: ['claude-3-5-haiku-latest', 'claude-3-5-sonnet-latest'],
+  local: ['llama3.1'],
+};
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10000;
+
+function modelList(value: string | undefined, fallback: string[]): string[] {
+  const models = (value || '').split(',').map(model => model.trim()).filter(Boolean);
+  return models.length > 0 ? models : fallback;
+}
+
+function retryAfter(response: Response): number | undefined {
+  const seconds = Number(response.headers.get('retry-after'));
+  return isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+// Turn a failed HTTP response into an LlmError the fallback chain can act on
+async function errorFromResponse(provider: LlmProviderName, model: string, response: Response): Promise<LlmError> {
+  const body = await response.text().catch(() => '');
+  const message = `${provider} ${model} failed with ${response.status}: ${body.substring(0, 300)}`;
+
+  // An exhausted quota is reported as 429 but will not recover by waiting
+  if (response.status === 429 && !body.includes('insufficient_quota')) {
+    return new LlmError(message, response.status, true, false, retryAfter(response));
+  }
+  if (response.status === 401 || response.status === 403) {
+    return new LlmError(message, response.status, false, true);
+  }
+  return new LlmError(message, response.status, response.status >= 500);
+}
+
+// Reasoning models only accept the default temperature
+function supportsTemperature(model: string): boolean {
+  return !/^(gpt-5|o\d)/.test(model);
+}
+
+function openAiCompatibleProvider(
+  name: 'openai' | 'local',
+  baseUrl: string,
+  apiKey: string | undefined,
+  models: string[],
+): LlmProvider {
+  return {
+    name,
+    models,
+    async complete(model, request, signal) {
+      const body: Record<string, unknown> = { model, messages: request.messages };
+      if (request.temperature !== undefined && supportsTemperature(model)) body.temperature = request.temperature;
+      if (request.maxTokens) body[name === 'openai' ? 'max_completion_tokens' : 'max_tokens'] = request.maxTokens;
+      if (request.json) body.response_format = { type: 'json_object' };
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+      if (!response.ok) throw await errorFromResponse(name, model, response);
+
+      const result = await response.json();
+      const content = result?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string' || !content.trim()) {
+        throw new LlmError(`${name} ${model} returned an empty response`);
+      }
+      return content.trim();
+    },
+  };
+}
+
+function anthropicProvider(apiKey: string, models: string[]): LlmProvider {
+  return {
+    name: 'anthropic',
+    models,
+    async complete(model, request, signal) {
+      const system = request.messages.filter(message => message.role === 'system').map(message => message.content);
+      if (request.json) system.push('Respond with a single JSON object and nothing else.');
+
+      const response = await fetch('https://api.anthropic.com/v1/messages', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: request.maxTokens || 2000,
+          ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+          ...(system.length > 0 ? { system: system.join('\n\n') } : {}),
+          messages: request.messages.filter(message => message.role !== 'system'),
+        }),
+        signal,
+      });
+      if (!response.ok) throw await errorFromResponse('anthropic', model, response);
+
+      const result = await response.json();
+      const content = Array.isArray(result?.content)
+        ? result.content.filter((block: { type: string }) => block.type === 'text').map((block: { text: string }) => block.text).join('')
+        : '';
+      if (!content.trim()) {
+        throw new LlmError(`anthropic ${model} returned an empty response`);
+      }
+      return content.trim();
+    },
+  };
+}
+
+// Deterministic provider for running the functions without any network:
+// answers each task with a fixed response, or "{}" for tasks it does not know
+export function createMockProvider(responses: Record<string, unknown> = {}): LlmProvider {
+  return {
+    name: 'mock',
+    models: ['mock'],
+    complete(_model, request) {
+      const response = responses[request.task] ?? {};
+      return Promise.resolve(typeof response === 'string' ? response : JSON.stringify(response));
+    },
+  };
+}
+
+function mockResponsesFromEnv(): Record<string, unknown> {
+  const raw = Deno.env.get('LLM_MOCK_RESPONSES');
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('LLM_MOCK_RESPONSES is not valid JSON:', error);
+    return {};
+  }
+}
+
+function createProvider(name: string): LlmProvider | null {
+  switch (name) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      return apiKey
+        ? openAiCompatibleProvider('openai', 'https://api.openai.com/v1', apiKey, modelList(Deno.env.get('OPENAI_MODELS'), DEFAULT_MODELS.openai))
+        : null;
+    }
+    case 'anthropic': {
+      const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
+      return apiKey ? anthropicProvider(apiKey, modelList(Deno.env.get('ANTHROPIC_MODELS'), DEFAULT_MODELS.anthropic)) : null;
+    }
+    case 'local': {
+      const baseUrl = Deno.env.get('LOCAL_LLM_BASE_URL');
+      return baseUrl
+        ? openAiCompatibleProvider('local', baseUrl, Deno.env.get('LOCAL_LLM_API_KEY'), modelList(Deno.env.get('LOCAL_LLM_MODELS'), DEFAULT_MODELS.local))
+        : null;
+    }
+    case 'mock':
+      return createMockProvider(mockResponsesFromEnv());
+    default:
+      console.warn(`Unknown LLM provider "${name}" ignored`);
+      return null;
+  }
+}
+
+export function loadLlmConfig(): LlmConfig {
+  const names = (Deno.env.get('LLM_PROVIDER') || 'openai,anthropic,local')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const timeoutMs = Number(Deno.env.get('LLM_TIMEOUT_MS'));
+  const maxRetries = Number(Deno.env.get('LLM_MAX_RETRIES') ?? DEFAULT_MAX_RETRIES);
+
+  return {
+    providers: names.map(createProvider).filter((provider): provider is LlmProvider => provider !== null),
+    timeoutMs: timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+    maxRetries: Number.isInteger(maxRetries) && maxRetries >= 0 ? maxRetries : DEFAULT_MAX_RETRIES,
+  };
+}
+
+export function isLlmConfigured(config: LlmConfig = loadLlmConfig()): boolean {
+  return config.providers.length > 0;
+}
+
+function backoff(attempt: number, error: LlmError): number {
+  return Math.min(MAX_BACKOFF_MS, error.retryAfterMs ?? BASE_BACKOFF_MS * 2 ** attempt);
+}
+
+// One model call with a timeout; timeouts and network failures count as retryable
+async function attempt(provider: LlmProvider, model: string, request: CompletionRequest, timeoutMs: number): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await provider.complete(model, request, controller.signal);
+  } catch (error) {
+    if (error instanceof LlmError) throw error;
+    const message = controller.signal.aborted
+      ? `${provider.name} ${model} timed out after ${timeoutMs}ms`
+      : `${provider.name} ${model} request failed: ${error instanceof Error ? error.message : String(error)}`;
+    throw new LlmError(message, undefined, true);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Run a chat completion through the provider and model chain, returning the first answer
+export async function completeChat(request: CompletionRequest, config: LlmConfig = loadLlmConfig()): Promise<CompletionResult> {
+  if (config.providers.length === 0) {
+    throw new LlmError('No LLM provider configured');
+  }
+
+  const timeoutMs = request.timeoutMs ?? config.timeoutMs;
+  let lastError: LlmError | null = null;
+
+  for (const provider of config.providers) {
+    modelChain:
+    for (const model of provider.models) {
+      for (let retry = 0; retry <= config.maxRetries; retry++) {
+        try {
+          console.log(`[${request.task}] Trying ${provider.name} model ${model}${retry > 0 ? ` (retry ${retry})` : ''}`);
+          const content = await attempt(provider, model, request, timeoutMs);
+          console.log(`[${request.task}] Answered by ${provider.name} model ${model}`);
+          return { content, provider: provider.name, model };
+        } catch (error) {
+          lastError = error instanceof LlmError ? error : new LlmError(String(error));
+          console.error(`[${request.task}] ${lastError.message}`);
+
+          if (lastError.skipProvider) break modelChain;
+          if (!lastError.retryable || retry === config.maxRetries) break;
+          await new Promise(resolve => setTimeout(resolve, backoff(retry, lastError as LlmError)));
+        }
+      }
+    }
+  }
+
+  throw lastError ?? new LlmError('All LLM providers failed');
+}
+
+// Parse a model's JSON answer, tolerating code fences and text around the object
+export function parseJsonContent<T = unknown>(content: string): T {
+  const cleaned = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    const start = cleaned.indexOf('{');
+    const end = cleaned.lastIndexOf('}');
+    if (start === -1 || end <= start) throw new LlmError('Model response did not contain JSON');
+    return JSON.parse(cleaned.substring(start, end + 1));
+  }
+}
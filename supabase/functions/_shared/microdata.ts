@@ -0,0 +1,175 @@
+// Recipe extraction from HTML microdata (itemscope/itemprop) and RDFa Lite
+// (typeof/property) markup. The page is parsed into a DOM and each Recipe item
+// is turned into the same shape as a JSON-LD node, so both share one mapping.
+import { DOMParser, type Element } from 'https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts';
+import { hasSchemaType, recipeFromSchemaNode, type StructuredRecipe } from './schemaRecipe.ts';
+
+type SchemaNode = Record<string, unknown>;
+
+// How one markup syntax marks items, their types and their properties
+interface Syntax {
+  name: string;
+  selector: string;
+  isItem(element: Element): boolean;
+  types(element: Element): string[];
+  properties(element: Element): string[];
+  references(element: Element): string[];
+  value(element: Element): string;
+}
+
+const TEXT_NODE = 3;
+const ELEMENT_NODE = 1;
+
+// Elements whose boundaries separate lines of text ("<li>" steps, "<p>" paragraphs)
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'BLOCKQUOTE', 'BR', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'H1', 'H2', 'H3',
+  'H4', 'H5', 'H6', 'HR', 'LI', 'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'TD', 'TH', 'TR', 'UL',
+]);
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE']);
+
+// Property names used by the retired data-vocabulary.org recipe markup
+const LEGACY_PROPERTIES: Record<string, string> = {
+  ingredient: 'recipeIngredient',
+  ingredients: 'recipeIngredient',
+  instructions: 'recipeInstructions',
+  photo: 'image',
+  yield: 'recipeYield',
+  summary: 'description',
+  review: 'aggregateRating',
+};
+
+// "https://schema.org/Recipe", "schema:name", "http://data-vocabulary.org/Recipe" -> bare name
+function bareName(value: string): string {
+  return value.replace(/^(https?:\/\/(schema|data-vocabulary)\.org\/|schema:)/i, '');
+}
+
+function splitTokens(value: string | null): string[] {
+  return (value || '').split(/\s+/).filter(Boolean);
+}
+
+// Element text with line breaks at block boundaries, so lists keep one entry per line
+function blockText(element: Element): string {
+  const parts: string[] = [];
+  const walk = (node: Element) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === TEXT_NODE) {
+        parts.push(child.textContent || '');
+      } else if (child.nodeType === ELEMENT_NODE) {
+        const childElement = child as unknown as Element;
+        if (SKIPPED_TAGS.has(childElement.tagName)) continue;
+        const block = BLOCK_TAGS.has(childElement.tagName);
+        if (block) parts.push('\n');
+        walk(childElement);
+        if (block) parts.push('\n');
+      }
+    }
+  };
+  walk(element);
+
+  return parts.join('')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+const MICRODATA: Syntax = {
+  name: 'microdata',
+  selector: '[itemscope]',
+  isItem: element => element.hasAttribute('itemscope'),
+  types: element => splitTokens(element.getAttribute('itemtype')).map(bareName),
+  properties: element => splitTokens(element.getAttribute('itemprop')).map(bareName),
+  references: element => splitTokens(element.getAttribute('itemref')),
+  // Property values per the HTML microdata spec
+  value(element) {
+    switch (element.tagName) {
+      case 'META':
+        return element.getAttribute('content') || '';
+      case 'AUDIO': case 'EMBED': case 'IFRAME': case 'IMG': case 'SOURCE': case 'TRACK': case 'VIDEO':
+        return element.getAttribute('src') || '';
+      case 'A': case 'AREA': case 'LINK':
+        return element.getAttribute('href') || '';
+      case 'OBJECT':
+        return element.getAttribute('data') || '';
+      case 'DATA': case 'METER':
+        return element.getAttribute('value') || '';
+      case 'TIME':
+        return element.getAttribute('datetime') || blockText(element);
+      default:
+        return element.getAttribute('content') || blockText(element);
+    }
+  },
+};
+
+const RDFA: Syntax = {
+  name: 'RDFa',
+  selector: '[typeof]',
+  isItem: element => element.hasAttribute('typeof'),
+  types: element => splitTokens(element.getAttribute('typeof')).map(bareName),
+  properties: element => splitTokens(element.getAttribute('property')).map(bareName),
+  references: () => [],
+  value(element) {
+    return element.getAttribute('content')
+      || element.getAttribute('datetime')
+      || element.getAttribute('resource')
+      || element.getAttribute('href')
+      || element.getAttribute('src')
+      || blockText(element);
+  },
+};
+
+function addProperty(item: SchemaNode, name: string, value: unknown) {
+  const key = LEGACY_PROPERTIES[name] || name;
+  const existing = item[key];
+  item[key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+}
+
+// Build a JSON-LD-like node from an item element and the properties below it
+function readItem(element: Element, syntax: Syntax, document: { getElementById(id: string): Element | null }, depth = 0): SchemaNode {
+  const item: SchemaNode = { '@type': syntax.types(element) };
+  if (depth > 6) return item;
+
+  // Read the properties an element carries, then the ones below it
+  const read = (node: Element) => {
+    const properties = syntax.properties(node);
+    if (properties.length > 0) {
+      const value = syntax.isItem(node) ? readItem(node, syntax, document, depth + 1) : syntax.value(node);
+      properties.forEach(property => addProperty(item, property, value));
+    }
+    // A nested item owns the properties inside it
+    if (!syntax.isItem(node)) visit(node);
+  };
+  const visit = (node: Element) => Array.from(node.children).forEach(read);
+
+  visit(element);
+  // itemref points at elements outside the item; they are often properties themselves
+  // (<li id="ing" itemprop="recipeIngredient">), so they are read like a child would be
+  for (const id of syntax.references(element)) {
+    const referenced = document.getElementById(id);
+    if (referenced) read(referenced);
+  }
+  return item;
+}
+
+// Find the first microdata or RDFa Recipe item on the page with ingredients or steps
+export function extractFromMicrodata(html: string): StructuredRecipe | null {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  if (!document) return null;
+
+  for (const syntax of [MICRODATA, RDFA]) {
+    for (const node of Array.from(document.querySelectorAll(syntax.selector))) {
+      const element = node as unknown as Element;
+      if (!syntax.types(element).includes('Recipe')) continue;
+
+      const item = readItem(element, syntax, document);
+      if (!hasSchemaType(item, 'Recipe')) continue;
+
+      const recipe = recipeFromSchemaNode(item);
+      if (recipe) {
+        console.log(`Recipe found in ${syntax.name} markup`);
+        return recipe;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,189 @@
+// Deterministic nutrition lookup against the bundled nutrient table.
+// Ingredient names are fuzzy-matched to a food, amounts are turned into grams
+// through the food's household portions, and both steps report a confidence.
+import { normalizeIngredientName, parseQuantity } from './ingredients.ts';
+import { findUnit } from './units.ts';
+import { findDensity } from './densities.ts';
+import { NUTRIENT_FOODS, type NutrientFood } from './nutrientTable.ts';
+import { emptyNutrition, scaleNutrition, type IngredientNutrition, type NutritionFacts } from './nutrition.ts';
+
+export interface FoodMatch {
+  food: NutrientFood;
+  // 1 for an exact name match, lower for partial and misspelled names
+  confidence: number;
+}
+
+export interface GramEstimate {
+  grams: number;
+  confidence: number;
+}
+
+interface IngredientLine {
+  name: string;
+  amount: string;
+  unit: string;
+}
+
+// Matches below this score are left for the AI estimate
+export const MIN_MATCH_CONFIDENCE = 0.5;
+
+// Token pairs this similar are treated as the same word ("tomatoe", "parmesean")
+const TYPO_SIMILARITY = 0.8;
+
+// Amounts without a number that contribute nothing worth counting
+const NEGLIGIBLE_AMOUNT = /\b(to taste|for garnish|for serving|optional)\b/i;
+
+const SIZE_WORDS = ['small', 'medium', 'large'];
+
+const PINCH_GRAMS = 0.3;
+
+const FOOD_NAMES = NUTRIENT_FOODS.flatMap(food =>
+  food.names.map(name => {
+    const normalized = normalizeIngredientName(name);
+    return { food, name: normalized, tokens: normalized.split(' ') };
+  })
+);
+
+function bigrams(word: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < word.length - 1; i++) result.push(word.substring(i, i + 2));
+  return result;
+}
+
+// Dice coefficient over character bigrams
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const remaining = [...right];
+  let shared = 0;
+  for (const pair of left) {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+// Score how well a table name describes the ingredient tokens
+function scoreName(ingredient: string, ingredientTokens: string[], name: string, nameTokens: string[]): number {
+  if (ingredient === name) return 1;
+
+  // Every word of the table name has to appear (possibly misspelled) in the ingredient
+  let total = 0;
+  for (const token of nameTokens) {
+    const best = Math.max(...ingredientTokens.map(candidate => similarity(candidate, token)));
+    if (best < TYPO_SIMILARITY) return 0;
+    total += best;
+  }
+
+  // Extra words in the ingredient ("smoked", "boneless") lower the confidence
+  const coverage = Math.min(1, nameTokens.length / ingredientTokens.length);
+  return (0.7 + 0.3 * coverage) * 0.95 * (total / nameTokens.length);
+}
+
+// Find the table food that best matches an ingredient name
+export function matchFood(name: string): FoodMatch | null {
+  const normalized = normalizeIngredientName(name);
+  if (!normalized) return null;
+  const tokens = normalized.split(' ');
+
+  let best: { food: NutrientFood; score: number; length: number } | null = null;
+  for (const candidate of FOOD_NAMES) {
+    const score = scoreName(normalized, tokens, candidate.name, candidate.tokens);
+    if (score < MIN_MATCH_CONFIDENCE) continue;
+
+    // On a tie the more specific name wins ("egg white" over "egg")
+    if (!best || score > best.score || (score === best.score && candidate.tokens.length > best.length)) {
+      best = { food: candidate.food, score, length: candidate.tokens.length };
+    }
+  }
+
+  return best ? { food: best.food, confidence: Math.round(best.score * 100) / 100 } : null;
+}
+
+// Convert an ingredient's amount to grams of the matched food
+export function estimateGrams(food: NutrientFood, ingredient: IngredientLine): GramEstimate | null {
+  const quantity = parseQuantity(ingredient.amount);
+  const unit = findUnit(ingredient.unit);
+
+  if (!quantity && !unit) {
+    return NEGLIGIBLE_AMOUNT.test(`${ingredient.amount} ${ingredient.name}`) || !ingredient.amount?.trim()
+      ? { grams: 0, confidence: 0.6 }
+      : null;
+  }
+
+  // Ranges count as their midpoint; a bare unit ("a pinch") counts as one
+  const value = quantity ? (quantity.max !== undefined ? (quantity.value + quantity.max) / 2 : quantity.value) : 1;
+
+  if (unit?.dimension === 'mass') {
+    return { grams: value * unit.toBase, confidence: 1 };
+  }
+
+  if (unit?.dimension === 'volume') {
+    const portion = food.portions[unit.id];
+    if (portion) return { grams: value * portion, confidence: 1 };
+
+    const millilitres = value * unit.toBase;
+    for (const id of ['cup', 'tbsp', 'tsp']) {
+      const reference = food.portions[id];
+      const referenceUnit = findUnit(id);
+      if (reference && referenceUnit) {
+        return { grams: (millilitres / referenceUnit.toBase) * reference, confidence: 0.9 };
+      }
+    }
+
+    const density = findDensity(ingredient.name);
+    return density
+      ? { grams: millilitres * density.gramsPerMl, confidence: 0.85 }
+      : { grams: millilitres, confidence: 0.6 };
+  }
+
+  if (unit) {
+    if (food.portions[unit.id]) return { grams: value * food.portions[unit.id], confidence: 0.9 };
+    // A pinch or dash of anything is a fraction of a gram
+    if (unit.scalable === false) return { grams: value * PINCH_GRAMS, confidence: 0.7 };
+    return food.portions.piece ? { grams: value * food.portions.piece, confidence: 0.6 } : null;
+  }
+
+  // No unit: "2 large eggs", "3 garlic cloves", "1 onion"
+  const words = ingredient.name.toLowerCase().split(/[\s,]+/);
+  const size = SIZE_WORDS.find(word => words.includes(word) && food.portions[word]);
+  if (size) return { grams: value * food.portions[size], confidence: 0.9 };
+
+  const countWord = normalizeIngredientName(ingredient.name)
+    .split(' ')
+    .map(word => findUnit(word))
+    .find(candidate => candidate?.dimension === 'count' && food.portions[candidate.id]);
+  if (countWord) return { grams: value * food.portions[countWord.id], confidence: 0.9 };
+
+  if (food.portions.piece) return { grams: value * food.portions.piece, confidence: 0.8 };
+  return null;
+}
+
+function per100g(food: NutrientFood): NutritionFacts {
+  const [calories, protein, fat, saturatedFat, carbs, fiber, sugar, sodium] = food.per100g;
+  return { calories, protein, fat, saturatedFat, carbs, fiber, sugar, sodium };
+}
+
+// Nutrition for one ingredient from the table, or null when it cannot be matched or weighed
+export function lookupIngredientNutrition(ingredient: IngredientLine): IngredientNutrition | null {
+  const match = matchFood(ingredient.name);
+  if (!match) return null;
+
+  const weight = estimateGrams(match.food, ingredient);
+  if (!weight) return null;
+
+  return {
+    name: ingredient.name,
+    grams: weight.grams,
+    nutrition: weight.grams > 0 ? scaleNutrition(per100g(match.food), weight.grams / 100) : emptyNutrition(),
+    source: 'database',
+    matchedFood: match.food.names[0],
+    confidence: Math.round(match.confidence * weight.confidence * 100) / 100
+  };
+}
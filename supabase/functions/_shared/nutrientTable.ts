@@ -0,0 +1,165 @@
+// Bundled nutrient table, USDA FoodData Central values rounded for recipe use.
+// Each row: id, names (most common first; matched after normalizeIngredientName),
+// per 100 g [kcal, protein g, fat g, saturated fat g, carbs g, fiber g, sugar g, sodium mg],
+// and gram weights of household portions keyed by unit registry id or size word.
+
+export type NutrientValues = [number, number, number, number, number, number, number, number];
+
+export interface NutrientFood {
+  id: string;
+  names: string[];
+  per100g: NutrientValues;
+  portions: Record<string, number>;
+}
+
+type Row = [string, string[], NutrientValues, Record<string, number>];
+
+const ROWS: Row[] = [
+  // Flours, grains and bread
+  ['flour', ['all-purpose flour', 'flour', 'plain flour', 'white flour', 'קמח'], [364, 10.3, 1, 0.2, 76.3, 2.7, 0.3, 2], { cup: 125, tbsp: 7.8, tsp: 2.6 }],
+  ['wheat-flour', ['whole wheat flour', 'wheat flour', 'wholemeal flour'], [340, 13.2, 2.5, 0.4, 72, 10.7, 0.4, 2], { cup: 120, tbsp: 7.5 }],
+  ['bread-flour', ['bread flour'], [361, 12, 1.7, 0.2, 72.5, 2.4, 0.3, 2], { cup: 127 }],
+  ['almond-flour', ['almond flour', 'almond meal'], [571, 21, 50, 3.8, 21, 10.7, 4, 0], { cup: 96, tbsp: 6 }],
+  ['cornstarch', ['cornstarch', 'corn starch', 'cornflour'], [381, 0.3, 0.1, 0, 91.3, 0.9, 0, 9], { cup: 128, tbsp: 8, tsp: 2.7 }],
+  ['rice', ['rice', 'white rice', 'basmati rice', 'jasmine rice', 'אורז'], [365, 7.1, 0.7, 0.2, 80, 1.3, 0.1, 5], { cup: 185 }],
+  ['cooked-rice', ['cooked rice'], [130, 2.7, 0.3, 0.1, 28, 0.4, 0.1, 1], { cup: 158 }],
+  ['pasta', ['pasta', 'spaghetti', 'penne', 'macaroni', 'noodle', 'linguine', 'fettuccine'], [371, 13, 1.5, 0.3, 75, 3.2, 2.7, 6], { cup: 100, package: 454 }],
+  ['oats', ['oat', 'rolled oat', 'oatmeal', 'quick oat'], [389, 16.9, 6.9, 1.2, 66.3, 10.6, 0, 2], { cup: 81, tbsp: 5 }],
+  ['bread', ['bread', 'white bread', 'sourdough bread', 'לחם'], [265, 9, 3.2, 0.7, 49, 2.7, 5, 491], { slice: 30, piece: 30 }],
+  ['breadcrumbs', ['breadcrumb', 'bread crumb', 'panko'], [395, 13, 5.3, 1.2, 72, 4.5, 6.2, 732], { cup: 108, tbsp: 7 }],
+  ['couscous', ['couscous', 'קוסקוס'], [376, 12.8, 0.6, 0.1, 77.4, 5, 0, 10], { cup: 173 }],
+  ['quinoa', ['quinoa', 'קינואה'], [368, 14.1, 6.1, 0.7, 64.2, 7, 0, 5], { cup: 170 }],
+  ['tortilla', ['tortilla', 'flour tortilla', 'wrap'], [312, 8.3, 8, 3, 51.6, 3.5, 2.7, 740], { piece: 45, large: 70, small: 30 }],
+  ['pita', ['pita', 'pita bread', 'פיתה'], [275, 9.1, 1.2, 0.2, 55.7, 2.2, 1.3, 536], { piece: 60 }],
+
+  // Sugars and sweets
+  ['sugar', ['sugar', 'white sugar', 'granulated sugar', 'caster sugar', 'סוכר'], [387, 0, 0, 0, 100, 0, 100, 1], { cup: 200, tbsp: 12.5, tsp: 4.2 }],
+  ['brown-sugar', ['brown sugar', 'light brown sugar', 'dark brown sugar'], [380, 0.1, 0, 0, 98, 0, 97, 28], { cup: 220, tbsp: 13.8, tsp: 4.6 }],
+  ['powdered-sugar', ['powdered sugar', 'icing sugar', 'confectioner sugar'], [389, 0, 0, 0, 100, 0, 98, 2], { cup: 120, tbsp: 7.5 }],
+  ['honey', ['honey', 'דבש'], [304, 0.3, 0, 0, 82.4, 0.2, 82.1, 4], { cup: 340, tbsp: 21, tsp: 7 }],
+  ['maple-syrup', ['maple syrup', 'syrup'], [260, 0, 0.1, 0, 67, 0, 60, 12], { cup: 315, tbsp: 20 }],
+  ['chocolate-chips', ['chocolate chip', 'semisweet chocolate chip', 'chocolate morsel'], [480, 4.2, 30, 18, 64, 5.9, 54.5, 11], { cup: 170, tbsp: 10.6 }],
+  ['dark-chocolate', ['dark chocolate', 'chocolate', 'bittersweet chocolate', 'שוקולד'], [546, 4.9, 31, 19, 61, 7, 48, 24], { cup: 170, piece: 10 }],
+  ['cocoa', ['cocoa powder', 'cocoa', 'unsweetened cocoa', 'קקאו'], [228, 19.6, 13.7, 8.1, 57.9, 37, 1.8, 21], { cup: 86, tbsp: 5.4, tsp: 1.8 }],
+
+  // Fats and oils
+  ['butter', ['butter', 'unsalted butter', 'salted butter', 'חמאה'], [717, 0.9, 81.1, 51.4, 0.1, 0, 0.1, 11], { cup: 227, tbsp: 14.2, tsp: 4.7, stick: 113 }],
+  ['olive-oil', ['olive oil', 'extra virgin olive oil', 'שמן זית'], [884, 0, 100, 13.8, 0, 0, 0, 2], { cup: 216, tbsp: 13.5, tsp: 4.5 }],
+  ['vegetable-oil', ['oil', 'vegetable oil', 'canola oil', 'sunflower oil', 'neutral oil', 'שמן'], [884, 0, 100, 7.4, 0, 0, 0, 0], { cup: 218, tbsp: 13.6, tsp: 4.5 }],
+  ['sesame-oil', ['sesame oil', 'toasted sesame oil'], [884, 0, 100, 14.2, 0, 0, 0, 0], { tbsp: 13.6, tsp: 4.5 }],
+  ['mayonnaise', ['mayonnaise', 'mayo', 'מיונז'], [680, 1, 75, 11.7, 0.6, 0, 0.6, 635], { cup: 220, tbsp: 13.8 }],
+
+  // Dairy and eggs
+  ['milk', ['milk', 'whole milk', 'חלב'], [61, 3.2, 3.3, 1.9, 4.8, 0, 5.1, 43], { cup: 244, tbsp: 15 }],
+  ['heavy-cream', ['heavy cream', 'cream', 'whipping cream', 'double cream', 'שמנת מתוקה'], [340, 2.8, 36, 23, 2.7, 0, 2.9, 27], { cup: 238, tbsp: 15 }],
+  ['sour-cream', ['sour cream', 'שמנת חמוצה'], [198, 2.4, 19.4, 10.1, 4.6, 0, 3.4, 31], { cup: 230, tbsp: 12 }],
+  ['yogurt', ['yogurt', 'plain yogurt', 'yoghurt', 'יוגורט'], [61, 3.5, 3.3, 2.1, 4.7, 0, 4.7, 46], { cup: 245, tbsp: 15 }],
+  ['greek-yogurt', ['greek yogurt', 'greek yoghurt'], [97, 9, 5, 2.4, 3.9, 0, 3.6, 35], { cup: 227, tbsp: 14 }],
+  ['cheddar', ['cheddar', 'cheddar cheese', 'cheese', 'shredded cheese'], [403, 24.9, 33.1, 21.1, 1.3, 0, 0.5, 621], { cup: 113, slice: 28, tbsp: 7 }],
+  ['mozzarella', ['mozzarella', 'fresh mozzarella', 'mozzarella cheese'], [300, 22, 22, 13, 2.2, 0, 1, 486], { cup: 112, slice: 28, ball: 225 }],
+  ['parmesan', ['parmesan', 'parmesan cheese', 'parmigiano reggiano', 'parmigiano'], [431, 38.5, 28.6, 17.3, 4.1, 0, 0.9, 1529], { cup: 100, tbsp: 5 }],
+  ['feta', ['feta', 'feta cheese', 'בולגרית'], [264, 14.2, 21.3, 14.9, 4.1, 0, 4.1, 1116], { cup: 150, tbsp: 9 }],
+  ['cream-cheese', ['cream cheese', 'גבינת שמנת'], [342, 6, 34, 19, 4.1, 0, 3.2, 321], { cup: 232, tbsp: 14.5, package: 226 }],
+  ['cottage-cheese', ['cottage cheese', 'קוטג'], [98, 11.1, 4.3, 1.7, 3.4, 0, 2.7, 364], { cup: 210, tbsp: 13 }],
+  ['egg', ['egg', 'whole egg', 'ביצה', 'ביצים'], [143, 12.6, 9.5, 3.1, 0.7, 0, 0.4, 142], { piece: 50, large: 50, medium: 44, small: 38 }],
+  ['egg-white', ['egg white'], [52, 10.9, 0.2, 0, 0.7, 0, 0.7, 166], { piece: 33, large: 33, cup: 243 }],
+  ['egg-yolk', ['egg yolk', 'yolk'], [322, 15.9, 26.5, 9.6, 3.6, 0, 0.6, 48], { piece: 17, large: 17 }],
+
+  // Meat, fish and protein
+  ['chicken-breast', ['chicken breast', 'chicken', 'boneless chicken breast', 'חזה עוף', 'עוף'], [120, 22.5, 2.6, 0.6, 0, 0, 0, 45], { piece: 174, cup: 140 }],
+  ['chicken-thigh', ['chicken thigh', 'boneless chicken thigh', 'פרגית'], [121, 19.7, 4.1, 1, 0, 0, 0, 86], { piece: 110 }],
+  ['ground-beef', ['ground beef', 'minced beef', 'beef mince', 'hamburger meat', 'בשר טחון'], [254, 17.2, 20, 7.6, 0, 0, 0, 66], { cup: 225 }],
+  ['beef', ['beef', 'steak', 'sirloin', 'chuck', 'beef stew meat', 'בקר'], [198, 19.4, 12.7, 5.2, 0, 0, 0, 60], { piece: 225 }],
+  ['pork', ['pork', 'pork loin', 'pork chop', 'pork shoulder'], [143, 21, 5.9, 2, 0, 0, 0, 50], { piece: 170 }],
+  ['bacon', ['bacon', 'pancetta'], [417, 12.6, 39.7, 13.3, 1.4, 0, 0, 662], { slice: 12, piece: 12, cup: 140 }],
+  ['lamb', ['lamb', 'ground lamb', 'lamb shoulder', 'כבש'], [282, 16.6, 23.4, 10.2, 0, 0, 0, 59], { piece: 170 }],
+  ['salmon', ['salmon', 'salmon fillet', 'סלמון'], [208, 20, 13.4, 3.1, 0, 0, 0, 59], { piece: 170 }],
+  ['white-fish', ['fish', 'white fish', 'cod', 'tilapia', 'haddock', 'sea bass', 'דג'], [82, 17.8, 0.7, 0.1, 0, 0, 0, 54], { piece: 180 }],
+  ['tuna', ['tuna', 'canned tuna', 'tuna in water', 'טונה'], [116, 25.5, 0.8, 0.2, 0, 0, 0, 338], { can: 142, cup: 154 }],
+  ['shrimp', ['shrimp', 'prawn', 'שרימפס'], [85, 20, 0.5, 0.1, 0, 0, 0, 119], { piece: 12, cup: 145 }],
+  ['tofu', ['tofu', 'firm tofu', 'טופו'], [144, 15.8, 8.7, 1.3, 2.8, 2.3, 0.6, 14], { cup: 252, package: 400 }],
+
+  // Legumes, nuts and seeds
+  ['chickpeas', ['chickpea', 'garbanzo bean', 'garbanzo', 'canned chickpea', 'גרגרי חומוס'], [139, 7, 2.8, 0.3, 22.5, 6.4, 0.3, 246], { cup: 164, can: 240 }],
+  ['lentils', ['lentil', 'red lentil', 'green lentil', 'עדשים'], [352, 24.6, 1.1, 0.2, 63.4, 10.7, 2, 6], { cup: 192 }],
+  ['black-beans', ['black bean', 'bean', 'kidney bean', 'pinto bean', 'canned bean', 'שעועית'], [91, 6, 0.3, 0.1, 16.6, 6.9, 0.3, 233], { cup: 172, can: 240 }],
+  ['tahini', ['tahini', 'tahina', 'sesame paste', 'טחינה'], [595, 17, 53.8, 7.5, 21.2, 9.3, 0.5, 115], { cup: 240, tbsp: 15, tsp: 5 }],
+  ['hummus', ['hummus', 'houmous', 'חומוס'], [166, 7.9, 9.6, 1.4, 14.3, 6, 0.3, 379], { cup: 246, tbsp: 15 }],
+  ['peanut-butter', ['peanut butter', 'חמאת בוטנים'], [588, 25.1, 50.4, 10.3, 19.6, 6, 9.2, 459], { cup: 258, tbsp: 16, tsp: 5.3 }],
+  ['almonds', ['almond', 'sliced almond', 'slivered almond', 'שקדים'], [579, 21.2, 49.9, 3.8, 21.6, 12.5, 4.4, 1], { cup: 143, tbsp: 9, piece: 1.2 }],
+  ['walnuts', ['walnut', 'pecan', 'אגוזי מלך'], [654, 15.2, 65.2, 6.1, 13.7, 6.7, 2.6, 2], { cup: 117, tbsp: 7.3 }],
+  ['peanuts', ['peanut', 'בוטנים'], [567, 25.8, 49.2, 6.3, 16.1, 8.5, 4, 18], { cup: 146, tbsp: 9 }],
+  ['pine-nuts', ['pine nut', 'pignoli', 'צנוברים'], [673, 13.7, 68.4, 4.9, 13.1, 3.7, 3.6, 2], { cup: 135, tbsp: 8.6 }],
+  ['sesame-seeds', ['sesame seed', 'sesame', 'שומשום'], [573, 17.7, 49.7, 7, 23.4, 11.8, 0.3, 11], { cup: 144, tbsp: 9, tsp: 3 }],
+
+  // Vegetables
+  ['onion', ['onion', 'yellow onion', 'white onion', 'red onion', 'בצל'], [40, 1.1, 0.1, 0, 9.3, 1.7, 4.2, 4], { piece: 110, small: 70, medium: 110, large: 150, cup: 160 }],
+  ['garlic', ['garlic', 'garlic clove', 'שום'], [149, 6.4, 0.5, 0.1, 33, 2.1, 1, 17], { clove: 3, piece: 3, tsp: 2.8, tbsp: 8.5, head: 40 }],
+  ['tomato', ['tomato', 'cherry tomato', 'roma tomato', 'עגבניה', 'עגבניות'], [18, 0.9, 0.2, 0, 3.9, 1.2, 2.6, 5], { piece: 123, small: 91, medium: 123, large: 182, cup: 180 }],
+  ['canned-tomatoes', ['crushed tomato', 'diced tomato', 'canned tomato', 'tomato puree', 'passata', 'רסק עגבניות'], [32, 1.6, 0.3, 0, 7.3, 1.9, 4.4, 132], { can: 400, cup: 242 }],
+  ['tomato-sauce', ['tomato sauce', 'marinara sauce', 'pizza sauce'], [24, 1.2, 0.3, 0, 5.3, 1.5, 3.6, 474], { cup: 245, tbsp: 15, can: 425 }],
+  ['tomato-paste', ['tomato paste'], [82, 4.3, 0.5, 0.1, 18.9, 4.1, 12.2, 59], { tbsp: 16, tsp: 5.3, can: 170 }],
+  ['potato', ['potato', 'russet potato', 'yukon gold potato', 'תפוח אדמה', 'תפוחי אדמה'], [77, 2, 0.1, 0, 17, 2.2, 0.8, 6], { piece: 213, small: 170, medium: 213, large: 299, cup: 150 }],
+  ['sweet-potato', ['sweet potato', 'yam', 'בטטה'], [86, 1.6, 0.1, 0, 20.1, 3, 4.2, 55], { piece: 130, medium: 130, large: 180, cup: 133 }],
+  ['carrot', ['carrot', 'גזר'], [41, 0.9, 0.2, 0, 9.6, 2.8, 4.7, 69], { piece: 61, medium: 61, large: 72, cup: 128 }],
+  ['celery', ['celery', 'celery stalk', 'סלרי'], [16, 0.7, 0.2, 0, 3, 1.6, 1.3, 80], { piece: 40, cup: 101 }],
+  ['bell-pepper', ['bell pepper', 'red pepper', 'green pepper', 'yellow pepper', 'capsicum', 'פלפל'], [31, 1, 0.3, 0, 6, 2.1, 4.2, 4], { piece: 119, cup: 149 }],
+  ['chili', ['chili pepper', 'chili', 'chile', 'jalapeno', 'jalapeño', 'פלפל חריף'], [40, 1.9, 0.4, 0, 8.8, 1.5, 5.3, 9], { piece: 14 }],
+  ['cucumber', ['cucumber', 'מלפפון', 'מלפפונים'], [15, 0.7, 0.1, 0, 3.6, 0.5, 1.7, 2], { piece: 300, cup: 119 }],
+  ['zucchini', ['zucchini', 'courgette', 'קישוא', 'קישואים'], [17, 1.2, 0.3, 0.1, 3.1, 1, 2.5, 8], { piece: 196, cup: 124 }],
+  ['eggplant', ['eggplant', 'aubergine', 'חציל'], [25, 1, 0.2, 0, 5.9, 3, 3.5, 2], { piece: 458, cup: 82 }],
+  ['broccoli', ['broccoli', 'ברוקולי'], [34, 2.8, 0.4, 0, 6.6, 2.6, 1.7, 33], { cup: 91, head: 600 }],
+  ['cauliflower', ['cauliflower', 'כרובית'], [25, 1.9, 0.3, 0.1, 5, 2, 1.9, 30], { cup: 107, head: 575 }],
+  ['spinach', ['spinach', 'baby spinach', 'תרד'], [23, 2.9, 0.4, 0.1, 3.6, 2.2, 0.4, 79], { cup: 30, bunch: 340 }],
+  ['lettuce', ['lettuce', 'romaine', 'romaine lettuce', 'חסה'], [15, 1.4, 0.2, 0, 2.9, 1.3, 0.8, 28], { cup: 47, head: 360 }],
+  ['cabbage', ['cabbage', 'red cabbage', 'כרוב'], [25, 1.3, 0.1, 0, 5.8, 2.5, 3.2, 18], { cup: 89, head: 900 }],
+  ['mushroom', ['mushroom', 'button mushroom', 'cremini mushroom', 'פטריות'], [22, 3.1, 0.3, 0, 3.3, 1, 2, 5], { piece: 18, cup: 70 }],
+  ['green-onion', ['green onion', 'scallion', 'spring onion', 'בצל ירוק'], [32, 1.8, 0.2, 0, 7.3, 2.6, 2.3, 16], { piece: 15, cup: 100, bunch: 100 }],
+  ['leek', ['leek', 'כרישה'], [61, 1.5, 0.3, 0, 14.2, 1.8, 3.9, 20], { piece: 89, cup: 89 }],
+  ['corn', ['corn', 'sweet corn', 'corn kernel', 'תירס'], [86, 3.3, 1.4, 0.3, 19, 2, 6.3, 15], { cup: 145, piece: 90, can: 340 }],
+  ['peas', ['pea', 'green pea', 'frozen pea', 'אפונה'], [81, 5.4, 0.4, 0.1, 14.5, 5.7, 5.7, 5], { cup: 145 }],
+  ['green-beans', ['green bean', 'string bean', 'שעועית ירוקה'], [31, 1.8, 0.2, 0, 7, 2.7, 3.3, 6], { cup: 100 }],
+  ['avocado', ['avocado', 'אבוקדו'], [160, 2, 14.7, 2.1, 8.5, 6.7, 0.7, 7], { piece: 150, cup: 150 }],
+  ['ginger', ['ginger', 'ginger root', 'ג׳ינג׳ר', 'גינגר'], [80, 1.8, 0.8, 0.2, 18, 2, 1.7, 13], { tbsp: 6, tsp: 2, piece: 15 }],
+
+  // Herbs
+  ['parsley', ['parsley', 'flat-leaf parsley', 'פטרוזיליה'], [36, 3, 0.8, 0.1, 6.3, 3.3, 0.9, 56], { cup: 60, tbsp: 3.8, bunch: 60 }],
+  ['cilantro', ['cilantro', 'coriander leaf', 'כוסברה'], [23, 2.1, 0.5, 0, 3.7, 2.8, 0.9, 46], { cup: 16, tbsp: 1, bunch: 60 }],
+  ['basil', ['basil', 'basil leaf', 'בזיליקום'], [23, 3.2, 0.6, 0, 2.7, 1.6, 0.3, 4], { cup: 21, tbsp: 2.6, bunch: 30, sprig: 2 }],
+  ['mint', ['mint', 'mint leaf', 'נענע'], [70, 3.8, 0.9, 0.2, 14.9, 8, 0, 31], { cup: 14, tbsp: 1.6, bunch: 30, sprig: 1 }],
+  ['dill', ['dill', 'שמיר'], [43, 3.5, 1.1, 0, 7, 2.1, 0, 61], { cup: 9, tbsp: 1, bunch: 30 }],
+
+  // Fruit
+  ['lemon', ['lemon', 'לימון'], [29, 1.1, 0.3, 0, 9.3, 2.8, 2.5, 2], { piece: 84 }],
+  ['lemon-juice', ['lemon juice', 'lime juice', 'מיץ לימון'], [22, 0.4, 0.2, 0, 6.9, 0.3, 2.5, 1], { cup: 244, tbsp: 15, tsp: 5 }],
+  ['lime', ['lime', 'ליים'], [30, 0.7, 0.2, 0, 10.5, 2.8, 1.7, 2], { piece: 67 }],
+  ['apple', ['apple', 'תפוח', 'תפוחים'], [52, 0.3, 0.2, 0, 13.8, 2.4, 10.4, 1], { piece: 182, cup: 125 }],
+  ['banana', ['banana', 'בננה'], [89, 1.1, 0.3, 0.1, 22.8, 2.6, 12.2, 1], { piece: 118, cup: 150 }],
+  ['orange', ['orange', 'תפוז'], [47, 0.9, 0.1, 0, 11.8, 2.4, 9.4, 0], { piece: 131 }],
+  ['strawberries', ['strawberry', 'raspberry', 'berry', 'תות'], [32, 0.7, 0.3, 0, 7.7, 2, 4.9, 1], { cup: 152, piece: 12 }],
+  ['blueberries', ['blueberry'], [57, 0.7, 0.3, 0, 14.5, 2.4, 10, 1], { cup: 148 }],
+  ['raisins', ['raisin', 'צימוקים'], [299, 3.1, 0.5, 0.1, 79.2, 3.7, 59.2, 11], { cup: 145, tbsp: 9 }],
+  ['dates', ['date', 'medjool date', 'תמר', 'תמרים'], [277, 1.8, 0.2, 0, 75, 6.7, 66, 1], { piece: 24, cup: 147 }],
+  ['coconut-milk', ['coconut milk', 'coconut cream', 'חלב קוקוס'], [230, 2.3, 23.8, 21.1, 5.5, 2.2, 3.3, 15], { cup: 240, can: 400, tbsp: 15 }],
+
+  // Pantry, seasonings and liquids
+  ['salt', ['salt', 'kosher salt', 'sea salt', 'table salt', 'מלח'], [0, 0, 0, 0, 0, 0, 0, 38758], { tsp: 6, tbsp: 18, pinch: 0.4, dash: 0.6 }],
+  ['black-pepper', ['black pepper', 'pepper', 'ground pepper', 'פלפל שחור'], [251, 10.4, 3.3, 1.4, 64, 25.3, 0.6, 20], { tsp: 2.3, tbsp: 6.9, pinch: 0.1, dash: 0.2 }],
+  ['baking-soda', ['baking soda', 'bicarbonate of soda', 'סודה לשתיה'], [0, 0, 0, 0, 0, 0, 0, 27360], { tsp: 4.6, tbsp: 13.8, pinch: 0.3 }],
+  ['baking-powder', ['baking powder', 'אבקת אפיה'], [53, 0, 0, 0, 27.7, 0.2, 0, 10600], { tsp: 4.6, tbsp: 13.8 }],
+  ['yeast', ['yeast', 'dry yeast', 'instant yeast', 'active dry yeast', 'שמרים'], [325, 40.4, 7.6, 1, 41.2, 26.9, 0, 51], { tsp: 3, tbsp: 9, package: 7 }],
+  ['vanilla', ['vanilla extract', 'vanilla', 'תמצית וניל'], [288, 0.1, 0.1, 0, 12.7, 0, 12.7, 9], { tsp: 4.2, tbsp: 13 }],
+  ['soy-sauce', ['soy sauce', 'tamari', 'רוטב סויה'], [53, 8.1, 0.6, 0.1, 4.9, 0.8, 0.4, 5493], { tbsp: 16, tsp: 5.3, cup: 255 }],
+  ['vinegar', ['vinegar', 'white vinegar', 'apple cider vinegar', 'wine vinegar', 'balsamic vinegar', 'חומץ'], [18, 0, 0, 0, 0.04, 0, 0.04, 2], { tbsp: 15, tsp: 5, cup: 239 }],
+  ['ketchup', ['ketchup', 'catsup', 'קטשופ'], [101, 1, 0.1, 0, 27.4, 0.3, 22.8, 907], { tbsp: 17, cup: 240 }],
+  ['mustard', ['mustard', 'dijon mustard', 'חרדל'], [60, 3.7, 3.3, 0.2, 5.8, 4, 0.9, 1104], { tsp: 5, tbsp: 15 }],
+  ['broth', ['chicken broth', 'broth', 'stock', 'chicken stock', 'vegetable broth', 'vegetable stock', 'beef broth', 'ציר'], [6, 0.6, 0.2, 0.1, 0.4, 0, 0.2, 343], { cup: 240 }],
+  ['water', ['water', 'מים'], [0, 0, 0, 0, 0, 0, 0, 0], { cup: 237, tbsp: 15, tsp: 5 }],
+  ['cumin', ['cumin', 'ground cumin', 'cumin seed', 'כמון'], [375, 17.8, 22.3, 1.5, 44.2, 10.5, 2.3, 168], { tsp: 2.1, tbsp: 6, pinch: 0.2 }],
+  ['paprika', ['paprika', 'smoked paprika', 'sweet paprika', 'פפריקה'], [282, 14.1, 12.9, 2.1, 54, 34.9, 10.3, 68], { tsp: 2.3, tbsp: 6.8, pinch: 0.2 }],
+  ['cinnamon', ['cinnamon', 'ground cinnamon', 'קינמון'], [247, 4, 1.2, 0.3, 80.6, 53.1, 2.2, 10], { tsp: 2.6, tbsp: 7.8, pinch: 0.2, stick: 3 }],
+  ['dried-herbs', ['oregano', 'thyme', 'rosemary', 'dried oregano', 'dried thyme', 'italian seasoning', 'herb', 'za\'atar', 'זעתר'], [265, 9, 4.3, 1.6, 68.9, 42.5, 4.1, 25], { tsp: 1, tbsp: 3, pinch: 0.1, sprig: 1 }],
+  ['spice-mix', ['spice', 'taco seasoning', 'curry powder', 'chili powder', 'garam masala', 'turmeric', 'כורכום', 'בהרט'], [325, 12.7, 14, 2.3, 55.8, 33.2, 2.8, 1000], { tsp: 2.5, tbsp: 7.5, pinch: 0.2, package: 28 }],
+];
+
+export const NUTRIENT_FOODS: NutrientFood[] = ROWS.map(([id, names, per100g, portions]) => ({ id, names, per100g, portions }));
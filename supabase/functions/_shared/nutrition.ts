@@ -0,0 +1,83 @@
+// Nutrition types and arithmetic shared by calculate-calories and the web app.
+// Masses are in grams except sodium, which is in milligrams.
+
+export interface NutritionFacts {
+  calories: number;
+  protein: number;
+  fat: number;
+  saturatedFat: number;
+  carbs: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+}
+
+// Where an ingredient's numbers came from: the bundled nutrient table, an AI
+// estimate, or nowhere (counted as zero)
+export type NutritionSource = 'database' | 'ai' | 'unmatched';
+
+export interface IngredientNutrition {
+  name: string;
+  // Estimated weight used for the calculation, when known
+  grams: number | null;
+  nutrition: NutritionFacts;
+  source?: NutritionSource;
+  // Table food the ingredient was matched to
+  matchedFood?: string;
+  // 0-1, combining how well the name matched and how reliably the amount was weighed
+  confidence?: number;
+}
+
+export interface RecipeNutrition {
+  servings: number;
+  total: NutritionFacts;
+  perServing: NutritionFacts;
+  ingredients: IngredientNutrition[];
+}
+
+export const NUTRIENT_KEYS: (keyof NutritionFacts)[] = [
+  'calories', 'protein', 'fat', 'saturatedFat', 'carbs', 'fiber', 'sugar', 'sodium',
+];
+
+export function emptyNutrition(): NutritionFacts {
+  return { calories: 0, protein: 0, fat: 0, saturatedFat: 0, carbs: 0, fiber: 0, sugar: 0, sodium: 0 };
+}
+
+export function addNutrition(a: NutritionFacts, b: NutritionFacts): NutritionFacts {
+  const sum = emptyNutrition();
+  for (const key of NUTRIENT_KEYS) sum[key] = (a[key] || 0) + (b[key] || 0);
+  return sum;
+}
+
+export function scaleNutrition(facts: NutritionFacts, factor: number): NutritionFacts {
+  const scaled = emptyNutrition();
+  for (const key of NUTRIENT_KEYS) scaled[key] = (facts[key] || 0) * factor;
+  return scaled;
+}
+
+// Round for display and storage: calories and sodium to whole numbers, the rest to 0.1 g
+export function roundNutrition(facts: NutritionFacts): NutritionFacts {
+  const rounded = emptyNutrition();
+  for (const key of NUTRIENT_KEYS) {
+    const value = Number(facts[key]) || 0;
+    rounded[key] = key === 'calories' || key === 'sodium' ? Math.round(value) : Math.round(value * 10) / 10;
+  }
+  return rounded;
+}
+
+// Sum per-ingredient contributions into recipe and per-serving totals
+export function buildRecipeNutrition(ingredients: IngredientNutrition[], servings: number): RecipeNutrition {
+  const safeServings = servings > 0 ? servings : 1;
+  const total = ingredients.reduce((sum, ingredient) => addNutrition(sum, ingredient.nutrition), emptyNutrition());
+
+  return {
+    servings: safeServings,
+    total: roundNutrition(total),
+    perServing: roundNutrition(scaleNutrition(total, 1 / safeServings)),
+    ingredients: ingredients.map(ingredient => ({
+      ...ingredient,
+      grams: ingredient.grams === null ? null : Math.round(ingredient.grams),
+      nutrition: roundNutrition(ingredient.nutrition)
+    }))
+  };
+}
@@ -0,0 +1,347 @@
+// Import of a single recipe URL, shared by every bulk import path: dedupe against
+// saved recipes, track the URL in imported_recipe_urls, extract the recipe through
+// the extract-recipe function and save it with its ingredients.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { canonicalizeUrl } from './canonicalUrl.ts';
+import type { ImportDetails } from './importEntries.ts';
+import type { ParsedIngredient } from './ingredients.ts';
+
+export type ImportOutcome =
+  | { status: 'imported'; recipeId: string }
+  | { status: 'skipped'; recipeId?: string; reason: string };
+
+export interface ImportOptions {
+  // Re-extract instead of using a cached extraction result
+  force?: boolean;
+  // Import URLs that were marked as ignored on the Imports page
+  includeIgnored?: boolean;
+}
+
+export class ImportError extends Error {
+  constructor(
+    message: string,
+    // Worth trying again later: timeouts, rate limits, server errors
+    readonly retryable = false,
+  ) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// Quote a value for a PostgREST or() filter, where commas and parentheses are syntax
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+// A saved recipe for the same page, however it was linked; rows saved before
+// canonical URLs were stored only match on the exact URL
+export async function findExistingRecipe(
+  supabase: SupabaseClient,
+  url: string,
+  canonicalUrl: string,
+): Promise<{ id: string; title: string } | null> {
+  const { data, error } = await supabase
+    .from('recipes')
+    .select('id, title')
+    .or(`canonical_url.eq.${quoteFilterValue(canonicalUrl)},website_url.eq.${quoteFilterValue(url)}`)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new ImportError(`Error checking existing recipe: ${error.message}`, true);
+  return data;
+}
+
+// Why a URL would be skipped without being extracted, or null when it would be imported.
+// Nothing is written, so import previews use it too
+export async function checkImportable(
+  supabase: SupabaseClient,
+  url: string,
+  options: ImportOptions = {},
+): Promise<Extract<ImportOutcome, { status: 'skipped' }> | null> {
+  const canonicalUrl = canonicalizeUrl(url);
+  if (!canonicalUrl || !/^https?:\/\//i.test(url)) {
+    console.log('Skipping invalid URL:', url);
+    return { status: 'skipped', reason: 'Not a web URL' };
+  }
+
+  const existingRecipe = await findExistingRecipe(supabase, url, canonicalUrl);
+  if (existingRecipe) {
+    console.log('Recipe already exists for URL:', url, 'recipe:', existingRecipe.title);
+    return { status: 'skipped', recipeId: existingRecipe.id, reason: `Already saved as "${existingRecipe.title}"` };
+  }
+
+  if (!options.includeIgnored) {
+    const { data: tracked } = await supabase
+      .from('imported_recipe_urls')
+      .select('status')
+      .eq('url', url)
+      .maybeSingle();
+    if (tracked?.status === 'ignored') {
+      return { status: 'skipped', reason: 'Ignored on the Imports page' };
+    }
+  }
+
+  return null;
+}
+
+// HTTP status of a failed functions.invoke call, when the function answered at all
+function invokeStatus(error: unknown): number | undefined {
+  const context = (error as { context?: { status?: number } } | null)?.context;
+  return typeof context?.status === 'number' ? context.status : undefined;
+}
+
+export async function importRecipeUrl(
+  supabase: SupabaseClient,
+  url: string,
+  options: ImportOptions = {},
+  details: ImportDetails = {},
+): Promise<ImportOutcome> {
+  const canonicalUrl = canonicalizeUrl(url);
+  const skip = await checkImportable(supabase, url, options);
+  if (skip) {
+    // A URL that failed before but has since been saved another way is no longer a failure
+    if (skip.recipeId) {
+      await supabase
+        .from('imported_recipe_urls')
+        .update({ status: 'success', recipe_id: skip.recipeId, error_message: null })
+        .eq('url', url)
+        .neq('status', 'success');
+    }
+    return skip;
+  }
+
+  // Upsert URL as pending in tracking table (handle existing records)
+  const { data: urlRecord, error: insertError } = await supabase
+    .from('imported_recipe_urls')
+    .upsert({ url, status: 'pending', error_message: null }, { onConflict: 'url' })
+    .select()
+    .single();
+
+  if (insertError) {
+    throw new ImportError(`Error upserting URL record: ${insertError.message}`, true);
+  }
+
+  const markFailed = async (message: string) => {
+    await supabase
+      .from('imported_recipe_urls')
+      .update({ status: 'failed', error_message: message })
+      .eq('id', urlRecord.id);
+  };
+
+  console.log('Extracting recipe from:', url);
+
+  // Call extract-recipe function
+  const { data: extractData, error: extractError } = await supabase.functions.invoke('extract-recipe', {
+    body: { url, force: options.force ?? false }
+  });
+
+  if (extractError || !extractData?.success) {
+    const errorMsg = extractError?.message || extractData?.error || 'Unknown extraction error';
+    console.error('Failed to extract recipe:', errorMsg);
+    await markFailed(errorMsg);
+
+    // A page without a recipe (4xx) stays that way; anything else may be transient
+    const status = invokeStatus(extractError);
+    throw new ImportError(errorMsg, status === undefined || status >= 500 || status === 429);
+  }
+
+  // Extract proper title and thumbnail - use YouTube video data if available
+  let recipeTitle = extractTitle(url);
+  let recipeImage = '';
+
+  // For YouTube videos, try to get the actual video title and thumbnail
+  if (url.includes('youtube.com') || url.includes('youtu.be')) {
+    try {
+      const youtubeApiKey = Deno.env.get('YOUTUBE_API_KEY');
+      if (youtubeApiKey) {
+        const videoId = extractVideoIdFromUrl(url);
+        if (videoId) {
+          const youtubeData = await getYouTubeVideoData(videoId, youtubeApiKey);
+          if (youtubeData) {
+            if (youtubeData.title) {
+              recipeTitle = youtubeData.title;
+              console.log('Using YouTube video title:', recipeTitle);
+            }
+            if (youtubeData.thumbnail) {
+              recipeImage = youtubeData.thumbnail;
+              console.log('Using YouTube thumbnail:', recipeImage);
+            }
+          }
+        }
+      }
+    } catch (error) {
+      console.log('Failed to get YouTube data, using URL-based title:', error);
+    }
+  }
+
+  // A title given by the source wins over one derived from the page
+  if (details.title) recipeTitle = details.title;
+
+  // Create recipe from extracted data
+  const recipeData = {
+    title: recipeTitle,
+    description: '',
+    image: recipeImage, // Use YouTube thumbnail if available
+    rating: 0,
+    tags: details.tags ?? [],
+    instructions: extractData.instructions || [],
+    instruction_groups: extractData.instructionGroups ?? null,
+    cook_time: 0,
+    servings: 1,
+    website_url: url, // Single URL field for all types (YouTube, websites, etc.)
+    canonical_url: canonicalUrl,
+    youtube_url: null, // Remove this field entirely
+    calories: null
+  };
+
+  const { data: newRecipe, error: recipeError } = await supabase
+    .from('recipes')
+    .insert(recipeData)
+    .select()
+    .single();
+
+  if (recipeError) {
+    console.error('Error creating recipe:', recipeError);
+    await markFailed(recipeError.message);
+    throw new ImportError(recipeError.message, true);
+  }
+
+  // Insert ingredients
+  const structuredIngredients: Partial<ParsedIngredient>[] = extractData.structuredIngredients || [];
+  if (structuredIngredients.length > 0) {
+    const { error: ingredientsError } = await supabase
+      .from('ingredients')
+      .insert(
+        structuredIngredients.map(ing => ({
+          recipe_id: newRecipe.id,
+          name: ing.name || '',
+          amount: ing.amount || '',
+          unit: ing.unit || '',
+          package_size: ing.packageSize || null,
+          quantity_value: ing.quantity?.value ?? null,
+          quantity_max: ing.quantity?.max ?? null,
+          canonical_unit: ing.canonicalUnit || null,
+          preparation: ing.preparation || null,
+          original_text: ing.originalText || null,
+          group_name: ing.group || null
+        }))
+      );
+
+    if (ingredientsError) {
+      console.error('Error inserting ingredients:', ingredientsError);
+    }
+  }
+
+  // Keep what the sender wrote about the recipe as its first comment
+  const note = sourceNote(details);
+  if (note) {
+    const { error: commentError } = await supabase
+      .from('comments')
+      .insert({ recipe_id: newRecipe.id, text: note });
+
+    if (commentError) {
+      console.error('Error saving import notes:', commentError);
+    }
+  }
+
+  // Update URL record with success
+  await supabase
+    .from('imported_recipe_urls')
+    .update({
+      status: 'success',
+      recipe_id: newRecipe.id,
+      error_message: null,
+      imported_at: new Date().toISOString()
+    })
+    .eq('id', urlRecord.id);
+
+  console.log('Successfully imported recipe:', newRecipe.id);
+  return { status: 'imported', recipeId: newRecipe.id };
+}
+
+function sourceNote(details: ImportDetails): string | null {
+  if (details.notes && details.submitter) return `${details.notes}\n— ${details.submitter}`;
+  if (details.notes) return details.notes;
+  if (details.submitter) return `Sent by ${details.submitter}`;
+  return null;
+}
+
+// Helper function to extract video ID from YouTube URL
+function extractVideoIdFromUrl(url: string): string | null {
+  const patterns = [
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/|youtube\.com\/shorts\/)([^&\n?#]+)/,
+    /youtube\.com\/watch\?.*v=([^&\n?#]+)/
+  ];
+
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+// Helper function to get YouTube video data (title and thumbnail) using Data API v3
+async function getYouTubeVideoData(videoId: string, apiKey: string): Promise<{ title: string; thumbnail: string } | null> {
+  try {
+    const apiUrl = `https://www.googleapis.com/youtube/v3/videos?part=snippet&id=${videoId}&key=${apiKey}`;
+
+    const response = await fetch(apiUrl, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; RecipeExtractor/1.0)'
+      }
+    });
+
+    if (!response.ok) {
+      console.log('YouTube API failed for data extraction:', response.status);
+      return null;
+    }
+
+    const data = await response.json();
+
+    if (!data.items || data.items.length === 0) {
+      console.log('No video data found for extraction');
+      return null;
+    }
+
+    const snippet = data.items[0].snippet;
+
+    if (!snippet) {
+      console.log('No snippet found in video data');
+      return null;
+    }
+
+    const title = snippet.title || '';
+    const thumbnail = snippet.thumbnails?.maxres?.url ||
+                     snippet.thumbnails?.high?.url ||
+                     snippet.thumbnails?.medium?.url ||
+                     snippet.thumbnails?.default?.url || '';
+
+    return { title, thumbnail };
+  } catch (error) {
+    console.error('Error getting YouTube video data:', error);
+    return null;
+  }
+}
+
+// Helper function to extract title from URL
+function extractTitle(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    const pathParts = urlObj.pathname.split('/').filter(p => p.length > 0);
+
+    if (pathParts.length > 0) {
+      // Get last path segment and clean it up
+      const lastPart = pathParts[pathParts.length - 1];
+      return lastPart
+        .replace(/[-_]/g, ' ')
+        .replace(/\.\w+$/, '') // Remove file extension
+        .split(' ')
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' ');
+    }
+
+    return urlObj.hostname.replace('www.', '');
+  } catch {
+    return 'Imported Recipe';
+  }
+}
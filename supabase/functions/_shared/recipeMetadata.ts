@@ -0,0 +1,170 @@
+// Recipe details beyond ingredients and steps, as read from schema.org markup,
+// plus the value normalizers shared by the structured-data extractors.
+import type { NutritionFacts } from './nutrition.ts';
+
+export interface RecipeRating {
+  value: number;
+  count?: number;
+  best?: number;
+}
+
+export interface RecipeMetadata {
+  title?: string;
+  description?: string;
+  image?: string;
+  // Numeric servings when the yield names one, plus the yield as written ("1 loaf")
+  servings?: number;
+  yield?: string;
+  // Minutes
+  prepTime?: number;
+  cookTime?: number;
+  totalTime?: number;
+  categories: string[];
+  cuisines: string[];
+  keywords: string[];
+  // Per serving, as published by the site
+  nutrition?: Partial<NutritionFacts>;
+  rating?: RecipeRating;
+}
+
+export function emptyRecipeMetadata(): RecipeMetadata {
+  return { categories: [], cuisines: [], keywords: [] };
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—', deg: '°',
+  frac12: '½', frac14: '¼', frac34: '¾', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+};
+
+// Decode HTML entities and drop markup that sites leave inside structured data strings
+export function cleanText(value: unknown): string {
+  if (typeof value !== 'string' && typeof value !== 'number') return '';
+  return String(value)
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&([a-z]+\d*);/gi, (entity, name) => ENTITIES[name.toLowerCase()] ?? entity)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// ISO-8601 duration ("PT1H30M", "P0DT2H") to minutes; plain "45 minutes" is accepted too
+export function parseDuration(value: unknown): number | undefined {
+  const text = cleanText(value);
+  if (!text) return undefined;
+
+  const iso = text.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (iso && iso[0] !== 'P' && iso[0].toUpperCase() !== 'PT') {
+    const [, days, hours, minutes, seconds] = iso;
+    const total = Number(days || 0) * 1440 + Number(hours || 0) * 60 + Number(minutes || 0) + Number(seconds || 0) / 60;
+    return total > 0 ? Math.round(total) : undefined;
+  }
+
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/i);
+  const minutes = text.match(/(\d+)\s*(?:m|min|mins|minute|minutes)\b/i);
+  if (!hours && !minutes) return undefined;
+  const total = Number(hours?.[1] || 0) * 60 + Number(minutes?.[1] || 0);
+  return total > 0 ? Math.round(total) : undefined;
+}
+
+// recipeYield is a number, a string ("4 servings", "Makes 12 cookies") or an array of both
+export function parseYield(value: unknown): { servings?: number; text?: string } {
+  const values = Array.isArray(value) ? value : [value];
+  let servings: number | undefined;
+  let text: string | undefined;
+
+  for (const entry of values) {
+    const cleaned = cleanText(entry);
+    if (!cleaned) continue;
+    text = text || cleaned;
+    const number = cleaned.match(/\d+/);
+    if (servings === undefined && number) {
+      servings = Number(number[0]);
+      // Prefer the entry that reads like plain servings over "1 loaf"
+      if (/^\d+$/.test(cleaned) || /serv|portion|people|person/i.test(cleaned)) text = cleaned;
+    }
+  }
+
+  return { servings: servings && servings > 0 ? servings : undefined, text };
+}
+
+// A list given as an array, a comma-separated string, or objects with a name
+export function toStringList(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : [value];
+  const list = entries.flatMap(entry => {
+    if (entry && typeof entry === 'object') return [cleanText((entry as Record<string, unknown>).name)];
+    return cleanText(entry).split(',');
+  });
+  const seen = new Set<string>();
+  return list
+    .map(item => item.trim())
+    .filter(item => {
+      const key = item.toLowerCase();
+      if (!item || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// image may be a URL, an ImageObject, or an array of either; the first usable URL wins
+export function imageUrl(value: unknown): string | undefined {
+  const entries = Array.isArray(value) ? value : [value];
+  for (const entry of entries) {
+    const url = entry && typeof entry === 'object'
+      ? cleanText((entry as Record<string, unknown>).url || (entry as Record<string, unknown>).contentUrl || (entry as Record<string, unknown>)['@id'])
+      : cleanText(entry);
+    if (/^https?:\/\//i.test(url)) return url;
+  }
+  return undefined;
+}
+
+function parseAmount(value: unknown): number | undefined {
+  // "1,234" is a thousands separator, "4,5" a decimal comma
+  const match = cleanText(value).replace(/(\d),(\d{3})\b/g, '$1$2').replace(',', '.').match(/\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : undefined;
+}
+
+// schema.org NutritionInformation property names for each of our nutrients
+const NUTRITION_PROPERTIES: [keyof NutritionFacts, string][] = [
+  ['calories', 'calories'],
+  ['protein', 'proteinContent'],
+  ['fat', 'fatContent'],
+  ['saturatedFat', 'saturatedFatContent'],
+  ['carbs', 'carbohydrateContent'],
+  ['fiber', 'fiberContent'],
+  ['sugar', 'sugarContent'],
+  ['sodium', 'sodiumContent'],
+];
+
+// Read a NutritionInformation object ("240 kcal", "12 g", "300 mg") into our units
+export function parseNutrition(value: unknown): Partial<NutritionFacts> | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const source = value as Record<string, unknown>;
+  const nutrition: Partial<NutritionFacts> = {};
+
+  for (const [key, property] of NUTRITION_PROPERTIES) {
+    let amount = parseAmount(source[property]);
+    if (amount === undefined) continue;
+    // Sodium is stored in milligrams
+    if (key === 'sodium' && /\d\s*g\b/i.test(cleanText(source[property]))) amount *= 1000;
+    nutrition[key] = amount;
+  }
+
+  return Object.keys(nutrition).length > 0 ? nutrition : undefined;
+}
+
+export function parseRating(value: unknown): RecipeRating | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const source = value as Record<string, unknown>;
+  const rating = parseAmount(source.ratingValue);
+  if (rating === undefined || rating <= 0) return undefined;
+
+  const count = parseAmount(source.ratingCount ?? source.reviewCount);
+  const best = parseAmount(source.bestRating);
+  return {
+    value: rating,
+    ...(count !== undefined ? { count } : {}),
+    ...(best !== undefined ? { best } : {}),
+  };
+}
+
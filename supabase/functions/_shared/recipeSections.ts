@@ -0,0 +1,57 @@
+// Named parts of a recipe ("For the dough", "For the filling"), carried next to the flat
+// ingredient and step lists so callers that ignore them still get every line.
+
+// `groups[i]` is the section of `items[i]`, '' when the line belongs to none
+export interface SectionedList {
+  items: string[];
+  groups: string[];
+}
+
+export function hasSections(groups: readonly string[] | null | undefined): boolean {
+  return Boolean(groups?.some(Boolean));
+}
+
+// A list of strings, or of sections shaped like {section|name, items|steps}; AI output may use either
+export function flattenSections(raw: unknown): SectionedList {
+  const list: SectionedList = { items: [], groups: [] };
+  if (!Array.isArray(raw)) return list;
+
+  for (const entry of raw) {
+    if (typeof entry === 'string') {
+      list.items.push(entry);
+      list.groups.push('');
+      continue;
+    }
+    if (!entry || typeof entry !== 'object') continue;
+
+    const section = entry as Record<string, unknown>;
+    const items = section.items ?? section.steps ?? section.ingredients;
+    const name = typeof section.section === 'string' ? section.section : typeof section.name === 'string' ? section.name : '';
+    if (!Array.isArray(items)) continue;
+    items.filter((item): item is string => typeof item === 'string').forEach(item => {
+      list.items.push(item);
+      list.groups.push(name.trim());
+    });
+  }
+  return list;
+}
+
+// "For the sauce:", "Dough:", "For the topping" — short, no amounts
+const SECTION_HEADER = /^(?:for the\s+[^\d:]{2,40}|[^\d:]{2,40}:)$/i;
+
+// Ingredient lists often hold their section titles as lines of their own; those lines
+// become the section of the ingredients under them instead of ingredients themselves
+export function splitIngredientHeaders(lines: string[]): SectionedList {
+  const list: SectionedList = { items: [], groups: [] };
+  let current = '';
+  for (const line of lines) {
+    const text = line.trim();
+    if (SECTION_HEADER.test(text) && text.split(/\s+/).length <= 6) {
+      current = text.replace(/:$/, '').trim();
+      continue;
+    }
+    list.items.push(line);
+    list.groups.push(current);
+  }
+  return list;
+}
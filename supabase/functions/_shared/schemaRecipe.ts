@@ -0,0 +1,133 @@
+// Conversion of a schema.org Recipe node (from JSON-LD, microdata or RDFa) into
+// the extractor's ingredients, steps and metadata.
+import {
+  cleanText,
+  emptyRecipeMetadata,
+  imageUrl,
+  parseDuration,
+  parseNutrition,
+  parseRating,
+  parseYield,
+  toStringList,
+  type RecipeMetadata,
+} from './recipeMetadata.ts';
+import { splitIngredientHeaders, type SectionedList } from './recipeSections.ts';
+
+export interface StructuredRecipe {
+  ingredients: string[];
+  // Section of each ingredient and step, '' outside any section
+  ingredientGroups: string[];
+  instructions: string[];
+  instructionGroups: string[];
+  metadata: RecipeMetadata;
+}
+
+// schema.org types may be a string or an array, with or without a vocabulary prefix
+export function hasSchemaType(node: Record<string, unknown>, type: string): boolean {
+  const types = node['@type'] ?? node.type;
+  return (Array.isArray(types) ? types : [types]).some(entry =>
+    typeof entry === 'string' && entry.replace(/^(https?:\/\/schema\.org\/|schema:)/, '') === type
+  );
+}
+
+// Normalize ingredients array
+export function normalizeIngredients(raw: unknown): string[] {
+  if (!raw) return [];
+  
+  const ingredients = Array.isArray(raw) ? raw : [raw];
+  
+  return ingredients
+    .map(ing => typeof ing === 'string' ? ing : String((ing as Record<string, unknown>)?.name || (ing as Record<string, unknown>)?.text || ''))
+    // Markup that wraps a whole list in one element yields one ingredient per line
+    .flatMap(ing => ing.split(/\r?\n/))
+    .filter(ing => ing && ing.trim().length > 0)
+    .map(ing => ing.trim());
+}
+
+// Normalize instructions array, keeping the name of the HowToSection each step sits in
+export function normalizeInstructionSections(raw: unknown): SectionedList {
+  const list: SectionedList = { items: [], groups: [] };
+  if (!raw) return list;
+
+  if (Array.isArray(raw)) {
+    // HowToSection groups its steps in itemListElement
+    const steps: { step: unknown; group: string }[] = raw.flatMap(step =>
+      step && typeof step === 'object' && Array.isArray(step.itemListElement)
+        ? step.itemListElement.map((inner: unknown) => ({ step: inner, group: cleanText(step.name) }))
+        : [{ step, group: '' }]
+    );
+    steps.forEach(({ step, group }) => {
+      const node = (step || {}) as Record<string, unknown>;
+      list.items.push(typeof step === 'string' ? step : String(node.text || node.name || node.instruction || ''));
+      list.groups.push(group);
+    });
+  } else if (typeof raw === 'string') {
+    // Split by common delimiters
+    raw
+      .split(/\r?\n+|\.(?=\s+[A-Z]|$)/)
+      .map(s => s.trim())
+      .filter(s => s.length > 0)
+      .forEach(step => {
+        list.items.push(step);
+        list.groups.push('');
+      });
+  }
+
+  return list;
+}
+
+// Drop lines that clean up to nothing, keeping each line's section alongside it
+function cleanSectionedList(list: SectionedList): SectionedList {
+  const cleaned: SectionedList = { items: [], groups: [] };
+  list.items.forEach((item, index) => {
+    const text = cleanText(item);
+    if (!text) return;
+    cleaned.items.push(text);
+    cleaned.groups.push(list.groups[index] ?? '');
+  });
+  return cleaned;
+}
+
+// Everything but ingredients and steps from a schema.org Recipe node
+function recipeMetadataFromSchema(recipe: Record<string, unknown>): RecipeMetadata {
+  const recipeYield = parseYield(recipe.recipeYield ?? recipe.yield);
+  const metadata: RecipeMetadata = {
+    ...emptyRecipeMetadata(),
+    title: cleanText(recipe.name || recipe.headline) || undefined,
+    description: cleanText(recipe.description) || undefined,
+    image: imageUrl(recipe.image ?? recipe.thumbnailUrl),
+    servings: recipeYield.servings,
+    yield: recipeYield.text,
+    prepTime: parseDuration(recipe.prepTime),
+    cookTime: parseDuration(recipe.cookTime),
+    totalTime: parseDuration(recipe.totalTime),
+    categories: toStringList(recipe.recipeCategory),
+    cuisines: toStringList(recipe.recipeCuisine),
+    keywords: toStringList(recipe.keywords),
+    nutrition: parseNutrition(recipe.nutrition),
+    rating: parseRating(recipe.aggregateRating)
+  };
+
+  if (metadata.totalTime === undefined && (metadata.prepTime || metadata.cookTime)) {
+    metadata.totalTime = (metadata.prepTime || 0) + (metadata.cookTime || 0);
+  }
+  return metadata;
+}
+
+// Ingredients, steps and metadata from a Recipe node, or null when it has neither ingredients nor steps
+export function recipeFromSchemaNode(recipe: Record<string, unknown>): StructuredRecipe | null {
+  // schema.org has no ingredient sections, so sites list their titles as ingredient lines
+  const ingredients = splitIngredientHeaders(
+    normalizeIngredients(recipe.recipeIngredient || recipe.ingredients).map(cleanText).filter(Boolean)
+  );
+  const instructions = cleanSectionedList(normalizeInstructionSections(recipe.recipeInstructions || recipe.instructions));
+  if (ingredients.items.length === 0 && instructions.items.length === 0) return null;
+
+  return {
+    ingredients: ingredients.items,
+    ingredientGroups: ingredients.groups,
+    instructions: instructions.items,
+    instructionGroups: instructions.groups,
+    metadata: recipeMetadataFromSchema(recipe)
+  };
+}
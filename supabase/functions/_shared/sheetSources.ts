@@ -0,0 +1,71 @@
+// Reading a configured spreadsheet source: which tab to fetch, which column holds
+// each field, and how a sheet row becomes an import entry.
+import { compactDetails, type ImportEntry, mergeTags, splitTags } from './importEntries.ts';
+
+// The import_sources columns that describe how to read a sheet
+export interface SheetSource {
+  spreadsheet_id: string;
+  sheet_name: string;
+  has_header_row: boolean;
+  url_column: string;
+  title_column: string | null;
+  tags_column: string | null;
+  notes_column: string | null;
+  submitter_column: string | null;
+  default_tags: string[];
+}
+
+// Zero-based index of a column letter ("A" -> 0, "AB" -> 27), or null if it is not one
+export function columnIndex(column: string | null | undefined): number | null {
+  const letters = column?.trim().toUpperCase();
+  if (!letters || !/^[A-Z]{1,3}$/.test(letters)) return null;
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// The Sheets API URL for the whole tab; the tab name may contain spaces or quotes
+export function sheetValuesUrl(source: Pick<SheetSource, 'spreadsheet_id' | 'sheet_name'>, apiKey: string): string {
+  const range = encodeURIComponent(source.sheet_name || 'Sheet1');
+  return `https://sheets.googleapis.com/v4/spreadsheets/${encodeURIComponent(source.spreadsheet_id)}/values/${range}?key=${apiKey}`;
+}
+
+// One entry per row with a URL, carrying the mapped columns and the source's default tags
+export function sheetEntries(values: string[][], source: SheetSource): ImportEntry[] {
+  const urlIndex = columnIndex(source.url_column);
+  if (urlIndex === null) {
+    throw new Error(`"${source.url_column}" is not a column letter`);
+  }
+
+  const cell = (row: string[], column: string | null) => {
+    const index = columnIndex(column);
+    return index === null ? undefined : row[index]?.trim() || undefined;
+  };
+
+  const rows = source.has_header_row ? values.slice(1) : values;
+  const entries: ImportEntry[] = [];
+  for (const row of rows) {
+    const url = row[urlIndex]?.trim();
+    if (!url) continue;
+
+    entries.push({
+      url,
+      details: compactDetails({
+        title: cell(row, source.title_column),
+        tags: mergeTags(splitTags(cell(row, source.tags_column)), source.default_tags),
+        notes: cell(row, source.notes_column),
+        submitter: cell(row, source.submitter_column),
+      }),
+    });
+  }
+  return entries;
+}
+
+// The spreadsheet id from a pasted sheet link, or the value itself when it is already an id
+export function parseSpreadsheetId(value: string): string {
+  const trimmed = value.trim();
+  const match = trimmed.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/);
+  return match ? match[1] : trimmed;
+}
@@ -0,0 +1,90 @@
+// Unit registry shared by the edge functions and the web app.
+// Volume units convert through millilitres and mass units through grams;
+// count units (pieces, cloves, cans...) have no base conversion.
+
+export type UnitDimension = 'volume' | 'mass' | 'count';
+
+export type MeasurementSystem = 'metric' | 'imperial';
+
+export interface UnitDefinition {
+  id: string;
+  label: string;
+  plural: string;
+  dimension: UnitDimension;
+  // Size of one unit in the dimension's base unit (ml or g); 1 for count units
+  toBase: number;
+  system?: MeasurementSystem;
+  // Count units whose amount does not make sense to multiply (a pinch stays a pinch)
+  scalable?: boolean;
+  aliases: string[];
+}
+
+export const UNITS: UnitDefinition[] = [
+  // Volume
+  { id: 'ml', label: 'ml', plural: 'ml', dimension: 'volume', toBase: 1, system: 'metric', aliases: ['ml', 'ml.', 'milliliter', 'milliliters', 'millilitre', 'millilitres', 'מ"ל', 'מל'] },
+  { id: 'cl', label: 'cl', plural: 'cl', dimension: 'volume', toBase: 10, system: 'metric', aliases: ['cl', 'centiliter', 'centiliters', 'centilitre', 'centilitres'] },
+  { id: 'dl', label: 'dl', plural: 'dl', dimension: 'volume', toBase: 100, system: 'metric', aliases: ['dl', 'deciliter', 'deciliters', 'decilitre', 'decilitres'] },
+  { id: 'l', label: 'l', plural: 'l', dimension: 'volume', toBase: 1000, system: 'metric', aliases: ['l', 'l.', 'liter', 'liters', 'litre', 'litres', 'ליטר', 'ליטרים'] },
+  { id: 'tsp', label: 'tsp', plural: 'tsp', dimension: 'volume', toBase: 4.92892, system: 'imperial', aliases: ['tsp', 'tsp.', 'tsps', 't', 't.', 'teaspoon', 'teaspoons', 'כפית', 'כפיות'] },
+  { id: 'tbsp', label: 'tbsp', plural: 'tbsp', dimension: 'volume', toBase: 14.7868, system: 'imperial', aliases: ['tbsp', 'tbsp.', 'tbsps', 'tbs', 'tbs.', 'T', 'tablespoon', 'tablespoons', 'כף', 'כפות'] },
+  { id: 'fl-oz', label: 'fl oz', plural: 'fl oz', dimension: 'volume', toBase: 29.5735, system: 'imperial', aliases: ['fl oz', 'fl. oz.', 'fl.oz.', 'fluid ounce', 'fluid ounces'] },
+  { id: 'cup', label: 'cup', plural: 'cups', dimension: 'volume', toBase: 236.588, system: 'imperial', aliases: ['cup', 'cups', 'c', 'c.', 'כוס', 'כוסות'] },
+  { id: 'pint', label: 'pint', plural: 'pints', dimension: 'volume', toBase: 473.176, system: 'imperial', aliases: ['pint', 'pints', 'pt', 'pt.'] },
+  { id: 'quart', label: 'quart', plural: 'quarts', dimension: 'volume', toBase: 946.353, system: 'imperial', aliases: ['quart', 'quarts', 'qt', 'qt.'] },
+  { id: 'gallon', label: 'gallon', plural: 'gallons', dimension: 'volume', toBase: 3785.41, system: 'imperial', aliases: ['gallon', 'gallons', 'gal', 'gal.'] },
+
+  // Mass
+  { id: 'mg', label: 'mg', plural: 'mg', dimension: 'mass', toBase: 0.001, system: 'metric', aliases: ['mg', 'mg.', 'milligram', 'milligrams'] },
+  { id: 'g', label: 'g', plural: 'g', dimension: 'mass', toBase: 1, system: 'metric', aliases: ['g', 'g.', 'gr', 'gr.', 'gram', 'grams', 'gramme', 'grammes', 'גרם', "ג'"] },
+  { id: 'kg', label: 'kg', plural: 'kg', dimension: 'mass', toBase: 1000, system: 'metric', aliases: ['kg', 'kg.', 'kilo', 'kilos', 'kilogram', 'kilograms', 'ק"ג', 'קילו'] },
+  { id: 'oz', label: 'oz', plural: 'oz', dimension: 'mass', toBase: 28.3495, system: 'imperial', aliases: ['oz', 'oz.', 'ounce', 'ounces'] },
+  { id: 'lb', label: 'lb', plural: 'lb', dimension: 'mass', toBase: 453.592, system: 'imperial', aliases: ['lb', 'lb.', 'lbs', 'lbs.', 'pound', 'pounds'] },
+
+  // Count
+  { id: 'piece', label: 'piece', plural: 'pieces', dimension: 'count', toBase: 1, aliases: ['piece', 'pieces', 'pc', 'pcs', 'יחידה', 'יחידות'] },
+  { id: 'clove', label: 'clove', plural: 'cloves', dimension: 'count', toBase: 1, aliases: ['clove', 'cloves', 'שן', 'שיני'] },
+  { id: 'slice', label: 'slice', plural: 'slices', dimension: 'count', toBase: 1, aliases: ['slice', 'slices', 'פרוסה', 'פרוסות'] },
+  { id: 'can', label: 'can', plural: 'cans', dimension: 'count', toBase: 1, aliases: ['can', 'cans', 'tin', 'tins', 'קופסה', 'קופסאות'] },
+  { id: 'package', label: 'package', plural: 'packages', dimension: 'count', toBase: 1, aliases: ['package', 'packages', 'pkg', 'packet', 'packets', 'pack', 'packs', 'חבילה', 'חבילות'] },
+  { id: 'stick', label: 'stick', plural: 'sticks', dimension: 'count', toBase: 1, aliases: ['stick', 'sticks'] },
+  { id: 'bunch', label: 'bunch', plural: 'bunches', dimension: 'count', toBase: 1, aliases: ['bunch', 'bunches', 'צרור'] },
+  { id: 'sprig', label: 'sprig', plural: 'sprigs', dimension: 'count', toBase: 1, aliases: ['sprig', 'sprigs', 'ענף', 'ענפים'] },
+  { id: 'head', label: 'head', plural: 'heads', dimension: 'count', toBase: 1, aliases: ['head', 'heads'] },
+  { id: 'ball', label: 'ball', plural: 'balls', dimension: 'count', toBase: 1, aliases: ['ball', 'balls'] },
+  { id: 'pinch', label: 'pinch', plural: 'pinches', dimension: 'count', toBase: 1, scalable: false, aliases: ['pinch', 'pinches', 'קמצוץ'] },
+  { id: 'dash', label: 'dash', plural: 'dashes', dimension: 'count', toBase: 1, scalable: false, aliases: ['dash', 'dashes'] },
+];
+
+const UNITS_BY_ID = new Map(UNITS.map(unit => [unit.id, unit]));
+
+// Alias lookup; case-sensitive aliases ("T" = tablespoon, "t" = teaspoon) win over lower-cased ones
+const ALIASES_EXACT = new Map<string, UnitDefinition>();
+const ALIASES_LOWER = new Map<string, UnitDefinition>();
+for (const unit of UNITS) {
+  for (const alias of unit.aliases) {
+    ALIASES_EXACT.set(alias, unit);
+    if (!ALIASES_LOWER.has(alias.toLowerCase())) {
+      ALIASES_LOWER.set(alias.toLowerCase(), unit);
+    }
+  }
+}
+
+// All aliases, longest first, so "fl oz" is tried before "oz"
+export const UNIT_ALIASES: string[] = Array.from(ALIASES_EXACT.keys()).sort((a, b) => b.length - a.length);
+
+export function getUnit(id: string | null | undefined): UnitDefinition | undefined {
+  return id ? UNITS_BY_ID.get(id) : undefined;
+}
+
+// Map free-text unit ("Cups", "tbsp.", "גרם") to its registry entry
+export function findUnit(text: string | null | undefined): UnitDefinition | undefined {
+  if (!text) return undefined;
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  return ALIASES_EXACT.get(trimmed) || ALIASES_LOWER.get(trimmed.toLowerCase());
+}
+
+// Canonical unit id for free-text unit, or null when the unit is not in the registry
+export function normalizeUnit(text: string | null | undefined): string | null {
+  return findUnit(text)?.id ?? null;
+}
@@ -0,0 +1,149 @@
+// Parsing an uploaded CSV/TSV file or a pasted list of URLs into import entries.
+// A header row naming a url column maps the other columns by name; without one the
+// columns are read as url, title, tags.
+import { canonicalizeUrl } from './canonicalUrl.ts';
+import { compactDetails, type ImportEntry, splitTags } from './importEntries.ts';
+
+export interface UrlListIssue {
+  // 1-based line in the original text
+  line: number;
+  value: string;
+  reason: string;
+}
+
+export interface ParsedUrlList {
+  entries: ImportEntry[];
+  issues: UrlListIssue[];
+}
+
+type Column = 'url' | 'title' | 'tags' | 'notes' | 'submitter';
+
+const HEADER_NAMES: Record<string, Column> = {
+  url: 'url',
+  link: 'url',
+  address: 'url',
+  title: 'title',
+  name: 'title',
+  tags: 'tags',
+  tag: 'tags',
+  notes: 'notes',
+  note: 'notes',
+  submitter: 'submitter',
+  from: 'submitter',
+};
+
+const POSITIONAL_COLUMNS: Column[] = ['url', 'title', 'tags'];
+
+// Split delimited text into rows of cells, honouring double-quoted cells that
+// contain the delimiter, escaped quotes ("") or line breaks. Each row keeps the
+// line it started on.
+export function parseDelimited(text: string, delimiter: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      cell = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+// Tabs mean TSV; otherwise commas separate columns, and a plain list has just one
+export function detectDelimiter(text: string, fileName?: string): string {
+  if (fileName?.toLowerCase().endsWith('.tsv') || text.includes('\t')) return '\t';
+  return ',';
+}
+
+// Without a header, a comma-split row that is really one URL with commas in its query
+// ("https://site/recipe?ids=1,2") is put back together. A URL has no spaces, so a row
+// whose cells joined up have none is a single URL; "url,My title,tags" stays split.
+function rejoinUrl(cells: string[], delimiter: string): string[] {
+  if (delimiter !== ',' || cells.length < 2) return cells;
+  const joined = cells.join(',').trim();
+  return /^https?:\/\/\S+$/i.test(joined) ? [joined] : cells;
+}
+
+function headerColumns(cells: string[]): (Column | null)[] | null {
+  const columns = cells.map(cell => HEADER_NAMES[cell.trim().toLowerCase()] ?? null);
+  return columns.includes('url') ? columns : null;
+}
+
+export function parseUrlList(text: string, fileName?: string): ParsedUrlList {
+  const delimiter = detectDelimiter(text, fileName);
+  const rows = parseDelimited(text, delimiter);
+  const header = rows.length > 0 ? headerColumns(rows[0].cells) : null;
+  const columns: (Column | null)[] = header ?? POSITIONAL_COLUMNS;
+  const dataRows = header ? rows.slice(1) : rows;
+
+  const entries: ImportEntry[] = [];
+  const issues: UrlListIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const { line, cells: rowCells } of dataRows) {
+    const cells = header ? rowCells : rejoinUrl(rowCells, delimiter);
+    const values: Partial<Record<Column, string>> = {};
+    columns.forEach((column, index) => {
+      const value = cells[index]?.trim();
+      if (column && value && !values[column]) values[column] = value;
+    });
+
+    const url = values.url ?? '';
+    const canonicalUrl = canonicalizeUrl(url);
+    if (!canonicalUrl || !/^https?:\/\//i.test(url)) {
+      issues.push({ line, value: url || cells.join(' ').trim(), reason: 'Not a web URL' });
+      continue;
+    }
+    if (seen.has(canonicalUrl)) {
+      issues.push({ line, value: url, reason: 'Listed twice' });
+      continue;
+    }
+    seen.add(canonicalUrl);
+
+    entries.push({
+      url,
+      details: compactDetails({
+        title: values.title,
+        tags: splitTags(values.tags),
+        notes: values.notes,
+        submitter: values.submitter,
+      }),
+    });
+  }
+
+  return { entries, issues };
+}
@@ -1,11 +1,105 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { parseIngredient, parseQuantity, type ParsedIngredient } from "../_shared/ingredients.ts";
+import { normalizeUnit } from "../_shared/units.ts";
+import { completeChat, isLlmConfigured, parseJsonContent } from "../_shared/llm.ts";
+import { hasSchemaType, recipeFromSchemaNode, type StructuredRecipe } from "../_shared/schemaRecipe.ts";
+import { extractFromMicrodata } from "../_shared/microdata.ts";
+import {
+  buildExtractionReport,
+  timed,
+  type ExtractionCacheStatus,
+  type ExtractionReport,
+  type ExtractionTier,
+  type ExtractionTimings,
+} from "../_shared/extractionReport.ts";
+import type { RecipeMetadata } from "../_shared/recipeMetadata.ts";
+import { canonicalizeUrl } from "../_shared/canonicalUrl.ts";
+import { flattenSections, hasSections, splitIngredientHeaders } from "../_shared/recipeSections.ts";
+import {
+  extractionCacheClient,
+  hashContent,
+  isFresh,
+  readCachedExtraction,
+  writeCachedExtraction,
+  type CachedExtraction,
+  type ExtractionCacheClient,
+} from "../_shared/extractionCache.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// What one extraction tier produced, before ingredient structuring
+interface Extraction {
+  tier: ExtractionTier;
+  model?: string;
+  ingredients: string[];
+  instructions: string[];
+  // Section of each ingredient line and step, '' outside any section
+  ingredientGroups?: string[];
+  instructionGroups?: string[];
+  metadata?: RecipeMetadata;
+}
+
+// Per-request bookkeeping for the quality report and the result cache
+interface ExtractionContext {
+  startedAt: number;
+  timings: ExtractionTimings;
+  notes: string[];
+  sourceUrl: string;
+  canonicalUrl: string | null;
+  cache: ExtractionCacheClient | null;
+  // Caller asked to skip cached results
+  force: boolean;
+  // Hash of the content the recipe was extracted from
+  contentHash?: string;
+}
+
+const EXTRACTION_PROMPT = `You are a recipe extraction expert specializing in YouTube cooking videos. Extract recipe information from video descriptions, titles, and any text content and return ONLY valid JSON.
+
+IGNORE: ads, navigation menus, headers, footers, comments, social media widgets, advertisements, unrelated content, timestamps, hashtags.
+
+FOCUS ON: recipe ingredients and detailed cooking instructions from video content.
+
+Return this EXACT structure:
+{
+  "ingredients": ["ingredient 1", "ingredient 2", "ingredient 3"],
+  "instructions": ["step 1", "step 2", "step 3"]
+}
+
+When the recipe splits its ingredients or steps into named parts (e.g. "For the dough", "For the filling"), keep the parts by using sections instead of plain strings:
+{
+  "ingredients": [{"section": "For the dough", "items": ["ingredient 1"]}, {"section": "For the filling", "items": ["ingredient 2"]}],
+  "instructions": [{"section": "Make the dough", "items": ["step 1"]}, {"section": "Fill and bake", "items": ["step 2"]}]
+}
+
+Rules for ingredients:
+- Extract complete ingredient descriptions including amounts and units
+- Keep original phrasing (e.g., "2 cups flour", "1/2 teaspoon salt")
+- Include preparation notes (e.g., "diced", "chopped", "room temperature")
+- Look for ingredients mentioned in video descriptions or comments
+
+Rules for instructions:
+- Extract ALL cooking steps in logical order from video descriptions
+- Include preparation steps, cooking steps, and finishing steps
+- Keep timing and temperature information ("bake for 25 minutes at 350°F")
+- Make each step complete and clear
+- For YouTube Shorts, extract steps from the description or infer from the title
+- Look for numbered steps, bullet points, or paragraph breaks
+- Include cooking techniques mentioned (sauté, simmer, roast, etc.)
+- Extract any special tips or techniques mentioned
+
+Special YouTube handling:
+- If content is very short (like a title), try to infer basic cooking steps
+- Look for cooking verbs: chop, dice, slice, mix, stir, heat, cook, bake, fry, etc.
+- Extract any timing information mentioned
+- For recipe titles, try to break down into logical cooking steps
+
+If no clear recipe found, return: {"error": "No recipe found"}
+Return ONLY the JSON, no other text.`;
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -13,27 +107,48 @@ serve(async (req) => {
   }
 
   try {
-    const { url } = await req.json();
+    const { url, force = false } = await req.json();
     
     if (!url) {
       throw new Error('URL is required');
     }
 
     console.log('Extracting recipe from URL:', url);
+    const canonicalUrl = canonicalizeUrl(url);
+    const cache = canonicalUrl ? extractionCacheClient() : null;
+    const context: ExtractionContext = {
+      startedAt: Date.now(),
+      timings: {},
+      notes: [],
+      sourceUrl: url,
+      canonicalUrl,
+      cache,
+      force: Boolean(force)
+    };
+
+    // Serve a fresh cached result without touching the page
+    const cached = cache && canonicalUrl && !context.force
+      ? await timed(context.timings, 'cache', () => readCachedExtraction(cache, canonicalUrl))
+      : null;
+    if (cached && isFresh(cached)) {
+      console.log('Returning cached extraction for', canonicalUrl);
+      return cachedResponse(cached, 'hit', context);
+    }
 
     // Check if it's a YouTube URL and extract video description
     let contentToExtract = '';
     if (isYouTubeUrl(url)) {
       console.log('YouTube URL detected, extracting video description...');
-      const videoDescription = await extractYouTubeDescription(url);
+      const videoDescription = await timed(context.timings, 'youtube', () => extractYouTubeDescription(url));
       if (videoDescription) {
         contentToExtract = videoDescription;
+        context.notes.push('Read from the video description, which may leave out steps shown only in the video');
         console.log('YouTube description extracted, length:', contentToExtract.length);
       }
     }
 
     // Fetch website content
-    const websiteResponse = await fetch(url, {
+    const websiteResponse = await timed(context.timings, 'fetch', () => fetch(url, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
@@ -41,157 +156,86 @@ serve(async (req) => {
         'Cache-Control': 'no-cache',
         'Pragma': 'no-cache'
       }
-    });
+    }));
 
     if (!websiteResponse.ok) {
       throw new Error(`Failed to fetch website: ${websiteResponse.status} ${websiteResponse.statusText}`);
     }
 
-    const htmlContent = await websiteResponse.text();
+    const htmlContent = await timed(context.timings, 'fetch', () => websiteResponse.text());
     console.log('Website content fetched, length:', htmlContent.length);
 
-    // Try structured data (JSON-LD) first for exact ingredients/instructions
-    const jsonLdResult = extractFromJsonLd(htmlContent);
+    // A YouTube page changes on every request, so videos are compared by their description
+    context.contentHash = await hashContent(contentToExtract || htmlContent);
+    if (cache && cached && cached.htmlHash === context.contentHash) {
+      console.log('Page unchanged since it was cached, reusing extraction for', canonicalUrl);
+      await writeCachedExtraction(cache, {
+        canonicalUrl: cached.canonicalUrl,
+        sourceUrl: url,
+        htmlHash: cached.htmlHash,
+        result: cached.result,
+        extractedAt: cached.extractedAt
+      });
+      return cachedResponse(cached, 'revalidated', context);
+    }
+
+    // Try structured data first for exact ingredients/instructions: JSON-LD, then microdata/RDFa
+    const jsonLdResult = await timed(context.timings, 'jsonLd', () => extractFromJsonLd(htmlContent));
     if (jsonLdResult) {
-      const flat = jsonLdResult.ingredients || [];
-      // Try AI refinement for structured ingredients; fallback to heuristic
-      const aiStructured = await refineIngredientsWithAI(flat, Deno.env.get('OPENAI_API_KEY') || '').catch(() => null);
-      const structured = aiStructured && aiStructured.length > 0 ? aiStructured : buildStructuredIngredients(flat);
-      const result = {
-        success: true,
-        ingredients: flat,
-        instructions: jsonLdResult.instructions,
-        structuredIngredients: structured
-      };
-      console.log('Returning result from JSON-LD structured data:', result);
-      return new Response(
-        JSON.stringify(result),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return await recipeResponse({ tier: 'json-ld', ...jsonLdResult }, context);
+    }
+
+    const microdataResult = await timed(context.timings, 'microdata', () => extractMicrodataSafely(htmlContent));
+    if (microdataResult) {
+      return await recipeResponse({ tier: 'microdata', ...microdataResult }, context);
     }
 
     // Use YouTube description if available, otherwise clean HTML
     const textToAnalyze = contentToExtract || cleanHtmlContent(htmlContent);
     
-    // Get OpenAI API key
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiApiKey) {
-      throw new Error('OpenAI API key not configured');
+    if (!isLlmConfigured()) {
+      throw new Error('No AI provider configured');
     }
 
     console.log('Sending content to AI for recipe extraction...');
 
-    // Use AI to extract recipe information with comprehensive fallback
-    let aiResponse;
-    let aiError = null;
-    
-    // Try models in order of preference (heaviest to lightest)
-    const models = [
-      'gpt-5-nano-2025-08-07',
-      'gpt-4o', 
-      'gpt-4o-mini',
-      'gpt-3.5-turbo'
-    ];
-    
-    for (const model of models) {
-      try {
-        console.log(`Trying AI model: ${model}`);
-      aiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${openaiApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-            model: model,
-          max_completion_tokens: 2000,
-          messages: [
-            {
-              role: 'system',
-              content: `You are a recipe extraction expert specializing in YouTube cooking videos. Extract recipe information from video descriptions, titles, and any text content and return ONLY valid JSON.
-
-IGNORE: ads, navigation menus, headers, footers, comments, social media widgets, advertisements, unrelated content, timestamps, hashtags.
-
-FOCUS ON: recipe ingredients and detailed cooking instructions from video content.
-
-Return this EXACT structure:
-{
-  "ingredients": ["ingredient 1", "ingredient 2", "ingredient 3"],
-  "instructions": ["step 1", "step 2", "step 3"]
-}
-
-Rules for ingredients:
-- Extract complete ingredient descriptions including amounts and units
-- Keep original phrasing (e.g., "2 cups flour", "1/2 teaspoon salt")
-- Include preparation notes (e.g., "diced", "chopped", "room temperature")
-- Look for ingredients mentioned in video descriptions or comments
-
-Rules for instructions:
-- Extract ALL cooking steps in logical order from video descriptions
-- Include preparation steps, cooking steps, and finishing steps
-- Keep timing and temperature information ("bake for 25 minutes at 350°F")
-- Make each step complete and clear
-- For YouTube Shorts, extract steps from the description or infer from the title
-- Look for numbered steps, bullet points, or paragraph breaks
-- Include cooking techniques mentioned (sauté, simmer, roast, etc.)
-- Extract any special tips or techniques mentioned
-
-Special YouTube handling:
-- If content is very short (like a title), try to infer basic cooking steps
-- Look for cooking verbs: chop, dice, slice, mix, stir, heat, cook, bake, fry, etc.
-- Extract any timing information mentioned
-- For recipe titles, try to break down into logical cooking steps
-
-If no clear recipe found, return: {"error": "No recipe found"}
-Return ONLY the JSON, no other text.`
-            },
-            {
-              role: 'user',
-                content: `Extract the recipe from this content:\n\n${textToAnalyze.substring(0, 12000)}`
-              }
-            ]
-          })
-        });
-
-        if (aiResponse.ok) {
-          console.log(`Successfully used AI model: ${model}`);
-          break;
-        } else {
-          const errorText = await aiResponse.text();
-          console.error(`${model} API error:`, errorText);
-          aiError = errorText;
-          
-          // If quota exceeded, try next model
-          if (errorText.includes('insufficient_quota') || errorText.includes('quota')) {
-            console.log(`Quota exceeded for ${model}, trying next model...`);
-            continue;
+    // Use AI to extract recipe information; the provider module handles model fallback
+    let extractedContent: string;
+    let model: string;
+    try {
+      const completion = await timed(context.timings, 'ai', () => completeChat({
+        task: 'extract-recipe',
+        maxTokens: 2000,
+        json: true,
+        timeoutMs: 60000,
+        messages: [
+          {
+            role: 'system',
+            content: EXTRACTION_PROMPT
+          },
+          {
+            role: 'user',
+            content: `Extract the recipe from this content:\n\n${textToAnalyze.substring(0, 12000)}`
           }
-          
-          // If other error, try next model
-          console.log(`Error with ${model}, trying next model...`);
-        }
-      } catch (error) {
-        console.error(`Error calling ${model}:`, error);
-        aiError = error instanceof Error ? error.message : 'Unknown error';
-        continue;
-      }
-    }
-
-    // If all AI models failed, use heuristic fallback
-    if (!aiResponse || !aiResponse.ok) {
-      console.log('All AI models failed, using heuristic fallback');
-      return await extractRecipeHeuristic(textToAnalyze);
+        ]
+      }));
+      extractedContent = completion.content;
+      model = `${completion.provider}/${completion.model}`;
+    } catch (error) {
+      // If all AI models failed, use heuristic fallback
+      console.log('All AI models failed, using heuristic fallback:', error);
+      context.notes.push('AI extraction failed');
+      return await extractRecipeHeuristic(textToAnalyze, context);
+    }
+    if (textToAnalyze.length > 12000) {
+      context.notes.push('Page text was truncated before AI extraction; the end of the recipe may be missing');
     }
-
-    const aiResult = await aiResponse.json();
-    const extractedContent = aiResult.choices[0].message.content.trim();
     console.log('AI extraction result:', extractedContent);
 
     // Parse the JSON response
     let recipeData;
     try {
-      const jsonContent = extractedContent.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-      recipeData = JSON.parse(jsonContent);
+      recipeData = parseJsonContent<{ ingredients?: unknown[]; instructions?: unknown[]; error?: string }>(extractedContent);
     } catch (parseError) {
       console.error('Failed to parse AI response as JSON:', parseError);
       throw new Error('Failed to parse recipe data from AI response');
@@ -210,23 +254,19 @@ Return ONLY the JSON, no other text.`
       );
     }
 
-    // Return simplified structure matching the new format
-    const flatIngredients: string[] = recipeData.ingredients || [];
-    // Try AI refinement; fallback to heuristic if it fails
-    const aiStructured = await refineIngredientsWithAI(flatIngredients, openaiApiKey).catch(() => null);
-    const structured = aiStructured && aiStructured.length > 0 ? aiStructured : buildStructuredIngredients(flatIngredients);
-    const result = {
-      success: true,
-      ingredients: flatIngredients,
-      instructions: recipeData.instructions || [],
-      structuredIngredients: structured
-    };
+    // Sections come back as {section, items}; a flat ingredient list may still hold section titles as lines
+    const aiIngredients = flattenSections(recipeData.ingredients);
+    const ingredients = hasSections(aiIngredients.groups) ? aiIngredients : splitIngredientHeaders(aiIngredients.items);
+    const instructions = flattenSections(recipeData.instructions);
 
-    console.log('Returning AI extraction result:', result);
-    return new Response(
-      JSON.stringify(result),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return await recipeResponse({
+      tier: 'ai',
+      model,
+      ingredients: ingredients.items,
+      ingredientGroups: ingredients.groups,
+      instructions: instructions.items,
+      instructionGroups: instructions.groups
+    }, context);
 
   } catch (error) {
     console.error('Error in extract-recipe function:', error);
@@ -243,8 +283,114 @@ Return ONLY the JSON, no other text.`
   }
 });
 
+// Walk a JSON-LD document (arrays, @graph, mainEntity...) and collect every Recipe node
+function findRecipeNodes(data: unknown, found: Record<string, unknown>[] = [], depth = 0): Record<string, unknown>[] {
+  if (!data || typeof data !== 'object' || depth > 8) return found;
+
+  if (Array.isArray(data)) {
+    data.forEach(entry => findRecipeNodes(entry, found, depth + 1));
+    return found;
+  }
+
+  const node = data as Record<string, unknown>;
+  if (hasSchemaType(node, 'Recipe')) {
+    found.push(node);
+    return found;
+  }
+  for (const value of Object.values(node)) {
+    if (value && typeof value === 'object') findRecipeNodes(value, found, depth + 1);
+  }
+  return found;
+}
+
+// Build the success response, structuring the ingredient lines and attaching the quality report
+async function recipeResponse(extraction: Extraction, context: ExtractionContext): Promise<Response> {
+  const flat = extraction.ingredients;
+  // Try AI refinement for structured ingredients; fallback to heuristic.
+  // The heuristic tier only runs once the AI has already failed, so it is not asked again.
+  const aiStructured = extraction.tier === 'heuristic'
+    ? null
+    : await timed(context.timings, 'structureIngredients', () => refineIngredientsWithAI(flat).catch(() => null));
+  const ingredientGroups = extraction.ingredientGroups ?? [];
+  const grouped = hasSections(ingredientGroups);
+  // Sections are matched to lines by position, so AI output that merged or split lines is not used for them
+  const aiUsable = aiStructured && aiStructured.length > 0 && (!grouped || aiStructured.length === flat.length) ? aiStructured : null;
+  const structured = (aiUsable ?? buildStructuredIngredients(flat))
+    .map((ingredient, index) => (ingredientGroups[index] ? { ...ingredient, group: ingredientGroups[index] } : ingredient));
+
+  const report = buildExtractionReport({
+    tier: extraction.tier,
+    model: extraction.model,
+    ingredientParser: aiUsable ? 'ai' : 'parser',
+    ingredients: structured,
+    instructions: extraction.instructions,
+    metadata: extraction.metadata,
+    notes: context.notes,
+    timings: context.timings,
+    startedAt: context.startedAt
+  });
+
+  report.cache = context.force ? 'bypassed' : 'miss';
+
+  const result = {
+    success: true,
+    ingredients: flat,
+    instructions: extraction.instructions,
+    ...(hasSections(extraction.instructionGroups) ? { instructionGroups: extraction.instructionGroups } : {}),
+    structuredIngredients: structured,
+    ...(extraction.metadata ? { metadata: extraction.metadata } : {}),
+    report
+  };
+
+  // Heuristic results only stand in for a failed AI call; the next attempt should retry it
+  if (context.cache && context.canonicalUrl && context.contentHash && extraction.tier !== 'heuristic') {
+    await writeCachedExtraction(context.cache, {
+      canonicalUrl: context.canonicalUrl,
+      sourceUrl: context.sourceUrl,
+      htmlHash: context.contentHash,
+      result
+    });
+  }
+
+  console.log(`Returning ${extraction.tier} extraction result:`, result);
+  return new Response(
+    JSON.stringify(result),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Return a cached result, with the report describing this request rather than the original one
+function cachedResponse(entry: CachedExtraction, status: ExtractionCacheStatus, context: ExtractionContext): Response {
+  const report = entry.result.report as ExtractionReport | undefined;
+  const result = {
+    ...entry.result,
+    ...(report ? {
+      report: {
+        ...report,
+        cache: status,
+        cachedAt: entry.extractedAt,
+        timings: { ...context.timings, total: Date.now() - context.startedAt }
+      }
+    } : {})
+  };
+  return new Response(
+    JSON.stringify(result),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Microdata/RDFa parsing needs a full DOM; a page it cannot parse just falls through to the AI
+function extractMicrodataSafely(html: string): StructuredRecipe | null {
+  try {
+    return extractFromMicrodata(html);
+  } catch (error) {
+    console.error('Error extracting microdata:', error);
+    return null;
+  }
+}
+
 // Extract recipe data from JSON-LD structured data
-function extractFromJsonLd(html: string): { ingredients: string[]; instructions: string[] } | null {
+function extractFromJsonLd(html: string): StructuredRecipe | null {
   try {
     const jsonLdRegex = /<script[^>]*type=["']application\/ld\+json["'][^>]*>(.*?)<\/script>/gs;
     const matches = html.match(jsonLdRegex);
@@ -255,23 +401,12 @@ function extractFromJsonLd(html: string): { ingredients: string[]; instructions:
       const jsonContent = match.replace(/<script[^>]*type=["']application\/ld\+json["'][^>]*>/, '').replace(/<\/script>/, '');
       
       try {
-        const data = JSON.parse(jsonContent);
-        
-        // Handle both single objects and arrays
-        const recipes = Array.isArray(data) ? data : [data];
+        // Some sites emit raw line breaks inside strings, which JSON.parse rejects
+        const data = JSON.parse(jsonContent.replace(/[\r\n\t]+/g, ' '));
         
-        for (const recipe of recipes) {
-          if (recipe['@type'] === 'Recipe' || recipe.type === 'Recipe') {
-            const ingredients = normalizeIngredients(recipe.recipeIngredient || recipe.ingredients || []);
-            const instructions = normalizeInstructions(recipe.recipeInstructions || recipe.instructions || []);
-            
-            if ((ingredients && ingredients.length > 0) || (instructions && instructions.length > 0)) {
-              return {
-                ingredients: ingredients || [],
-                instructions: instructions || []
-              };
-            }
-          }
+        for (const node of findRecipeNodes(data)) {
+          const recipe = recipeFromSchemaNode(node);
+          if (recipe) return recipe;
         }
       } catch (e) {
         console.log('Failed to parse JSON-LD:', e);
@@ -336,89 +471,50 @@ function cleanHtmlContent(html: string): string {
   return cleaned;
 }
 
-// Normalize ingredients array
-function normalizeIngredients(raw: string | string[]): string[] {
-  if (!raw) return [];
-  
-  const ingredients = Array.isArray(raw) ? raw : [raw];
-  
-  return ingredients
-    .map(ing => typeof ing === 'string' ? ing : (ing as any).name || (ing as any).text || '')
-    .filter(ing => ing && ing.trim().length > 0)
-    .map(ing => ing.trim());
-}
-
-// Normalize instructions array
-function normalizeInstructions(raw: string | string[] | any[]): string[] {
-  if (!raw) return [];
-  
-  let instructions: string[] = [];
-  
-  if (Array.isArray(raw)) {
-    instructions = raw.map(step => {
-      if (typeof step === 'string') {
-        return step;
-      } else if (step.text) {
-        return step.text;
-      } else if (step.name) {
-        return step.name;
-      } else if (step.instruction) {
-        return step.instruction;
-      }
-      return '';
-    });
-  } else if (typeof raw === 'string') {
-    // Split by common delimiters
-    instructions = raw
-      .split(/\r?\n+|\.(?=\s+[A-Z]|$)/)
-      .map(s => s.trim())
-      .filter(s => s.length > 0);
-  }
-  
-  return instructions.filter(step => step && step.trim().length > 0);
-}
-
 // AI-powered ingredient structuring with fallback
-async function refineIngredientsWithAI(ingredients: string[], openaiApiKey: string): Promise<{ name: string; amount: string; unit: string }[] | null> {
+async function refineIngredientsWithAI(ingredients: string[]): Promise<ParsedIngredient[] | null> {
   if (!ingredients || ingredients.length === 0) return null;
 
   const ingredientsList = ingredients.map(ing => `- ${ing}`).join('\n');
 
   try {
-    const aiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        temperature: 0.1,
-        max_tokens: 1000,
-        response_format: { type: "json_object" },
-        messages: [
-          {
-            role: 'system',
-            content: `You are an ingredient parsing expert. For each ingredient string, extract the amount, unit, and name. Return ONLY valid JSON in the format: {"structured_ingredients": [{"name": "...", "amount": "...", "unit": "..."}, ...]}. If a field is not present, use an empty string. Combine descriptive parts into the name.`
-          },
-          {
-            role: 'user',
-            content: `Structure these ingredients:\n${ingredientsList}`
-          }
-        ]
-      }),
+    const completion = await completeChat({
+      task: 'structure-ingredients',
+      temperature: 0.1,
+      maxTokens: 1000,
+      json: true,
+      messages: [
+        {
+          role: 'system',
+          content: `You are an ingredient parsing expert. For each ingredient string, extract the amount, unit, and name. Return ONLY valid JSON in the format: {"structured_ingredients": [{"name": "...", "amount": "...", "unit": "..."}, ...]}. If a field is not present, use an empty string. Combine descriptive parts into the name.`
+        },
+        {
+          role: 'user',
+          content: `Structure these ingredients:\n${ingredientsList}`
+        }
+      ]
     });
 
-    if (aiResponse.ok) {
-      const aiResult = await aiResponse.json();
-      const structured = JSON.parse(aiResult.choices[0].message.content).structured_ingredients;
-      if (Array.isArray(structured)) {
-        return structured.map(s => ({
+    const structured = parseJsonContent<{ structured_ingredients?: { name?: string; amount?: string; unit?: string }[] }>(completion.content).structured_ingredients;
+    if (Array.isArray(structured) && structured.length > 0) {
+      // Only a line-for-line answer says which source line each item came from; otherwise
+      // another line's amount or notes would be attached to the wrong ingredient
+      const aligned = structured.length === ingredients.length;
+      return structured.map((s, index) => {
+        // The shared parser still supplies quantities, units and notes the model left out
+        const parsed = aligned ? parseIngredient(ingredients[index] || '') : null;
+        const amount = s.amount || '';
+        const unit = s.unit || '';
+        return {
           name: s.name || '',
-          amount: s.amount || '',
-          unit: s.unit || ''
-        }));
-      }
+          amount,
+          unit,
+          quantity: parseQuantity(amount) ?? parsed?.quantity ?? null,
+          canonicalUnit: normalizeUnit(unit) ?? parsed?.canonicalUnit ?? null,
+          preparation: parsed?.preparation ?? '',
+          originalText: parsed?.originalText ?? ''
+        };
+      });
     }
   } catch (e) {
     console.warn('AI ingredient structuring failed, falling back to heuristic:', e);
@@ -427,92 +523,11 @@ async function refineIngredientsWithAI(ingredients: string[], openaiApiKey: stri
   return null;
 }
 
-// Heuristic ingredient structuring (fallback)
-function buildStructuredIngredients(ingredients: string[]): { name: string; amount: string; unit: string }[] {
+// Shared-parser ingredient structuring (fallback)
+function buildStructuredIngredients(ingredients: string[]): ParsedIngredient[] {
   if (!ingredients || ingredients.length === 0) return [];
 
-  return ingredients.map(parseIngredientHeuristic);
-}
-
-// Parse individual ingredient using heuristic rules
-function parseIngredientHeuristic(ingredient: string): { name: string; amount: string; unit: string } {
-  if (!ingredient || typeof ingredient !== 'string') {
-    return { name: '', amount: '', unit: '' };
-  }
-
-  const trimmed = ingredient.trim();
-  if (trimmed.length === 0) {
-    return { name: '', amount: '', unit: '' };
-  }
-
-  // Pattern to match amounts (including fractions, decimals, mixed numbers)
-  const amountPattern = /^(\d+\s*\d+\/\d+|\d+\/\d+|\d+\.\d+|\d+|[¼½¾⅓⅔⅛⅜⅝⅞])/;
-  const amountMatch = trimmed.match(amountPattern);
-
-  if (!amountMatch) {
-    // No amount found, treat entire string as name
-    return { name: trimmed, amount: '', unit: '' };
-  }
-
-  const amount = amountMatch[1].trim();
-  const remaining = trimmed.substring(amountMatch[0].length).trim();
-
-  // Define units with better specificity
-  const units = [
-    // Multi-word units first (to avoid partial matches)
-    'tablespoon', 'tablespoons', 'tbsp', 'tbsp.', 'tbs', 'tbs.',
-    'teaspoon', 'teaspoons', 'tsp', 'tsp.',
-    'milliliter', 'milliliters', 'ml', 'ml.',
-    'kilogram', 'kilograms', 'kg', 'kg.',
-    'pound', 'pounds', 'lb', 'lb.', 'lbs', 'lbs.',
-    'ounce', 'ounces', 'oz', 'oz.',
-    'liter', 'liters',
-    'gram', 'grams',
-    'cup', 'cups', // Add cups here
-    'pinch', 'pinches', 'dash', 'dashes',
-    'clove', 'cloves', 'slice', 'slices', 'package', 'packages', 'can', 'cans',
-    // Single letter units only if they're clearly units
-    'c', 'c.', // cup
-    'g', 'g.', // gram
-    'l', 'l.', // liter
-    't', 't.', // teaspoon
-  ];
-
-  // Sort by length (longest first) to avoid partial matches
-  units.sort((a, b) => b.length - a.length);
-
-  // Check for units, but be more careful about single letters
-  for (const unit of units) {
-    const unitPattern = new RegExp(`^${unit.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=\\s|$)`, 'i');
-    const unitMatch = remaining.match(unitPattern);
-    
-    if (unitMatch) {
-      // Special check for single letter units - make sure they're not part of descriptive words
-      if (unit.length === 1 || unit.length === 2) {
-        const beforeUnit = remaining.substring(0, unitMatch.index || 0).trim();
-        const afterUnit = remaining.substring((unitMatch.index || 0) + unit.length).trim();
-        
-        // If there's text before the unit, it might be a descriptive word
-        if (beforeUnit.length > 0) {
-          // Check if the text before looks like a descriptive word
-          const descriptiveWords = ['large', 'small', 'medium', 'extra', 'super', 'mini', 'jumbo', 'tiny', 'huge', 'big', 'little'];
-          const lastWord = beforeUnit.split(/\s+/).pop()?.toLowerCase();
-          
-          if (lastWord && descriptiveWords.includes(lastWord)) {
-            // This is likely a descriptive word, not a unit
-            continue;
-          }
-        }
-      }
-      
-      const unitText = unitMatch[0];
-      const name = remaining.substring((unitMatch.index || 0) + unitText.length).trim();
-      return { name, amount, unit: unitText };
-    }
-  }
-
-  // No unit found, treat remaining as name
-  return { name: remaining, amount, unit: '' };
+  return ingredients.map(parseIngredient);
 }
 
 // Check if URL is a YouTube video
@@ -779,7 +794,7 @@ function extractInstructionsFromYouTubeContent(content: string): string[] {
 }
 
 // Heuristic fallback for recipe extraction when AI fails
-async function extractRecipeHeuristic(content: string): Promise<Response> {
+async function extractRecipeHeuristic(content: string, context: ExtractionContext): Promise<Response> {
   console.log('Using heuristic recipe extraction fallback');
   
   try {
@@ -867,31 +882,19 @@ async function extractRecipeHeuristic(content: string): Promise<Response> {
         const enhancedInstructions = extractInstructionsFromYouTubeContent(content);
         if (enhancedInstructions.length > 0) {
           instructions.push(...enhancedInstructions);
+          context.notes.push('Instructions inferred from the video title and description');
           console.log('Added enhanced instructions from YouTube content:', enhancedInstructions.length);
         } else {
           // Fallback: treat the entire content as a recipe instruction
           instructions.push(content);
+          context.notes.push('No steps found; the whole text was kept as one instruction');
           console.log('Added content as recipe instruction based on keywords');
         }
       }
     }
     
-    // Build structured ingredients using heuristic
-    const structuredIngredients = buildStructuredIngredients(ingredients);
-    
-    const result = {
-      success: true,
-      ingredients: ingredients,
-      instructions: instructions,
-      structuredIngredients: structuredIngredients
-    };
-    
-    console.log('Heuristic extraction result:', result);
-    
-    return new Response(
-      JSON.stringify(result),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    console.log('Heuristic extraction result:', { ingredients, instructions });
+    return await recipeResponse({ tier: 'heuristic', ingredients, instructions }, context);
     
   } catch (error) {
     console.error('Heuristic extraction failed:', error);
@@ -0,0 +1,114 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { createImportJob, dispatchImportWorker } from '../_shared/importJobs.ts';
+import { compactDetails, dedupeEntries, type ImportEntry, splitTags } from '../_shared/importEntries.ts';
+import { checkImportable } from '../_shared/recipeImport.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Larger lists should come in through a spreadsheet
+const MAX_URLS = 1000;
+
+// URLs checked at the same time during a dry run
+const PREVIEW_CONCURRENCY = 10;
+
+// Queue a list of URLs sent by the app (retries, pasted or uploaded lists) as a background
+// import job. With dryRun nothing is written: each URL is checked against saved and ignored
+// recipes and the plan is returned instead.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Supabase credentials not configured');
+    }
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { entries, source = 'manual', sourceRef = {}, force = false, dryRun = false } = await req.json().catch(() => ({}));
+    if (!Array.isArray(entries) || entries.some(entry => typeof entry?.url !== 'string')) {
+      throw new Error('entries must be a list of { url } objects');
+    }
+    if (entries.length > MAX_URLS) {
+      throw new Error(`At most ${MAX_URLS} URLs can be imported at once`);
+    }
+
+    const unique = dedupeEntries((entries as ImportEntry[]).map(sanitizeEntry));
+
+    if (dryRun) {
+      const preview = await previewEntries(supabase, unique);
+      return new Response(
+        JSON.stringify({ success: true, dryRun: true, preview }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (unique.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: 'No URLs to import', jobId: null, queued: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const jobId = await createImportJob(supabase, {
+      source: String(source),
+      sourceRef: typeof sourceRef === 'object' && sourceRef !== null ? sourceRef : {},
+      entries: unique,
+      force: Boolean(force)
+    });
+    dispatchImportWorker(supabase, jobId);
+
+    console.log(`Queued ${unique.length} URLs as import job ${jobId}`);
+    return new Response(
+      JSON.stringify({ success: true, message: `Queued ${unique.length} URLs`, jobId, queued: unique.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in import-urls function:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
+
+// Keep only the known detail fields, with the types the importer expects
+function sanitizeEntry(entry: ImportEntry): ImportEntry {
+  const details = entry.details ?? {};
+  const text = (value: unknown) => typeof value === 'string' ? value : undefined;
+  return {
+    url: entry.url,
+    details: compactDetails({
+      title: text(details.title),
+      tags: Array.isArray(details.tags) ? details.tags.filter(tag => typeof tag === 'string') : splitTags(text(details.tags)),
+      notes: text(details.notes),
+      submitter: text(details.submitter),
+    }),
+  };
+}
+
+async function previewEntries(supabase: SupabaseClient, entries: ImportEntry[]) {
+  const preview: Record<string, unknown>[] = new Array(entries.length);
+  for (let start = 0; start < entries.length; start += PREVIEW_CONCURRENCY) {
+    await Promise.all(entries.slice(start, start + PREVIEW_CONCURRENCY).map(async (entry, offset) => {
+      const skip = await checkImportable(supabase, entry.url);
+      preview[start + offset] = skip
+        ? { url: entry.url, status: 'skipped', reason: skip.reason, recipeId: skip.recipeId ?? null }
+        : { url: entry.url, status: 'new' };
+    }));
+  }
+  return preview;
+}
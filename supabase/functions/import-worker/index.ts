@@ -0,0 +1,199 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { ImportError, importRecipeUrl, type ImportOptions } from '../_shared/recipeImport.ts';
+import { dispatchImportWorker } from '../_shared/importJobs.ts';
+import type { ImportDetails } from '../_shared/importEntries.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// How many rows are extracted at the same time. IMPORT_CONCURRENCY overrides it,
+// e.g. to go easy on a rate-limited LLM key.
+const DEFAULT_CONCURRENCY = 3;
+
+// A row is tried this many times before it is marked failed
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_MS = 30000;
+
+// Stop claiming work well before the platform's wall-clock limit and hand over to a fresh worker.
+// The budget is checked before each row is claimed, so a worker overruns it by one row at most.
+const TIME_BUDGET_MS = 100000;
+
+// claim_import_rows takes back rows left in processing this long by a worker that died
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+// While waiting for retries or stale rows, look again this often in case the rows finish elsewhere
+const IDLE_POLL_MS = 15000;
+
+interface ClaimedRow {
+  id: string;
+  url: string;
+  attempts: number;
+  details: ImportDetails | null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { jobId } = await req.json().catch(() => ({}));
+    if (!jobId) {
+      throw new Error('jobId is required');
+    }
+
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Supabase credentials not configured');
+    }
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: job, error: jobError } = await supabase
+      .from('import_jobs')
+      .select('id, source, status, force, started_at')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+    if (!job) throw new Error(`Import job ${jobId} not found`);
+    if (job.status === 'completed') {
+      return jsonResponse({ success: true, jobId, status: 'completed', processed: 0 });
+    }
+
+    if (!job.started_at) {
+      await supabase.from('import_jobs').update({ status: 'running', started_at: new Date().toISOString() }).eq('id', jobId);
+    }
+
+    // Retries from the Imports page are explicit, so they override an earlier "ignore"
+    const options = { force: job.force, includeIgnored: job.source === 'retry' };
+    const processed = await workThroughJob(supabase, jobId, options);
+    console.log(`Import worker processed ${processed} rows of job ${jobId}`);
+    return jsonResponse({ success: true, jobId, processed });
+
+  } catch (error) {
+    console.error('Error in import-worker function:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
+
+function jsonResponse(body: Record<string, unknown>): Response {
+  return new Response(
+    JSON.stringify(body),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+function concurrency(): number {
+  const configured = Number(Deno.env.get('IMPORT_CONCURRENCY'));
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CONCURRENCY;
+}
+
+// Claim and process rows until the job runs dry or the time budget is spent,
+// then hand any remaining rows to a new worker. Returns the number of rows processed.
+async function workThroughJob(supabase: SupabaseClient, jobId: string, options: ImportOptions): Promise<number> {
+  const deadline = Date.now() + TIME_BUDGET_MS;
+  let processed = 0;
+
+  // Each lane claims one row at a time, and only while there is budget left to start it
+  const lane = async () => {
+    while (Date.now() < deadline) {
+      const row = await claimRow(supabase, jobId);
+      if (!row) return;
+      await processRow(supabase, row, options);
+      processed++;
+    }
+  };
+
+  while (Date.now() < deadline) {
+    await Promise.all(Array.from({ length: concurrency() }, lane));
+    if (Date.now() >= deadline) break;
+
+    // Nothing due right now: wait for the next retry or stale claim, within the budget
+    const nextAttempt = await nextRetryAt(supabase, jobId);
+    if (nextAttempt === null) return processed;
+
+    const wait = Math.min(Math.max(0, nextAttempt - Date.now()), deadline - Date.now(), IDLE_POLL_MS);
+    await new Promise(resolve => setTimeout(resolve, wait));
+  }
+
+  console.log(`Time budget spent on job ${jobId}, handing over to a new worker`);
+  dispatchImportWorker(supabase, jobId);
+  return processed;
+}
+
+async function claimRow(supabase: SupabaseClient, jobId: string): Promise<ClaimedRow | null> {
+  const { data: rows, error } = await supabase.rpc('claim_import_rows', { p_job_id: jobId, p_limit: 1 });
+  if (error) throw error;
+  return ((rows || []) as ClaimedRow[])[0] ?? null;
+}
+
+// When the next row can be claimed: the earliest retry, or the moment a row another worker is
+// processing counts as abandoned. Null when no rows are left to wait for.
+async function nextRetryAt(supabase: SupabaseClient, jobId: string): Promise<number | null> {
+  const [pending, processing] = await Promise.all([
+    supabase
+      .from('import_job_rows')
+      .select('next_attempt_at')
+      .eq('job_id', jobId)
+      .eq('status', 'pending')
+      .order('next_attempt_at', { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('import_job_rows')
+      .select('started_at')
+      .eq('job_id', jobId)
+      .eq('status', 'processing')
+      .order('started_at', { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (pending.error) throw pending.error;
+  if (processing.error) throw processing.error;
+
+  const times = [
+    ...(pending.data ? [new Date(pending.data.next_attempt_at).getTime()] : []),
+    ...(processing.data?.started_at ? [new Date(processing.data.started_at).getTime() + STALE_CLAIM_MS] : []),
+  ];
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+async function processRow(supabase: SupabaseClient, row: ClaimedRow, options: ImportOptions): Promise<void> {
+  let update: Record<string, unknown>;
+
+  try {
+    const outcome = await importRecipeUrl(supabase, row.url, options, row.details ?? {});
+    update = outcome.status === 'imported'
+      ? { status: 'imported', recipe_id: outcome.recipeId, error: null }
+      : { status: 'skipped', recipe_id: outcome.recipeId ?? null, error: outcome.reason };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryable = !(error instanceof ImportError) || error.retryable;
+    console.error(`Import of ${row.url} failed (attempt ${row.attempts}):`, message);
+
+    update = retryable && row.attempts < MAX_ATTEMPTS
+      ? { status: 'pending', error: message, next_attempt_at: new Date(Date.now() + RETRY_BASE_MS * 2 ** (row.attempts - 1)).toISOString() }
+      : { status: 'failed', error: message };
+  }
+
+  const finished = update.status !== 'pending';
+  const { error: updateError } = await supabase
+    .from('import_job_rows')
+    .update({ ...update, ...(finished ? { finished_at: new Date().toISOString() } : {}) })
+    .eq('id', row.id);
+
+  if (updateError) console.error(`Failed to record the result for ${row.url}:`, updateError);
+}
@@ -0,0 +1,12 @@
+-- Add structured quantity fields to ingredients, kept alongside the original text
+ALTER TABLE public.ingredients
+  ADD COLUMN IF NOT EXISTS quantity_value NUMERIC,
+  ADD COLUMN IF NOT EXISTS quantity_max NUMERIC,
+  ADD COLUMN IF NOT EXISTS canonical_unit TEXT,
+  ADD COLUMN IF NOT EXISTS preparation TEXT,
+  ADD COLUMN IF NOT EXISTS original_text TEXT;
+
+-- A range must not end below where it starts
+ALTER TABLE public.ingredients
+  ADD CONSTRAINT ingredients_quantity_range_check
+  CHECK (quantity_max IS NULL OR (quantity_value IS NOT NULL AND quantity_max >= quantity_value));
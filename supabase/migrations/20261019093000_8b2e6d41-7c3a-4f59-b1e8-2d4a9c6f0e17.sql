@@ -0,0 +1,15 @@
+-- Store a full nutrition breakdown alongside the headline calories number
+ALTER TABLE public.recipes
+  ADD COLUMN IF NOT EXISTS calories INTEGER,
+  ADD COLUMN IF NOT EXISTS nutrition JSONB;
+
+COMMENT ON COLUMN public.recipes.calories IS 'Calories per serving';
+COMMENT ON COLUMN public.recipes.nutrition IS 'Per-serving, per-recipe and per-ingredient nutrition as returned by calculate-calories';
+
+-- Calories saved before this change were estimated per 100 g, not per serving. Rows without a
+-- breakdown are exactly those, so clear them rather than show a wrong per-serving number;
+-- recalculating the recipe fills both in again.
+UPDATE public.recipes
+SET calories = NULL
+WHERE nutrition IS NULL
+  AND calories IS NOT NULL;
@@ -0,0 +1,24 @@
+-- Cache extract-recipe results so repeated imports of a URL skip the fetch and the LLM
+CREATE TABLE IF NOT EXISTS public.extraction_cache (
+  canonical_url TEXT NOT NULL PRIMARY KEY,
+  source_url TEXT NOT NULL,
+  html_hash TEXT NOT NULL,
+  result JSONB NOT NULL,
+  extracted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.extraction_cache.canonical_url IS 'URL without tracking parameters, www./m. hosts or fragments; YouTube links reduced to watch?v=';
+COMMENT ON COLUMN public.extraction_cache.html_hash IS 'SHA-256 of the fetched page, to reuse the result when an expired page has not changed';
+COMMENT ON COLUMN public.extraction_cache.result IS 'extract-recipe response body';
+
+-- Only the edge functions (service role) read and write the cache
+ALTER TABLE public.extraction_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_extraction_cache_expires_at ON public.extraction_cache(expires_at);
+
+CREATE TRIGGER update_extraction_cache_updated_at
+  BEFORE UPDATE ON public.extraction_cache
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,21 @@
+-- Canonical form of website_url, so the same page linked in different ways is recognised as one recipe
+ALTER TABLE public.recipes
+  ADD COLUMN IF NOT EXISTS canonical_url TEXT;
+
+COMMENT ON COLUMN public.recipes.canonical_url IS 'website_url without tracking parameters, www./m. hosts or fragments; YouTube links reduced to watch?v=';
+
+CREATE INDEX IF NOT EXISTS idx_recipes_canonical_url ON public.recipes(canonical_url);
+
+-- Backfill YouTube links, the most common duplicates (youtu.be, /shorts/, watch?v=...&t=).
+-- Every other row is filled in by supabase/scripts/backfill-canonical-urls.ts, which runs the
+-- same canonicalizeUrl as the app; run it once after this migration.
+UPDATE public.recipes
+SET canonical_url = 'https://www.youtube.com/watch?v=' || (
+  regexp_match(website_url, '(?:youtube\.com/watch\?(?:.*&)?v=|youtu\.be/|youtube\.com/(?:shorts|embed|live)/)([A-Za-z0-9_-]+)')
+)[1]
+WHERE canonical_url IS NULL
+  AND website_url ~ '(?:youtube\.com/watch\?(?:.*&)?v=|youtu\.be/|youtube\.com/(?:shorts|embed|live)/)[A-Za-z0-9_-]+';
+
+-- Merging duplicate recipes moves comments from one recipe to the other
+CREATE POLICY "Anyone can update comments" ON public.comments
+  FOR UPDATE USING (true);
@@ -0,0 +1,144 @@
+-- Bulk imports run as background jobs: one row per URL, worked through by the import-worker function
+CREATE TABLE IF NOT EXISTS public.import_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  source TEXT NOT NULL,
+  source_ref JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed')),
+  force BOOLEAN NOT NULL DEFAULT false,
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  imported_rows INTEGER NOT NULL DEFAULT 0,
+  skipped_rows INTEGER NOT NULL DEFAULT 0,
+  failed_rows INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.import_jobs.source IS 'Where the URLs came from, e.g. sheets';
+COMMENT ON COLUMN public.import_jobs.source_ref IS 'Source details such as the spreadsheet id and tab';
+COMMENT ON COLUMN public.import_jobs.force IS 'Re-extract every URL instead of using cached extraction results';
+
+CREATE TABLE IF NOT EXISTS public.import_job_rows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.import_jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  url TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'imported', 'skipped', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  recipe_id UUID REFERENCES public.recipes(id) ON DELETE SET NULL,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.import_job_rows.error IS 'Why the row failed, or why it was skipped';
+COMMENT ON COLUMN public.import_job_rows.next_attempt_at IS 'When a row waiting to be retried may be picked up again';
+
+CREATE INDEX IF NOT EXISTS idx_import_job_rows_job_id_status ON public.import_job_rows(job_id, status);
+CREATE INDEX IF NOT EXISTS idx_import_jobs_status ON public.import_jobs(status);
+
+-- Progress is readable by everyone; only the edge functions (service role) write it
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_job_rows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view import jobs"
+  ON public.import_jobs
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view import job rows"
+  ON public.import_job_rows
+  FOR SELECT
+  USING (true);
+
+CREATE TRIGGER update_import_jobs_updated_at
+  BEFORE UPDATE ON public.import_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_import_job_rows_updated_at
+  BEFORE UPDATE ON public.import_job_rows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep each job's counters and status in step with its rows, once per statement
+CREATE OR REPLACE FUNCTION public.refresh_import_job_progress()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE import_jobs AS job
+  SET
+    total_rows = counts.total,
+    imported_rows = counts.imported,
+    skipped_rows = counts.skipped,
+    failed_rows = counts.failed,
+    status = CASE
+      WHEN counts.open = 0 THEN 'completed'
+      WHEN counts.total > counts.open OR counts.processing > 0 THEN 'running'
+      ELSE job.status
+    END,
+    finished_at = CASE WHEN counts.open = 0 THEN coalesce(job.finished_at, now()) ELSE NULL END
+  FROM (
+    SELECT
+      job_id,
+      count(*) AS total,
+      count(*) FILTER (WHERE status = 'imported') AS imported,
+      count(*) FILTER (WHERE status = 'skipped') AS skipped,
+      count(*) FILTER (WHERE status = 'failed') AS failed,
+      count(*) FILTER (WHERE status = 'processing') AS processing,
+      count(*) FILTER (WHERE status IN ('pending', 'processing')) AS open
+    FROM import_job_rows
+    WHERE job_id IN (SELECT DISTINCT job_id FROM changed_rows)
+    GROUP BY job_id
+  ) AS counts
+  WHERE job.id = counts.job_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_import_job_progress_on_insert
+  AFTER INSERT ON public.import_job_rows
+  REFERENCING NEW TABLE AS changed_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.refresh_import_job_progress();
+
+CREATE TRIGGER refresh_import_job_progress_on_update
+  AFTER UPDATE ON public.import_job_rows
+  REFERENCING NEW TABLE AS changed_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.refresh_import_job_progress();
+
+-- Hand a worker the next rows of a job that are due, marking them as in progress.
+-- Rows left "processing" by a worker that died are picked up again after five minutes;
+-- SKIP LOCKED lets several workers share a job without taking the same row.
+CREATE OR REPLACE FUNCTION public.claim_import_rows(p_job_id UUID, p_limit INTEGER)
+RETURNS SETOF public.import_job_rows
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE import_job_rows
+  SET status = 'processing', attempts = attempts + 1, started_at = now()
+  WHERE id IN (
+    SELECT id
+    FROM import_job_rows
+    WHERE job_id = p_job_id
+      AND (
+        (status = 'pending' AND next_attempt_at <= now())
+        OR (status = 'processing' AND started_at < now() - interval '5 minutes')
+      )
+    ORDER BY position
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Stream progress to the import panel
+ALTER PUBLICATION supabase_realtime ADD TABLE public.import_jobs, public.import_job_rows;
@@ -0,0 +1,2 @@
+-- Failed bot imports can be set aside from the Imports page
+COMMENT ON COLUMN public.imported_recipe_urls.status IS 'pending, success, failed, or ignored (left out of later imports until retried by hand)';
@@ -0,0 +1,55 @@
+-- Spreadsheets the bot import reads from, with the tab and the column holding each field
+CREATE TABLE IF NOT EXISTS public.import_sources (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  spreadsheet_id TEXT NOT NULL,
+  sheet_name TEXT NOT NULL DEFAULT 'Sheet1',
+  has_header_row BOOLEAN NOT NULL DEFAULT true,
+  url_column TEXT NOT NULL DEFAULT 'A',
+  title_column TEXT,
+  tags_column TEXT,
+  notes_column TEXT,
+  submitter_column TEXT,
+  default_tags TEXT[] NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  last_imported_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.import_sources.url_column IS 'Column letter of the recipe URL; the other *_column fields are optional';
+COMMENT ON COLUMN public.import_sources.default_tags IS 'Tags added to every recipe imported from this source';
+
+ALTER TABLE public.import_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view import sources"
+  ON public.import_sources
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can create import sources"
+  ON public.import_sources
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update import sources"
+  ON public.import_sources
+  FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Anyone can delete import sources"
+  ON public.import_sources
+  FOR DELETE
+  USING (true);
+
+CREATE TRIGGER update_import_sources_updated_at
+  BEFORE UPDATE ON public.import_sources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The sheet the app used to import from before sources were configurable
+INSERT INTO public.import_sources (name, spreadsheet_id, sheet_name)
+VALUES ('Recipe bot', '1Md5ekUcTQW054tCnmFXIheJHeDMl2C9YkAKyOUTBR6g', 'Sheet1');
+
+-- Per-row values read from the source (title override, tags, notes, submitter)
+ALTER TABLE public.import_job_rows ADD COLUMN IF NOT EXISTS details JSONB;
@@ -0,0 +1,181 @@
+-- Full-text search over recipes together with their ingredients and comments.
+-- Postgres ships no Hebrew dictionary, so the hebrew configuration indexes words as
+-- written (a copy of simple); every text is indexed with it and with the english stemmer.
+CREATE TEXT SEARCH CONFIGURATION public.hebrew (COPY = pg_catalog.simple);
+
+-- One row per recipe: the text shown in match snippets and the weighted search document
+CREATE TABLE IF NOT EXISTS public.recipe_search (
+  recipe_id UUID NOT NULL PRIMARY KEY REFERENCES public.recipes(id) ON DELETE CASCADE,
+  content TEXT NOT NULL DEFAULT '',
+  document TSVECTOR NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipe_search_document ON public.recipe_search USING GIN (document);
+
+ALTER TABLE public.recipe_search ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view the recipe search index"
+  ON public.recipe_search
+  FOR SELECT
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.recipe_search_vector(p_text TEXT, p_weight "char")
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english', coalesce(p_text, '')), p_weight)
+      || setweight(to_tsvector('public.hebrew', coalesce(p_text, '')), p_weight);
+$$;
+
+-- Rebuild a recipe's search row. Title weighs most, then tags and ingredients, then
+-- description and instructions, then comments. Does nothing for a recipe that is gone.
+CREATE OR REPLACE FUNCTION public.refresh_recipe_search(p_recipe_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO recipe_search (recipe_id, content, document, updated_at)
+  SELECT
+    recipe.id,
+    concat_ws(E'\n', nullif(recipe.description, ''), ingredient.names, array_to_string(recipe.instructions, E'\n'), comment.texts),
+    recipe_search_vector(recipe.title, 'A')
+      || recipe_search_vector(array_to_string(recipe.tags, ' '), 'B')
+      || recipe_search_vector(ingredient.names, 'B')
+      || recipe_search_vector(recipe.description, 'C')
+      || recipe_search_vector(array_to_string(recipe.instructions, ' '), 'C')
+      || recipe_search_vector(comment.texts, 'D'),
+    now()
+  FROM recipes AS recipe
+  CROSS JOIN LATERAL (
+    SELECT string_agg(name, ', ' ORDER BY name) AS names FROM ingredients WHERE recipe_id = recipe.id
+  ) AS ingredient
+  CROSS JOIN LATERAL (
+    SELECT string_agg(text, E'\n' ORDER BY created_at, id) AS texts FROM comments WHERE recipe_id = recipe.id
+  ) AS comment
+  WHERE recipe.id = p_recipe_id
+  ON CONFLICT (recipe_id) DO UPDATE
+  SET content = EXCLUDED.content, document = EXCLUDED.document, updated_at = EXCLUDED.updated_at;
+$$;
+
+-- Keep the index in step with recipes, ingredients and comments
+CREATE OR REPLACE FUNCTION public.refresh_recipe_search_on_recipe()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM refresh_recipe_search(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+-- Saving a recipe replaces all its ingredients in one statement, so ingredients and comments
+-- are handled per statement: each recipe they touch is rebuilt once, not once per row.
+-- Merging duplicates moves comments between recipes, so an update refreshes both sides.
+CREATE OR REPLACE FUNCTION public.refresh_recipe_search_on_rows()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM refresh_recipe_search(changed.recipe_id)
+    FROM (SELECT DISTINCT recipe_id FROM new_rows) AS changed;
+  ELSIF TG_OP = 'UPDATE' THEN
+    PERFORM refresh_recipe_search(changed.recipe_id)
+    FROM (SELECT recipe_id FROM new_rows UNION SELECT recipe_id FROM old_rows) AS changed;
+  ELSE
+    PERFORM refresh_recipe_search(changed.recipe_id)
+    FROM (SELECT DISTINCT recipe_id FROM old_rows) AS changed;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_recipe_search_on_recipes
+  AFTER INSERT OR UPDATE ON public.recipes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_recipe_search_on_recipe();
+
+CREATE TRIGGER refresh_recipe_search_on_ingredients_insert
+  AFTER INSERT ON public.ingredients
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.refresh_recipe_search_on_rows();
+
+CREATE TRIGGER refresh_recipe_search_on_ingredients_update
+  AFTER UPDATE ON public.ingredients
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.refresh_recipe_search_on_rows();
+
+CREATE TRIGGER refresh_recipe_search_on_ingredients_delete
+  AFTER DELETE ON public.ingredients
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.refresh_recipe_search_on_rows();
+
+CREATE TRIGGER refresh_recipe_search_on_comments_insert
+  AFTER INSERT ON public.comments
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.refresh_recipe_search_on_rows();
+
+CREATE TRIGGER refresh_recipe_search_on_comments_update
+  AFTER UPDATE ON public.comments
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.refresh_recipe_search_on_rows();
+
+CREATE TRIGGER refresh_recipe_search_on_comments_delete
+  AFTER DELETE ON public.comments
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION public.refresh_recipe_search_on_rows();
+
+SELECT public.refresh_recipe_search(id) FROM public.recipes;
+
+-- Ranked matches for a search box query, with up to two highlighted fragments per recipe.
+-- A question like "what can I make with leftover chickpeas" seldom matches every word, so
+-- when nothing does, recipes matching any of the words are ranked instead. Only the words
+-- being looked for count there; excluded ones ("-nuts") are left out, not turned into matches.
+CREATE OR REPLACE FUNCTION public.search_recipes(p_query TEXT, p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (recipe_id UUID, rank REAL, snippet TEXT)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_query tsquery := websearch_to_tsquery('english', p_query) || websearch_to_tsquery('public.hebrew', p_query);
+  v_any_word tsquery;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM recipe_search WHERE document @@ v_query) THEN
+    -- Stemmed words of the query without its "-word" and -"some phrase" exclusions; the english
+    -- stemmer drops stop words ("what", "with"), so they do not match everything
+    SELECT string_agg(quote_literal(word.lexeme), ' | ')::tsquery
+    INTO v_any_word
+    FROM unnest(to_tsvector('english', regexp_replace(p_query, '(^|\s)-("[^"]*"?|\S+)', ' ', 'g'))) AS word;
+    v_query := coalesce(v_any_word, v_query);
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    entry.recipe_id,
+    ts_rank_cd(entry.document, v_query) AS rank,
+    ts_headline(
+      'english',
+      entry.content,
+      v_query,
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "'
+    ) AS snippet
+  FROM recipe_search AS entry
+  WHERE entry.document @@ v_query
+  ORDER BY 2 DESC
+  LIMIT p_limit;
+END;
+$$;
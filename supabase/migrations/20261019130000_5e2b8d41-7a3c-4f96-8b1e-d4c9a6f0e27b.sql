@@ -0,0 +1,71 @@
+-- Named recipe collections. A smart collection stores a saved search (the query string
+-- of the recipe list) and is worked out again on every visit, so it follows recipe
+-- changes; a manual collection is an ordered, hand-picked list in collection_recipes.
+CREATE TABLE IF NOT EXISTS public.collections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('smart', 'manual')),
+  search_params TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.collections.search_params IS 'Filter query string of a smart collection, e.g. tag=dessert&rating=4-; empty for manual collections';
+
+CREATE TABLE IF NOT EXISTS public.collection_recipes (
+  collection_id UUID NOT NULL REFERENCES public.collections(id) ON DELETE CASCADE,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  added_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (collection_id, recipe_id)
+);
+
+CREATE INDEX IF NOT EXISTS collection_recipes_recipe_id_idx ON public.collection_recipes (recipe_id);
+
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collection_recipes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view collections"
+  ON public.collections
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can create collections"
+  ON public.collections
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update collections"
+  ON public.collections
+  FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Anyone can delete collections"
+  ON public.collections
+  FOR DELETE
+  USING (true);
+
+CREATE POLICY "Anyone can view collection recipes"
+  ON public.collection_recipes
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can add collection recipes"
+  ON public.collection_recipes
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update collection recipes"
+  ON public.collection_recipes
+  FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Anyone can remove collection recipes"
+  ON public.collection_recipes
+  FOR DELETE
+  USING (true);
+
+CREATE TRIGGER update_collections_updated_at
+  BEFORE UPDATE ON public.collections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,78 @@
+-- Meal plans: recipes placed on dates and meal slots. servings overrides the recipe's
+-- own serving count for that one meal; null means cook the recipe as written.
+CREATE TABLE IF NOT EXISTS public.meal_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.meal_plan_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  plan_id UUID NOT NULL REFERENCES public.meal_plans(id) ON DELETE CASCADE,
+  recipe_id UUID NOT NULL REFERENCES public.recipes(id) ON DELETE CASCADE,
+  planned_on DATE NOT NULL,
+  meal_slot TEXT NOT NULL DEFAULT 'dinner' CHECK (meal_slot IN ('breakfast', 'lunch', 'dinner', 'snack')),
+  servings INTEGER CHECK (servings > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS meal_plan_entries_plan_date_idx ON public.meal_plan_entries (plan_id, planned_on);
+
+ALTER TABLE public.meal_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.meal_plan_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view meal plans"
+  ON public.meal_plans
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can create meal plans"
+  ON public.meal_plans
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update meal plans"
+  ON public.meal_plans
+  FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Anyone can delete meal plans"
+  ON public.meal_plans
+  FOR DELETE
+  USING (true);
+
+CREATE POLICY "Anyone can view meal plan entries"
+  ON public.meal_plan_entries
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can create meal plan entries"
+  ON public.meal_plan_entries
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update meal plan entries"
+  ON public.meal_plan_entries
+  FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Anyone can delete meal plan entries"
+  ON public.meal_plan_entries
+  FOR DELETE
+  USING (true);
+
+CREATE TRIGGER update_meal_plans_updated_at
+  BEFORE UPDATE ON public.meal_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_meal_plan_entries_updated_at
+  BEFORE UPDATE ON public.meal_plan_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Start everyone off with one plan to fill in
+INSERT INTO public.meal_plans (name) VALUES ('Meal plan');
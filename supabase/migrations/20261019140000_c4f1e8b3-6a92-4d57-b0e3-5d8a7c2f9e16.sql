@@ -0,0 +1,83 @@
+-- Shopping lists generated from recipes or a week of a meal plan. Items are stored as
+-- generated, so a list opened later (on a phone in the shop) does not change when the
+-- recipes do; checked is the only thing that changes while shopping.
+CREATE TABLE IF NOT EXISTS public.shopping_lists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.shopping_list_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  list_id UUID NOT NULL REFERENCES public.shopping_lists(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  amount TEXT NOT NULL DEFAULT '',
+  detail TEXT NOT NULL DEFAULT '',
+  aisle TEXT NOT NULL DEFAULT 'other',
+  recipes TEXT[] NOT NULL DEFAULT '{}',
+  checked BOOLEAN NOT NULL DEFAULT false,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.shopping_list_items.detail IS 'The amounts combined into amount, e.g. 1 cup + 200 ml';
+
+CREATE INDEX IF NOT EXISTS shopping_list_items_list_id_idx ON public.shopping_list_items (list_id);
+
+ALTER TABLE public.shopping_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shopping_list_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view shopping lists"
+  ON public.shopping_lists
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can create shopping lists"
+  ON public.shopping_lists
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update shopping lists"
+  ON public.shopping_lists
+  FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Anyone can delete shopping lists"
+  ON public.shopping_lists
+  FOR DELETE
+  USING (true);
+
+CREATE POLICY "Anyone can view shopping list items"
+  ON public.shopping_list_items
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can create shopping list items"
+  ON public.shopping_list_items
+  FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Anyone can update shopping list items"
+  ON public.shopping_list_items
+  FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Anyone can delete shopping list items"
+  ON public.shopping_list_items
+  FOR DELETE
+  USING (true);
+
+CREATE TRIGGER update_shopping_lists_updated_at
+  BEFORE UPDATE ON public.shopping_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_shopping_list_items_updated_at
+  BEFORE UPDATE ON public.shopping_list_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Ticks show up on every phone that has the list open
+ALTER PUBLICATION supabase_realtime ADD TABLE public.shopping_list_items;
@@ -0,0 +1,5 @@
+-- Which instruction steps use each ingredient, and how much of it each one takes
+ALTER TABLE public.ingredients
+  ADD COLUMN IF NOT EXISTS steps JSONB;
+
+COMMENT ON COLUMN public.ingredients.steps IS 'Array of {step, amount}: step is a 0-based index into recipes.instructions, amount (in the ingredient''s unit) is absent when the step uses all of it. NULL until linked; the app then matches the ingredient name against the step text';
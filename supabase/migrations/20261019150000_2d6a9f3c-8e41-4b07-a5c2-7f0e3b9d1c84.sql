@@ -0,0 +1,9 @@
+-- Optional named sections ("For the dough", "For the filling") for ingredients and steps
+ALTER TABLE public.ingredients
+  ADD COLUMN IF NOT EXISTS group_name TEXT;
+
+ALTER TABLE public.recipes
+  ADD COLUMN IF NOT EXISTS instruction_groups TEXT[];
+
+COMMENT ON COLUMN public.ingredients.group_name IS 'Section the ingredient is listed under; NULL outside any section';
+COMMENT ON COLUMN public.recipes.instruction_groups IS 'Section of each entry in instructions, by position; empty string outside any section';
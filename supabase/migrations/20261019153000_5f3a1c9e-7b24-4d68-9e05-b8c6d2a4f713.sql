@@ -0,0 +1,5 @@
+-- Size of one can or package for counted ingredients: "14 oz" in "1 (14 oz) can beans"
+ALTER TABLE public.ingredients
+  ADD COLUMN IF NOT EXISTS package_size TEXT;
+
+COMMENT ON COLUMN public.ingredients.package_size IS 'Size of one can or package as written, e.g. 14 oz; NULL when the line gives none';
@@ -0,0 +1,70 @@
+-- Fold a duplicate recipe into the one being kept, in a single transaction: the kept recipe
+-- takes the merged details and ingredients, the duplicate's comments, import records,
+-- collection places and planned meals move over, and the duplicate is deleted.
+-- Either all of it happens or none of it does.
+-- p_recipe holds the merged recipes columns, p_ingredients the merged ingredient rows.
+CREATE OR REPLACE FUNCTION public.merge_recipes(
+  p_primary_id UUID,
+  p_duplicate_id UUID,
+  p_recipe JSONB,
+  p_ingredients JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF p_primary_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A recipe cannot be merged into itself';
+  END IF;
+
+  UPDATE recipes AS recipe
+  SET
+    title = merged.title,
+    description = merged.description,
+    image = merged.image,
+    rating = merged.rating,
+    tags = merged.tags,
+    instructions = merged.instructions,
+    instruction_groups = merged.instruction_groups,
+    cook_time = merged.cook_time,
+    servings = merged.servings,
+    website_url = merged.website_url,
+    canonical_url = merged.canonical_url,
+    calories = merged.calories,
+    nutrition = merged.nutrition
+  FROM jsonb_populate_record(NULL::recipes, p_recipe) AS merged
+  WHERE recipe.id = p_primary_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recipe % not found', p_primary_id;
+  END IF;
+
+  DELETE FROM ingredients WHERE recipe_id = p_primary_id;
+  INSERT INTO ingredients (
+    recipe_id, name, amount, unit, package_size, quantity_value, quantity_max,
+    canonical_unit, preparation, original_text, steps, group_name
+  )
+  SELECT
+    p_primary_id, ingredient.name, ingredient.amount, ingredient.unit, ingredient.package_size, ingredient.quantity_value, ingredient.quantity_max,
+    ingredient.canonical_unit, ingredient.preparation, ingredient.original_text, ingredient.steps, ingredient.group_name
+  FROM jsonb_populate_recordset(NULL::ingredients, coalesce(p_ingredients, '[]'::jsonb)) AS ingredient;
+
+  UPDATE comments SET recipe_id = p_primary_id WHERE recipe_id = p_duplicate_id;
+  UPDATE imported_recipe_urls SET recipe_id = p_primary_id WHERE recipe_id = p_duplicate_id;
+
+  -- A collection holds a recipe once; where both recipes are in it, the kept one keeps its place
+  DELETE FROM collection_recipes AS entry
+  WHERE entry.recipe_id = p_duplicate_id
+    AND EXISTS (
+      SELECT 1 FROM collection_recipes AS kept
+      WHERE kept.collection_id = entry.collection_id AND kept.recipe_id = p_primary_id
+    );
+  UPDATE collection_recipes SET recipe_id = p_primary_id WHERE recipe_id = p_duplicate_id;
+
+  UPDATE meal_plan_entries SET recipe_id = p_primary_id WHERE recipe_id = p_duplicate_id;
+
+  DELETE FROM recipes WHERE id = p_duplicate_id;
+  RETURN p_primary_id;
+END;
+$$;
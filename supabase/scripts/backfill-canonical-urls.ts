@@ -0,0 +1,61 @@
+// One-off backfill of recipes.canonical_url for recipes saved before the column existed.
+// The migration that adds the column can only reduce YouTube links in SQL; this runs the
+// same canonicalizeUrl the app and the import functions use over every recipe.
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-env --allow-net supabase/scripts/backfill-canonical-urls.ts [--dry-run]
+//
+// Safe to run more than once: rows whose canonical URL is already right are left alone.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.4';
+import { canonicalizeUrl } from '../functions/_shared/canonicalUrl.ts';
+
+const PAGE_SIZE = 500;
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  Deno.exit(1);
+}
+
+const dryRun = Deno.args.includes('--dry-run');
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+let scanned = 0;
+let updated = 0;
+let lastId: string | null = null;
+
+// Keyset pagination by id, so updates made along the way cannot shift the pages
+while (true) {
+  let query = supabase
+    .from('recipes')
+    .select('id, website_url, canonical_url')
+    .not('website_url', 'is', null)
+    .order('id')
+    .limit(PAGE_SIZE);
+  if (lastId) query = query.gt('id', lastId);
+
+  const { data: recipes, error } = await query;
+  if (error) throw error;
+  if (!recipes || recipes.length === 0) break;
+
+  for (const recipe of recipes) {
+    scanned++;
+    const canonicalUrl = canonicalizeUrl(recipe.website_url ?? '');
+    if (canonicalUrl === recipe.canonical_url) continue;
+
+    console.log(`${recipe.id}: ${recipe.canonical_url ?? '(none)'} -> ${canonicalUrl ?? '(none)'}`);
+    if (!dryRun) {
+      const { error: updateError } = await supabase
+        .from('recipes')
+        .update({ canonical_url: canonicalUrl })
+        .eq('id', recipe.id);
+      if (updateError) throw updateError;
+    }
+    updated++;
+  }
+
+  lastId = recipes[recipes.length - 1].id;
+}
+
+console.log(`${dryRun ? 'Would update' : 'Updated'} ${updated} of ${scanned} recipes`);